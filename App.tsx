@@ -3,21 +3,42 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useMemo, useCallback, useEffect } from 'react';
+import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import StartScreen from './components/StartScreen';
 import Canvas from './components/Canvas';
 import WardrobePanel from './components/WardrobePanel';
+import WardrobeSheet from './components/WardrobeSheet';
+import ProductSelector from './components/ProductSelector';
 import OutfitStack from './components/OutfitStack';
-import { generateVirtualTryOnImage, generatePoseVariation, editImageWithPrompt } from './services/geminiService';
-import { OutfitLayer, WardrobeItem, CreationItem } from './types';
-import { DownloadIcon, AlertTriangleIcon, PlayIcon, SmartphoneIcon } from './components/icons';
+import { generateVirtualTryOnImage, applyOutfit, generatePoseVariation, editImageWithPrompt, changeBackground, generateCandidates, generateOutfitVideo, tagGarment, GarmentVariantChange, GenerationOptions, GenerationResult, MAX_OUTFIT_GARMENTS, OutfitGarment, PoseReference } from './services/geminiService';
+import { getPoseReferences, PoseAngle, setGarmentViewUrl } from './services/garmentViews';
+import { createGarmentVariant } from './services/garmentVariants';
+import { getGarmentFit, getLayerFit, getStoredMeasurements, isSameFit, storeMeasurements } from './services/garmentFit';
+import { OutfitVideoStyle, STUDIO_BACKGROUND } from './services/prompts';
+import { describePreprocessingChanges } from './services/imagePreprocessing';
+import { editLayer, findReplacedGarments, getGarmentStyling, getWornGarments, putOnGarment } from './services/outfitSlots';
+import { getGarmentRole } from './services/garmentTagging';
+import { findDuplicateGarment, hashGarmentFile, prepareWardrobeItem, validateGarmentFile } from './services/garmentUpload';
+import { computeImageHash } from './services/perceptualHash';
+import { getStoredCatalog, loadCatalogFromUrl, ParsedCatalog, storeCatalog } from './services/catalog';
+import { deleteWardrobeCollection, deleteWardrobeItem, loadWardrobe, saveWardrobeCollection, saveWardrobeItem, updateWardrobeItem } from './services/wardrobeStore';
+import { BodyMeasurements, CatalogProduct, GarmentFit, GarmentUpload, GarmentView, ImageCrop, OutfitLayer, OutfitRecomposition, SizeChartEntry, StylingHint, WardrobeCollection, WardrobeItem, CreationItem } from './types';
+import { DownloadIcon, AlertTriangleIcon, PlayIcon, SmartphoneIcon, ShirtIcon } from './components/icons';
 import { defaultWardrobe } from './wardrobe';
 import Footer from './components/Footer';
-import { getFriendlyErrorMessage } from './lib/utils';
+import { describeError, FriendlyError, getFriendlyErrorMessage, isAbortError, urlToFile } from './lib/utils';
 import Spinner from './components/Spinner';
 import RecentCreations from './components/RecentCreations';
 import EditorControls from './components/EditorControls';
+import ErrorAlert from './components/ErrorAlert';
+import CacheSettings from './components/CacheSettings';
+import VideoModal from './components/VideoModal';
+import GarmentIsolationReview from './components/GarmentIsolationReview';
+import CropPanel from './components/CropPanel';
+import GarmentViewsModal from './components/GarmentViewsModal';
+import SizeChartModal from './components/SizeChartModal';
+import MeasurementsModal from './components/MeasurementsModal';
 
 const POSE_INSTRUCTIONS = [
   "Full frontal view, hands on hips",
@@ -32,13 +53,28 @@ const POSE_INSTRUCTIONS = [
   "Full backside view",
 ];
 
+// Poses that show garments from the side or behind; they are generated with the garments' back and detail photos.
+const POSE_ANGLES: Record<string, PoseAngle> = {
+  "Slightly turned, 3/4 view": 'side',
+  "Looking over the shoulder": 'back',
+  "Side profile view": 'side',
+  "Full backside view": 'back',
+};
+
 const SAVED_OUTFIT_KEY = 'virtual-try-on-outfit';
-const STUDIO_PROMPT = "an elegant, high-end studio setting featuring a white fluted column, soft sheer white fabric drapes, and a floral arrangement with white and peach flowers on a pedestal, with a clean white floor";
 
 type LastAction = 
-  | { type: 'try-on'; garmentFile: File; garmentInfo: WardrobeItem }
-  | { type: 'pose'; poseInstruction: string, baseImage: string }
-  | { type: 'edit'; prompt: string, baseImage: string };
+  | { type: 'try-on'; garmentFile: File; garmentInfo: WardrobeItem; styling: StylingHint[]; fit?: GarmentFit }
+  | { type: 'outfit'; garments: OutfitGarment[]; baseImage: string }
+  | { type: 'pose'; poseInstruction: string, baseImage: string, references: PoseReference[] }
+  | { type: 'edit'; prompt: string, baseImage: string }
+  | { type: 'background'; background: string, baseImage: string };
+
+// Keeps every candidate generated for a pose so rejected ones stay available in the layer's history.
+const addCandidates = (candidates: OutfitLayer['candidates'], poseInstruction: string, urls: string[]) => {
+  const existing = candidates?.[poseInstruction] ?? [];
+  return { ...candidates, [poseInstruction]: [...existing, ...urls.filter(url => !existing.includes(url))] };
+};
 
 const useMediaQuery = (query: string): boolean => {
   const [matches, setMatches] = useState(() => window.matchMedia(query).matches);
@@ -67,15 +103,47 @@ const App: React.FC = () => {
   const [currentOutfitIndex, setCurrentOutfitIndex] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState('');
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<FriendlyError | null>(null);
+  // Tells the user what was adjusted about their last garment photo before it was sent.
+  const [inputNotice, setInputNotice] = useState<string | null>(null);
   const [currentPoseIndex, setCurrentPoseIndex] = useState(0);
   const [wardrobe, setWardrobe] = useState<WardrobeItem[]>(defaultWardrobe);
+  const [collections, setCollections] = useState<WardrobeCollection[]>([]);
+  const [catalog, setCatalog] = useState<CatalogProduct[]>(getStoredCatalog);
   const isMobile = useMediaQuery('(max-width: 767px)');
+  const [isWardrobeSheetOpen, setIsWardrobeSheetOpen] = useState(false);
   const [hasSavedOutfit, setHasSavedOutfit] = useState(false);
   const [recentCreations, setRecentCreations] = useState<CreationItem[]>([]);
   const [showStartOverModal, setShowStartOverModal] = useState(false);
   const [lastAction, setLastAction] = useState<LastAction | null>(null);
   const [currentBackground, setCurrentBackground] = useState<string>('');
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [candidateCount, setCandidateCount] = useState(1);
+  const [isCandidatePickerOpen, setIsCandidatePickerOpen] = useState(false);
+  const [viewingVideoUrl, setViewingVideoUrl] = useState<string | null>(null);
+  // Garments being re-applied after one was removed or replaced, for per-layer progress.
+  const [recomposition, setRecomposition] = useState<OutfitRecomposition | null>(null);
+  // The stack as it was before a removal or replacement, until the user keeps the new one.
+  const [previousOutfit, setPreviousOutfit] = useState<{ outfitHistory: OutfitLayer[]; currentOutfitIndex: number } | null>(null);
+  // The worn garment that the next wardrobe pick replaces.
+  const [replacingGarmentId, setReplacingGarmentId] = useState<string | null>(null);
+  // The wardrobe item whose cutout is being compared with its original photo.
+  const [reviewedItemId, setReviewedItemId] = useState<string | null>(null);
+  // The wardrobe item open in the crop editor.
+  const [croppedItemId, setCroppedItemId] = useState<string | null>(null);
+  // The wardrobe item whose back and detail photos are being edited.
+  const [viewsItemId, setViewsItemId] = useState<string | null>(null);
+  // The wardrobe item whose size chart is being edited.
+  const [sizeItemId, setSizeItemId] = useState<string | null>(null);
+  const [measurements, setMeasurements] = useState<BodyMeasurements>(getStoredMeasurements);
+  const [isMeasurementsOpen, setIsMeasurementsOpen] = useState(false);
+  const [uploads, setUploads] = useState<GarmentUpload[]>([]);
+  // Files waiting in the upload queue, by upload id, and the upload being processed.
+  const uploadFilesRef = useRef(new Map<string, File>());
+  const uploadAbortRef = useRef<{ uploadId: string; controller: AbortController } | null>(null);
+  // The latest wardrobe, for background work that finishes after the render that started it.
+  const wardrobeRef = useRef(wardrobe);
+  wardrobeRef.current = wardrobe;
   
   // PWA Install Prompt State
   const [deferredPrompt, setDeferredPrompt] = useState<any>(null);
@@ -103,27 +171,48 @@ const App: React.FC = () => {
     setHasSavedOutfit(!!savedData);
   }, []);
 
+  // The wardrobe outlives any one session: stored items come first, followed by anything added
+  // before the store finished loading.
+  useEffect(() => {
+    loadWardrobe()
+      .then(({ items, collections: storedCollections }) => {
+        setWardrobe(prev => [...items, ...prev.filter(item => !items.some(stored => stored.id === item.id))]);
+        setCollections(storedCollections);
+        hashStoredUploads(items);
+      })
+      .catch(err => console.warn('Could not load the saved wardrobe.', err));
+  }, []);
+
+  // A build can ship with a feed (VITE_CATALOG_URL); it is loaded until the user imports their own.
+  useEffect(() => {
+    const feedUrl = import.meta.env.VITE_CATALOG_URL;
+    if (!feedUrl || catalog.length > 0) return;
+    loadCatalogFromUrl(feedUrl)
+      .then(({ products }) => setCatalog(products))
+      .catch(err => console.warn(`Could not load the catalog from ${feedUrl}.`, err));
+  }, []);
+
+  useEffect(() => {
+    storeCatalog(catalog);
+  }, [catalog]);
+
+  useEffect(() => {
+    storeMeasurements(measurements);
+  }, [measurements]);
+
   // Save state to local storage whenever relevant data changes
   useEffect(() => {
     // Only save images (videos are blobs and don't persist)
     const imagesOnlyCreations = recentCreations.filter(item => item.type === 'image');
     
-    // Filter out outfit history layers that use blob URLs for garments to prevent saving broken links
-    const safeOutfitHistory = outfitHistory.map(layer => {
-        if (layer.garment && layer.garment.url.startsWith('blob:')) {
-             // If it's a blob, we can't save it effectively without base64 conversion which is heavy.
-             // We'll keep the layer but maybe nullify the garment so the app doesn't try to fetch a dead blob on reload.
-             return { ...layer, garment: null };
-        }
-        return layer;
-    });
+    // Garments from the wardrobe store have blob URLs that die with the page; they are saved as
+    // they are and matched back to the wardrobe by id when the outfit is loaded.
+    if (imagesOnlyCreations.length === 0 && outfitHistory.length === 0) return;
 
-    if (imagesOnlyCreations.length === 0 && safeOutfitHistory.length === 0) return;
-
-    const trySave = (creations: CreationItem[]) => {
+    const trySave = (creations: CreationItem[], history: OutfitLayer[] = outfitHistory) => {
         try {
             const data = {
-                outfitHistory: safeOutfitHistory,
+                outfitHistory: history,
                 currentOutfitIndex,
                 recentCreations: creations,
                 currentBackground,
@@ -145,7 +234,11 @@ const App: React.FC = () => {
             if (!trySave(imagesOnlyCreations.slice(0, 1))) {
                 // 4. Try saving just the outfit history (no recent creations)
                 if (!trySave([])) {
-                     console.warn("LocalStorage full. Could not save session progress.");
+                    // 5. Try saving the outfit history without the alternative candidates
+                    const historyWithoutCandidates = outfitHistory.map(({ candidates, ...layer }) => layer);
+                    if (!trySave([], historyWithoutCandidates)) {
+                        console.warn("LocalStorage full. Could not save session progress.");
+                    }
                 }
             }
         }
@@ -162,22 +255,92 @@ const App: React.FC = () => {
     [activeOutfitLayers]
   );
   
+  // The pose key whose image is on screen: the current pose, or the layer's first image as a fallback.
+  // This ensures an image is shown even while a new pose is generating.
+  const displayPoseKey = useMemo(() => {
+    const currentLayer = outfitHistory[currentOutfitIndex];
+    if (!currentLayer) return null;
+    const poseInstruction = POSE_INSTRUCTIONS[currentPoseIndex];
+    return currentLayer.poseImages[poseInstruction] ? poseInstruction : Object.keys(currentLayer.poseImages)[0] ?? null;
+  }, [outfitHistory, currentOutfitIndex, currentPoseIndex]);
+
   const displayImageUrl = useMemo(() => {
     if (outfitHistory.length === 0) return modelImageUrl;
     const currentLayer = outfitHistory[currentOutfitIndex];
-    if (!currentLayer) return modelImageUrl;
+    if (!currentLayer || !displayPoseKey) return modelImageUrl;
+    return currentLayer.poseImages[displayPoseKey];
+  }, [outfitHistory, currentOutfitIndex, displayPoseKey, modelImageUrl]);
+
+  const displayCandidates = useMemo(() => {
+    if (!displayPoseKey) return [];
+    return outfitHistory[currentOutfitIndex]?.candidates?.[displayPoseKey] ?? [];
+  }, [outfitHistory, currentOutfitIndex, displayPoseKey]);
+
+  // Starts a cancellable generation. Any generation still in flight is aborted first.
+  const beginGeneration = () => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return controller.signal;
+  };
 
-    const poseInstruction = POSE_INSTRUCTIONS[currentPoseIndex];
-    // Return the image for the current pose, or fallback to the first available image for the current layer.
-    // This ensures an image is shown even while a new pose is generating.
-    return currentLayer.poseImages[poseInstruction] ?? Object.values(currentLayer.poseImages)[0];
-  }, [outfitHistory, currentOutfitIndex, currentPoseIndex, modelImageUrl]);
+  const endGeneration = (signal: AbortSignal) => {
+    if (abortControllerRef.current?.signal === signal) {
+      abortControllerRef.current = null;
+    }
+  };
+
+  const handleCancelGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
 
-  const addRecentCreation = (url: string, type: 'image' | 'video') => {
-    setRecentCreations(prev => [{ id: Date.now().toString(), url, type }, ...prev].slice(0, 12));
+  // Images are hashed in the background so Recent Creations can group near-identical ones.
+  const hashRecentCreations = async (items: CreationItem[]) => {
+    for (const item of items) {
+      if (item.type !== 'image' || item.imageHash) continue;
+      try {
+        const imageHash = await computeImageHash(item.url);
+        setRecentCreations(prev => prev.map(creation => creation.id === item.id ? { ...creation, imageHash } : creation));
+      } catch (err) {
+        console.warn('Could not hash a recent creation.', err);
+      }
+    }
   };
 
-  const handleModelFinalized = (url: string) => {
+  const addRecentCreation = (url: string, type: 'image' | 'video', promptVersion?: string) => {
+    const item: CreationItem = { id: Date.now().toString(), url, type, promptVersion };
+    setRecentCreations(prev => [item, ...prev].slice(0, 12));
+    hashRecentCreations([item]);
+  };
+
+  // Generates a single result, or `candidateCount` parallel candidates when multi-candidate mode is on.
+  // When there are several, the first one is applied and the picker opens so the user can choose another.
+  const runGeneration = async (generateOne: (options: GenerationOptions) => Promise<GenerationResult>, options: GenerationOptions) => {
+    const results = candidateCount > 1
+      ? await generateCandidates(candidateCount, generateOne, options)
+      : [await generateOne(options)];
+    setIsCandidatePickerOpen(results.length > 1);
+    return results;
+  };
+
+  const handleSelectCandidate = (url: string) => {
+    if (!displayPoseKey) return;
+    setOutfitHistory(prevHistory => {
+      const newHistory = [...prevHistory];
+      const layerToUpdate = newHistory[currentOutfitIndex];
+      newHistory[currentOutfitIndex] = {
+        ...layerToUpdate,
+        poseImages: { ...layerToUpdate.poseImages, [displayPoseKey]: url },
+      };
+      return newHistory;
+    });
+    if (!recentCreations.some(item => item.url === url)) {
+      addRecentCreation(url, 'image');
+    }
+    setIsCandidatePickerOpen(false);
+  };
+
+  const handleModelFinalized = (url: string, promptVersion: string) => {
     setModelImageUrl(url);
     setOutfitHistory([{
       garment: null,
@@ -185,8 +348,8 @@ const App: React.FC = () => {
     }]);
     setCurrentOutfitIndex(0);
     // Initialize with the detailed studio prompt so subsequent generations match the first one
-    setCurrentBackground(STUDIO_PROMPT);
-    addRecentCreation(url, 'image');
+    setCurrentBackground(STUDIO_BACKGROUND);
+    addRecentCreation(url, 'image', promptVersion);
   };
 
   const handleAttemptStartOver = () => {
@@ -198,7 +361,9 @@ const App: React.FC = () => {
   };
 
   const handleConfirmStartOver = () => {
+    handleCancelGeneration();
     setShowStartOverModal(false);
+    setIsCandidatePickerOpen(false);
     setModelImageUrl(null);
     setOutfitHistory([]);
     setCurrentOutfitIndex(0);
@@ -206,10 +371,11 @@ const App: React.FC = () => {
     setLoadingMessage('');
     setError(null);
     setCurrentPoseIndex(0);
-    setWardrobe(defaultWardrobe);
     setRecentCreations([]);
     setLastAction(null);
     setCurrentBackground('');
+    setPreviousOutfit(null);
+    setReplacingGarmentId(null);
     localStorage.removeItem(SAVED_OUTFIT_KEY);
     setHasSavedOutfit(false);
   };
@@ -255,25 +421,31 @@ const App: React.FC = () => {
                 const modelUrl = Object.values(baseLayer.poseImages)[0] as string;
                 
                 if (modelUrl) {
+                    // Worn garments take their current wardrobe version; a blob URL that no wardrobe item
+                    // backs any more cannot be fetched, so that layer loses its garment.
+                    const restoredHistory = (savedHistory as OutfitLayer[]).map(layer => {
+                      if (!layer.garment) return layer;
+                      const { id, url } = layer.garment;
+                      const stored = wardrobe.find(item => item.id === id);
+                      if (stored) return { ...layer, garment: stored };
+                      return url.startsWith('blob:') ? { ...layer, garment: null } : layer;
+                    });
                     setModelImageUrl(modelUrl);
-                    setOutfitHistory(savedHistory);
+                    setOutfitHistory(restoredHistory);
                     setCurrentOutfitIndex(savedIndex ?? 0);
                     setRecentCreations(savedRecent);
+                    hashRecentCreations(savedRecent);
                     setLastAction(null);
+                    setPreviousOutfit(null);
+                    setReplacingGarmentId(null);
                     if (parsed.currentBackground) {
                         setCurrentBackground(parsed.currentBackground);
                     }
                     
-                    // Also restore personal wardrobe items from the saved history
-                    const savedCustomItems = savedHistory
-                      .map((layer: any) => layer.garment)
-                      .filter((g: any) => g && g.id.startsWith('custom-')) as WardrobeItem[];
-                    
-                    setWardrobe(prev => {
-                      const existingIds = new Set(prev.map(item => item.id));
-                      const newItems = savedCustomItems.filter(item => !existingIds.has(item.id));
-                      return [...prev, ...newItems];
-                    });
+                    // Also restore personal wardrobe items that are only in the saved history
+                    getWornGarments(restoredHistory)
+                      .filter(garment => garment.id.startsWith('custom-'))
+                      .forEach(addToWardrobe);
                 } else {
                   throw new Error("Saved data is missing a valid model URL.");
                 }
@@ -284,35 +456,223 @@ const App: React.FC = () => {
             console.error("Failed to load or parse saved outfit:", e);
             localStorage.removeItem(SAVED_OUTFIT_KEY);
             setHasSavedOutfit(false);
-            setError(getFriendlyErrorMessage(e as any, 'Could not load saved outfit'));
+            setError(describeError(e as any, 'Could not load saved outfit'));
+        }
+    }
+  };
+
+  // Storage failures are logged rather than shown: the wardrobe keeps working for this session.
+  const persistWardrobe = (operation: Promise<void>) => {
+    operation.catch(err => console.warn('Could not save the wardrobe.', err));
+  };
+
+  const addToWardrobe = (garment: WardrobeItem) => {
+    if (wardrobe.some(existing => existing.id === garment.id)) return;
+    const item = { ...garment, addedAt: garment.addedAt ?? Date.now() };
+    setWardrobe(prev => prev.some(existing => existing.id === item.id) ? prev : [...prev, item]);
+    persistWardrobe(saveWardrobeItem(item));
+  };
+
+  // Updates an item in the wardrobe, in every layer wearing it, and in storage.
+  const updateWardrobeItemEverywhere = (id: string, changes: Partial<Omit<WardrobeItem, 'id' | 'url' | 'originalUrl' | 'isolatedUrl' | 'backUrl' | 'detailUrl'>>) => {
+    const apply = (garment: WardrobeItem): WardrobeItem => ({ ...garment, ...changes });
+    setWardrobe(prev => prev.map(item => item.id === id ? apply(item) : item));
+    setOutfitHistory(prev => prev.map(layer => layer.garment?.id === id ? { ...layer, garment: apply(layer.garment) } : layer));
+    persistWardrobe(updateWardrobeItem(id, changes));
+  };
+
+  // Feeds the wardrobe's "Recently used" sort.
+  const markWardrobeItemsUsed = (items: WardrobeItem[]) => {
+    const lastUsedAt = Date.now();
+    items.forEach(item => updateWardrobeItemEverywhere(item.id, { lastUsedAt }));
+  };
+
+  // Deleting an item only takes it out of the wardrobe; outfits already wearing it keep it.
+  const handleDeleteWardrobeItem = (id: string) => {
+    setWardrobe(prev => prev.filter(item => item.id !== id));
+    persistWardrobe(deleteWardrobeItem(id));
+  };
+
+  const handleCreateCollection = (name: string): WardrobeCollection => {
+    const collection = { id: `collection-${Date.now()}`, name, createdAt: Date.now() };
+    setCollections(prev => [...prev, collection]);
+    persistWardrobe(saveWardrobeCollection(collection));
+    return collection;
+  };
+
+  // Products already in the catalog are replaced by their imported version; the rest are appended.
+  const handleImportCatalog = ({ products }: ParsedCatalog) => {
+    setCatalog(prev => {
+      const importedIds = new Set(products.map(product => product.id));
+      return [...prev.filter(product => !importedIds.has(product.id)), ...products];
+    });
+  };
+
+  // A product that is already in the wardrobe is tried on as that item, keeping its favorite, collections and crop.
+  const handleCatalogGarmentSelect = async (garmentFile: File, garmentInfo: WardrobeItem) => {
+    const existing = wardrobe.find(item => item.id === garmentInfo.id);
+    if (!existing?.crop) {
+      handleGarmentSelect(garmentFile, existing ?? garmentInfo);
+      return;
+    }
+    try {
+      handleGarmentSelect(await urlToFile(existing.url, existing.name, existing.crop), existing);
+    } catch (err) {
+      setError(describeError(err, 'Failed to load the cropped garment'));
+    }
+  };
+
+  const handleDeleteCollection = (id: string) => {
+    const withoutCollection = (item: WardrobeItem): WardrobeItem =>
+      item.collectionIds?.includes(id) ? { ...item, collectionIds: item.collectionIds.filter(collectionId => collectionId !== id) } : item;
+    setCollections(prev => prev.filter(collection => collection.id !== id));
+    setWardrobe(prev => prev.map(withoutCollection));
+    setOutfitHistory(prev => prev.map(layer => layer.garment ? { ...layer, garment: withoutCollection(layer.garment) } : layer));
+    persistWardrobe(deleteWardrobeCollection(id));
+  };
+
+  // Re-applies `garments` on top of the nearest layer whose outfit is unaffected (the longest
+  // prefix shared with the current stack, with unchanged styling and fit), so only the layers after
+  // it are regenerated. The stack it replaces stays restorable until the user keeps the change.
+  const recomposeOutfit = async (
+    garments: WardrobeItem[],
+    signal: AbortSignal,
+    changes: { files?: Record<string, File>; styling?: Record<string, StylingHint[]> } = {},
+  ) => {
+    const garmentFiles = changes.files ?? {};
+    const stylingOf = (garmentId: string) => changes.styling?.[garmentId] ?? getGarmentStyling(activeOutfitLayers, garmentId);
+    const fitOf = (garment: WardrobeItem) => getGarmentFit(garment, measurements) ?? undefined;
+    const wornGarments = getWornGarments(activeOutfitLayers);
+    let sharedCount = 0;
+    while (
+      sharedCount < Math.min(wornGarments.length, garments.length)
+      && wornGarments[sharedCount].id === garments[sharedCount].id
+      && !changes.styling?.[garments[sharedCount].id]
+      && isSameFit(getLayerFit(activeOutfitLayers, garments[sharedCount].id), fitOf(garments[sharedCount]))
+    ) {
+      sharedCount++;
+    }
+    // With nothing shared, the ancestor is the base model including any edits made before the first garment.
+    // Layers combined into a later generation have no image of their own, so the ancestor is before them.
+    const firstGarmentIndex = activeOutfitLayers.findIndex(layer => layer.garment);
+    const ancestorIndexFor = (count: number) => count > 0
+      ? activeOutfitLayers.map(layer => layer.garment?.id).lastIndexOf(wornGarments[count - 1].id)
+      : (firstGarmentIndex === -1 ? activeOutfitLayers.length : firstGarmentIndex) - 1;
+    let ancestorIndex = ancestorIndexFor(sharedCount);
+    while (activeOutfitLayers[ancestorIndex].combined) {
+      ancestorIndex = ancestorIndexFor(--sharedCount);
+    }
+    const ancestor = activeOutfitLayers[ancestorIndex];
+    const currentPoseInstruction = POSE_INSTRUCTIONS[currentPoseIndex];
+    const poseKey = ancestor.poseImages[currentPoseInstruction] ? currentPoseInstruction : Object.keys(ancestor.poseImages)[0];
+    const pendingGarments = garments.slice(sharedCount);
+    // The garments are applied with as few outfit generations as possible; a lone garment is a plain try-on.
+    const batches: WardrobeItem[][] = [];
+    for (let i = 0; i < pendingGarments.length; i += MAX_OUTFIT_GARMENTS) {
+      batches.push(pendingGarments.slice(i, i + MAX_OUTFIT_GARMENTS));
+    }
+
+    let imageUrl = ancestor.poseImages[poseKey];
+    let regeneratedAction: LastAction | null = null;
+    const layers: OutfitLayer[] = [];
+    try {
+      for (const [batchIndex, batch] of batches.entries()) {
+        setRecomposition({ garments: pendingGarments, completed: layers.length, inProgress: batch.length });
+        setLoadingMessage(batch.length > 1 ? `Applying ${batch.length} garments...` : `Regenerating ${batch[0].name}...`);
+        const outfitGarments = await Promise.all(batch.map(async garment => ({
+          file: garmentFiles[garment.id] ?? await urlToFile(garment.url, garment.name, garment.crop),
+          role: getGarmentRole(garment),
+          styling: stylingOf(garment.id),
+          fit: fitOf(garment),
+        })));
+        const baseImageUrl = imageUrl;
+        const generateOne = (options: GenerationOptions) => outfitGarments.length > 1
+          ? applyOutfit(baseImageUrl, outfitGarments, currentBackground, options)
+          : generateVirtualTryOnImage(baseImageUrl, outfitGarments[0], currentBackground, options);
+        // Only the finished look is offered as several candidates.
+        const isLastBatch = batchIndex === batches.length - 1;
+        const results = isLastBatch ? await runGeneration(generateOne, { signal }) : [await generateOne({ signal })];
+        const [{ imageUrl: newImageUrl, promptVersion, inputChanges = [] }] = results;
+        if (batch.length === 1 && garmentFiles[batch[0].id]) {
+          setInputNotice(describePreprocessingChanges(inputChanges, `The photo of ${batch[0].name}`));
         }
+        // Each garment keeps its own layer for undo and swapping; all but the last share its image.
+        batch.forEach((garment, index) => layers.push(index < batch.length - 1
+          ? { garment, poseImages: {}, styling: outfitGarments[index].styling, fit: outfitGarments[index].fit, combined: true }
+          : {
+            garment,
+            poseImages: { [poseKey]: newImageUrl },
+            candidates: results.length > 1 ? addCandidates(undefined, poseKey, results.map(r => r.imageUrl)) : undefined,
+            styling: outfitGarments[index].styling,
+            fit: outfitGarments[index].fit,
+          }));
+        if (isLastBatch) {
+          addRecentCreation(newImageUrl, 'image', promptVersion);
+        }
+        regeneratedAction = outfitGarments.length > 1
+          ? { type: 'outfit', garments: outfitGarments, baseImage: baseImageUrl }
+          : { type: 'try-on', garmentFile: outfitGarments[0].file, garmentInfo: batch[0], styling: outfitGarments[0].styling, fit: outfitGarments[0].fit };
+        imageUrl = newImageUrl;
+      }
+    } finally {
+      setRecomposition(null);
     }
+
+    // Keep the stack from before the first unconfirmed change, so restoring undoes all of them.
+    setPreviousOutfit(prev => prev ?? { outfitHistory, currentOutfitIndex });
+    setLastAction(regeneratedAction);
+    setOutfitHistory([...activeOutfitLayers.slice(0, ancestorIndex + 1), ...layers]);
+    setCurrentOutfitIndex(ancestorIndex + layers.length);
+    setCurrentPoseIndex(0);
   };
 
   const handleGarmentSelect = useCallback(async (garmentFile: File, garmentInfo: WardrobeItem) => {
     if (!displayImageUrl || isLoading) return;
 
     const nextLayer = outfitHistory[currentOutfitIndex + 1];
-    if (nextLayer && nextLayer.garment?.id === garmentInfo.id) {
+    if (nextLayer && !nextLayer.combined && nextLayer.garment?.id === garmentInfo.id) {
         setCurrentOutfitIndex(prev => prev + 1);
         setCurrentPoseIndex(0);
         return;
     }
 
+    // The garment picked for replacement (if any) goes, along with any garment occupying the same slot.
+    const wornGarments = getWornGarments(activeOutfitLayers);
+    const slotConflictIds = findReplacedGarments(wornGarments, garmentInfo).map(garment => garment.id);
+    const replacedIds = wornGarments
+      .filter(garment => garment.id === replacingGarmentId || slotConflictIds.includes(garment.id))
+      .map(garment => garment.id);
+
     setError(null);
+    setInputNotice(null);
     setIsLoading(true);
-    setLoadingMessage(`Adding ${garmentInfo.name}...`);
-    setLastAction({ type: 'try-on', garmentFile, garmentInfo });
+    setLoadingMessage(replacedIds.length > 0 ? `Swapping in ${garmentInfo.name}...` : `Adding ${garmentInfo.name}...`);
+    const signal = beginGeneration();
 
     try {
+      if (replacedIds.length > 0) {
+        await recomposeOutfit(putOnGarment(wornGarments, garmentInfo, replacedIds), signal, { files: { [garmentInfo.id]: garmentFile } });
+        setReplacingGarmentId(null);
+        addToWardrobe(garmentInfo);
+        markWardrobeItemsUsed([garmentInfo]);
+        return;
+      }
+
       // Pass the current background to ensure it is preserved during try-on
-      const newImageUrl = await generateVirtualTryOnImage(displayImageUrl as string, garmentFile, currentBackground);
-      addRecentCreation(newImageUrl, 'image');
+      const fit = getGarmentFit(garmentInfo, measurements) ?? undefined;
+      const garment = { file: garmentFile, role: getGarmentRole(garmentInfo), fit };
+      const results = await runGeneration(options => generateVirtualTryOnImage(displayImageUrl as string, garment, currentBackground, options), { signal });
+      const [{ imageUrl: newImageUrl, promptVersion, inputChanges = [] }] = results;
+      setLastAction({ type: 'try-on', garmentFile, garmentInfo, styling: [], fit });
+      setInputNotice(describePreprocessingChanges(inputChanges, `The photo of ${garmentInfo.name}`));
+      addRecentCreation(newImageUrl, 'image', promptVersion);
       const currentPoseInstruction = POSE_INSTRUCTIONS[currentPoseIndex];
       
       const newLayer: OutfitLayer = { 
         garment: garmentInfo, 
-        poseImages: { [currentPoseInstruction]: newImageUrl } 
+        poseImages: { [currentPoseInstruction]: newImageUrl },
+        candidates: results.length > 1 ? addCandidates(undefined, currentPoseInstruction, results.map(r => r.imageUrl)) : undefined,
+        fit,
       };
 
       setOutfitHistory(prevHistory => {
@@ -321,32 +681,332 @@ const App: React.FC = () => {
       });
       setCurrentOutfitIndex(prev => prev + 1);
       setCurrentPoseIndex(0);
-      
-      setWardrobe(prev => {
-        if (prev.find(item => item.id === garmentInfo.id)) {
-            return prev;
-        }
-        return [...prev, garmentInfo];
-      });
+      addToWardrobe(garmentInfo);
+      markWardrobeItemsUsed([garmentInfo]);
+    } catch (err: any) {
+      if (!isAbortError(err)) {
+        setError(describeError(err as any, 'Failed to apply garment'));
+      }
+    } finally {
+      endGeneration(signal);
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  }, [displayImageUrl, isLoading, currentPoseIndex, outfitHistory, currentOutfitIndex, activeOutfitLayers, replacingGarmentId, currentBackground, candidateCount, wardrobe, measurements]);
+
+  const handleRemoveGarment = useCallback(async (garment: WardrobeItem) => {
+    if (isLoading) return;
+
+    setError(null);
+    setInputNotice(null);
+    setIsLoading(true);
+    setLoadingMessage(`Removing ${garment.name}...`);
+    const signal = beginGeneration();
+
+    try {
+      await recomposeOutfit(getWornGarments(activeOutfitLayers).filter(worn => worn.id !== garment.id), signal);
+      if (replacingGarmentId === garment.id) {
+        setReplacingGarmentId(null);
+      }
+    } catch (err: any) {
+      if (!isAbortError(err)) {
+        setError(describeError(err as any, 'Failed to remove garment'));
+      }
+    } finally {
+      endGeneration(signal);
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  }, [isLoading, outfitHistory, currentOutfitIndex, activeOutfitLayers, replacingGarmentId, currentPoseIndex, currentBackground, candidateCount, measurements]);
+
+  // Puts several wardrobe items on in one go. Each takes the slot of a worn garment it conflicts
+  // with; the affected part of the outfit is then generated as one combined look.
+  const handleApplyOutfit = useCallback(async (items: WardrobeItem[]) => {
+    if (isLoading || items.length === 0) return;
+
+    setError(null);
+    setInputNotice(null);
+    setIsLoading(true);
+    setLoadingMessage(`Applying ${items.length} garments...`);
+    const signal = beginGeneration();
+
+    try {
+      const garments = items.reduce((outfit, item) => putOnGarment(outfit, item), getWornGarments(activeOutfitLayers));
+      await recomposeOutfit(garments, signal);
+      markWardrobeItemsUsed(items);
+    } catch (err: any) {
+      if (!isAbortError(err)) {
+        setError(describeError(err as any, 'Failed to apply outfit'));
+      }
+    } finally {
+      endGeneration(signal);
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  }, [isLoading, outfitHistory, currentOutfitIndex, activeOutfitLayers, currentPoseIndex, currentBackground, candidateCount, measurements]);
+
+  // Garments are re-applied in the new order from the first position that changed.
+  const handleReorderGarments = useCallback(async (garments: WardrobeItem[]) => {
+    if (isLoading) return;
+
+    setError(null);
+    setInputNotice(null);
+    setIsLoading(true);
+    setLoadingMessage('Reordering outfit...');
+    const signal = beginGeneration();
+
+    try {
+      await recomposeOutfit(garments, signal);
+    } catch (err: any) {
+      if (!isAbortError(err)) {
+        setError(describeError(err as any, 'Failed to reorder outfit'));
+      }
+    } finally {
+      endGeneration(signal);
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  }, [isLoading, outfitHistory, currentOutfitIndex, activeOutfitLayers, currentPoseIndex, currentBackground, candidateCount, measurements]);
+
+  const handleStylingChange = useCallback(async (garment: WardrobeItem, styling: StylingHint[]) => {
+    if (isLoading) return;
+
+    setError(null);
+    setInputNotice(null);
+    setIsLoading(true);
+    setLoadingMessage(`Restyling ${garment.name}...`);
+    const signal = beginGeneration();
+
+    try {
+      await recomposeOutfit(getWornGarments(activeOutfitLayers), signal, { styling: { [garment.id]: styling } });
+    } catch (err: any) {
+      if (!isAbortError(err)) {
+        setError(describeError(err as any, 'Failed to restyle garment'));
+      }
+    } finally {
+      endGeneration(signal);
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  }, [isLoading, outfitHistory, currentOutfitIndex, activeOutfitLayers, currentPoseIndex, currentBackground, candidateCount, measurements]);
+
+  // After a size or the measurements change, regenerates from the first garment whose fit no longer matches its layer.
+  const handleRefitOutfit = useCallback(async () => {
+    if (isLoading) return;
+
+    setError(null);
+    setInputNotice(null);
+    setIsLoading(true);
+    setLoadingMessage('Updating the fit...');
+    const signal = beginGeneration();
+
+    try {
+      await recomposeOutfit(getWornGarments(activeOutfitLayers), signal);
     } catch (err: any) {
-      setError(getFriendlyErrorMessage(err as any, 'Failed to apply garment'));
+      if (!isAbortError(err)) {
+        setError(describeError(err as any, 'Failed to update the fit'));
+      }
     } finally {
+      endGeneration(signal);
       setIsLoading(false);
       setLoadingMessage('');
     }
-  }, [displayImageUrl, isLoading, currentPoseIndex, outfitHistory, currentOutfitIndex, currentBackground]);
+  }, [isLoading, outfitHistory, currentOutfitIndex, activeOutfitLayers, currentPoseIndex, currentBackground, candidateCount, measurements]);
+
+  const handleRestorePreviousOutfit = () => {
+    if (!previousOutfit) return;
+    setOutfitHistory(previousOutfit.outfitHistory);
+    setCurrentOutfitIndex(previousOutfit.currentOutfitIndex);
+    setPreviousOutfit(null);
+    setCurrentPoseIndex(0);
+    setLastAction(null);
+    setIsCandidatePickerOpen(false);
+  };
+
+  // Tags arrive in the background; they are copied onto the wardrobe item and any layer wearing it.
+  const tagWardrobeItem = async (item: WardrobeItem) => {
+    try {
+      const { tags: { name, ...tags }, promptVersion } = await tagGarment(item.url);
+      // Variants keep their "<name> (<variant>)" name, and a name the user gave the item while it was being tagged is kept.
+      const current = wardrobeRef.current.find(candidate => candidate.id === item.id);
+      const keepsName = item.variantOf !== undefined || (current !== undefined && current.name !== item.name);
+      updateWardrobeItemEverywhere(item.id, { ...tags, ...(keepsName ? {} : { name }), tagsVersion: promptVersion });
+    } catch (err) {
+      console.warn(`Could not tag garment "${item.name}"; it keeps its file name.`, err);
+    }
+  };
+
+  // Uploads stored before duplicate detection existed get their hash once, one at a time.
+  const hashStoredUploads = async (items: WardrobeItem[]) => {
+    for (const item of items) {
+      if (item.imageHash || !item.id.startsWith('custom-')) continue;
+      try {
+        updateWardrobeItemEverywhere(item.id, { imageHash: await computeImageHash(item.originalUrl ?? item.url) });
+      } catch (err) {
+        console.warn(`Could not hash garment "${item.name}".`, err);
+      }
+    }
+  };
+
+  // Adds garment files to the upload queue. Files that cannot be garment photos are listed as
+  // failed right away, so the user sees why they were not added.
+  const handleGarmentUpload = (files: File[]) => {
+    const entries = files.map((file, index): GarmentUpload => {
+      const problem = validateGarmentFile(file);
+      return { id: `upload-${Date.now()}-${index}`, fileName: file.name || 'Pasted image', status: problem ? 'failed' : 'queued', message: problem ?? undefined };
+    });
+    entries.forEach((entry, index) => {
+      if (entry.status === 'queued') uploadFilesRef.current.set(entry.id, files[index]);
+    });
+    setUploads(prev => [...prev, ...entries]);
+  };
+
+  const updateUpload = (id: string, changes: Partial<GarmentUpload>) => {
+    setUploads(prev => prev.map(upload => upload.id === id ? { ...upload, ...changes } : upload));
+  };
+
+  // Uploads only add to the wardrobe; trying a garment on is a separate action. They run on their
+  // own abort controller, so a try-on in progress is not interrupted.
+  const processUpload = async (upload: GarmentUpload) => {
+    const file = uploadFilesRef.current.get(upload.id);
+    if (!file) {
+      updateUpload(upload.id, { status: 'failed', message: 'The file is no longer available.' });
+      return;
+    }
+    const controller = new AbortController();
+    uploadAbortRef.current = { uploadId: upload.id, controller };
+    updateUpload(upload.id, { status: 'processing' });
+    // A photo that looks like a wardrobe garment waits for the user's decision, keeping its file.
+    let isAwaitingDecision = false;
+    try {
+      // Checked before isolation, so a re-upload does not cost a generation.
+      const duplicate = upload.allowDuplicate ? undefined : findDuplicateGarment(await hashGarmentFile(file), wardrobe);
+      if (duplicate) {
+        isAwaitingDecision = true;
+        updateUpload(upload.id, { status: 'duplicate', duplicateOfId: duplicate.id });
+        return;
+      }
+      const { item, isolationError } = await prepareWardrobeItem(file, { signal: controller.signal });
+      addToWardrobe(item);
+      tagWardrobeItem(item);
+      updateUpload(upload.id, {
+        status: 'done',
+        itemId: item.id,
+        // The original photo still works for try-on, so the garment is kept either way.
+        message: isolationError ? getFriendlyErrorMessage(isolationError, 'Added without a cutout') : undefined,
+      });
+    } catch (err) {
+      updateUpload(upload.id, { status: 'failed', message: isAbortError(err) ? 'Cancelled.' : getFriendlyErrorMessage(err, 'Could not add the garment') });
+    } finally {
+      if (!isAwaitingDecision) uploadFilesRef.current.delete(upload.id);
+      if (uploadAbortRef.current?.controller === controller) {
+        uploadAbortRef.current = null;
+      }
+    }
+  };
+
+  useEffect(() => {
+    if (uploads.some(upload => upload.status === 'processing')) return;
+    const next = uploads.find(upload => upload.status === 'queued');
+    if (next) processUpload(next);
+  }, [uploads]);
+
+  // Merging a re-upload keeps the garment already in the wardrobe and drops the new photo.
+  const handleMergeUpload = (id: string) => {
+    uploadFilesRef.current.delete(id);
+    setUploads(prev => prev.map(upload => upload.id === id
+      ? { ...upload, status: 'done', itemId: upload.duplicateOfId, message: 'Merged with the garment already in your wardrobe.' }
+      : upload));
+  };
+
+  // Dismissing a file that is still being processed cancels it.
+  const handleDismissUpload = (id: string) => {
+    if (uploadAbortRef.current?.uploadId === id) {
+      uploadAbortRef.current.controller.abort();
+    }
+    uploadFilesRef.current.delete(id);
+    setUploads(prev => prev.filter(upload => upload.id !== id));
+  };
+
+  // Images pasted anywhere outside a text field are uploaded to the wardrobe.
+  useEffect(() => {
+    if (!modelImageUrl) return;
+    const handlePaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, [contenteditable="true"]')) return;
+      const files = Array.from(e.clipboardData?.files ?? []).filter(file => file.type.startsWith('image/'));
+      if (files.length === 0) return;
+      e.preventDefault();
+      handleGarmentUpload(files);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [modelImageUrl]);
+
+  const reviewedItem = reviewedItemId ? wardrobe.find(item => item.id === reviewedItemId) : undefined;
+
+  const handleResolveIsolation = (useCutout: boolean) => {
+    if (!reviewedItem?.isolatedUrl || !reviewedItem.originalUrl) return;
+    const url = useCutout ? reviewedItem.isolatedUrl : reviewedItem.originalUrl;
+    // A crop was drawn on the other image, whose framing and size can differ.
+    const updatedItem = { ...reviewedItem, url, crop: url === reviewedItem.url ? reviewedItem.crop : undefined };
+    setWardrobe(prev => prev.map(item => item.id === updatedItem.id ? updatedItem : item));
+    persistWardrobe(saveWardrobeItem(updatedItem));
+    setReviewedItemId(null);
+  };
+
+  // Variants are tagged afresh: their colors, and for swatches their pattern and material, differ from the original's.
+  const handleCreateVariant = async (item: WardrobeItem, change: GarmentVariantChange, signal: AbortSignal): Promise<WardrobeItem> => {
+    const variant = await createGarmentVariant(item, change, { signal });
+    addToWardrobe(variant);
+    tagWardrobeItem(variant);
+    return variant;
+  };
+
+  const viewsItem = viewsItemId ? wardrobe.find(item => item.id === viewsItemId) : undefined;
+
+  // Reference photos are images, so the whole item is saved again rather than updated in place.
+  const handleGarmentViewChange = (view: GarmentView, url: string | undefined) => {
+    if (!viewsItem) return;
+    const updatedItem = setGarmentViewUrl(viewsItem, view, url);
+    setWardrobe(prev => prev.map(item => item.id === updatedItem.id ? updatedItem : item));
+    setOutfitHistory(prev => prev.map(layer => layer.garment?.id === updatedItem.id ? { ...layer, garment: setGarmentViewUrl(layer.garment, view, url) } : layer));
+    persistWardrobe(saveWardrobeItem(updatedItem));
+  };
+
+  const sizeItem = sizeItemId ? wardrobe.find(item => item.id === sizeItemId) : undefined;
+
+  // The outfit keeps its current fit until the user refits it, since that regenerates the affected layers.
+  const handleSaveSizeChart = (sizeChart: SizeChartEntry[] | undefined, selectedSize: string | undefined) => {
+    if (sizeItemId) updateWardrobeItemEverywhere(sizeItemId, { sizeChart, selectedSize });
+    setSizeItemId(null);
+  };
 
+  const croppedItem = croppedItemId ? wardrobe.find(item => item.id === croppedItemId) : undefined;
+
+  const handleSaveCrop = (crop: ImageCrop | undefined) => {
+    if (croppedItemId) updateWardrobeItemEverywhere(croppedItemId, { crop });
+    setCroppedItemId(null);
+  };
+
+  // Undo and redo step over layers that were combined into a later generation: they have no image to show.
   const handleUndo = () => {
-    if (currentOutfitIndex > 0) {
-      setCurrentOutfitIndex(prevIndex => prevIndex - 1);
+    let index = currentOutfitIndex - 1;
+    while (index > 0 && outfitHistory[index].combined) index--;
+    if (index >= 0) {
+      setCurrentOutfitIndex(index);
       setCurrentPoseIndex(0);
+      setIsCandidatePickerOpen(false);
     }
   };
 
   const handleRedo = () => {
-    if (currentOutfitIndex < outfitHistory.length - 1) {
-      setCurrentOutfitIndex(prevIndex => prevIndex + 1);
+    let index = currentOutfitIndex + 1;
+    while (index < outfitHistory.length - 1 && outfitHistory[index].combined) index++;
+    if (index < outfitHistory.length) {
+      setCurrentOutfitIndex(index);
       setCurrentPoseIndex(0);
+      setIsCandidatePickerOpen(false);
     }
   };
   
@@ -367,14 +1027,17 @@ const App: React.FC = () => {
     setError(null);
     setIsLoading(true);
     setLoadingMessage(`Changing pose...`);
-    setLastAction({ type: 'pose', poseInstruction, baseImage: baseImageForPoseChange });
+    const signal = beginGeneration();
     
     const prevPoseIndex = currentPoseIndex;
     setCurrentPoseIndex(newIndex);
 
     try {
-      const newImageUrl = await generatePoseVariation(baseImageForPoseChange, poseInstruction, currentBackground);
-      addRecentCreation(newImageUrl, 'image');
+      const references = await getPoseReferences(getWornGarments(activeOutfitLayers), POSE_ANGLES[poseInstruction] ?? 'front');
+      const results = await runGeneration(options => generatePoseVariation(baseImageForPoseChange, poseInstruction, currentBackground, references, options), { signal });
+      const [{ imageUrl: newImageUrl, promptVersion }] = results;
+      setLastAction({ type: 'pose', poseInstruction, baseImage: baseImageForPoseChange, references });
+      addRecentCreation(newImageUrl, 'image', promptVersion);
       setOutfitHistory(prevHistory => {
         const newHistory = [...prevHistory];
         const layerToUpdate = newHistory[currentOutfitIndex];
@@ -384,18 +1047,23 @@ const App: React.FC = () => {
             ...layerToUpdate.poseImages,
             [poseInstruction]: newImageUrl,
           },
+          candidates: results.length > 1 ? addCandidates(layerToUpdate.candidates, poseInstruction, results.map(r => r.imageUrl)) : layerToUpdate.candidates,
         };
         newHistory[currentOutfitIndex] = updatedLayer;
         return newHistory;
       });
     } catch (err: any) {
-      setError(getFriendlyErrorMessage(err as any, 'Failed to change pose'));
+      if (!isAbortError(err)) {
+        setError(describeError(err as any, 'Failed to change pose'));
+      }
+      // Roll back the optimistic pose switch, whether the request failed or was cancelled.
       setCurrentPoseIndex(prevPoseIndex);
     } finally {
+      endGeneration(signal);
       setIsLoading(false);
       setLoadingMessage('');
     }
-  }, [currentPoseIndex, outfitHistory, isLoading, currentOutfitIndex, currentBackground]);
+  }, [currentPoseIndex, outfitHistory, isLoading, currentOutfitIndex, activeOutfitLayers, currentBackground, candidateCount]);
 
   const handleImageEdit = useCallback(async (prompt: string) => {
     if (!displayImageUrl || isLoading) return;
@@ -403,11 +1071,13 @@ const App: React.FC = () => {
     setError(null);
     setIsLoading(true);
     setLoadingMessage(`Applying edit: "${prompt}"`);
-    setLastAction({ type: 'edit', prompt, baseImage: displayImageUrl });
+    const signal = beginGeneration();
 
     try {
-        const newImageUrl = await editImageWithPrompt(displayImageUrl as string, prompt);
-        addRecentCreation(newImageUrl, 'image');
+        const results = await runGeneration(options => editImageWithPrompt(displayImageUrl as string, prompt, options), { signal });
+        const [{ imageUrl: newImageUrl, promptVersion }] = results;
+        setLastAction({ type: 'edit', prompt, baseImage: displayImageUrl });
+        addRecentCreation(newImageUrl, 'image', promptVersion);
         
         setOutfitHistory(prevHistory => {
             const currentLayer = prevHistory[currentOutfitIndex];
@@ -416,11 +1086,8 @@ const App: React.FC = () => {
             const currentPoseInstruction = POSE_INSTRUCTIONS[currentPoseIndex];
             
             const newEditedLayer: OutfitLayer = {
-                garment: currentLayer.garment,
-                poseImages: {
-                    ...currentLayer.poseImages,
-                    [currentPoseInstruction]: newImageUrl,
-                },
+                ...editLayer(currentLayer, currentPoseInstruction, newImageUrl),
+                candidates: results.length > 1 ? addCandidates(undefined, currentPoseInstruction, results.map(r => r.imageUrl)) : undefined,
             };
             
             const historyUpToCurrent = prevHistory.slice(0, currentOutfitIndex + 1);
@@ -429,26 +1096,56 @@ const App: React.FC = () => {
         setCurrentOutfitIndex(prev => prev + 1);
 
     } catch (err: any) {
-        setError(getFriendlyErrorMessage(err as any, 'Failed to edit image'));
+        if (!isAbortError(err)) {
+            setError(describeError(err as any, 'Failed to edit image'));
+        }
     } finally {
+        endGeneration(signal);
         setIsLoading(false);
         setLoadingMessage('');
     }
 
-  }, [displayImageUrl, isLoading, currentOutfitIndex, currentPoseIndex]);
+  }, [displayImageUrl, isLoading, currentOutfitIndex, currentPoseIndex, candidateCount]);
+
+  const handleGenerateVideo = useCallback(async (style: OutfitVideoStyle) => {
+    if (!displayImageUrl || isLoading) return;
+
+    setError(null);
+    setIsLoading(true);
+    setLoadingMessage(`Creating ${style} video...`);
+    const signal = beginGeneration();
+
+    try {
+        const { videoUrl, promptVersion } = await generateOutfitVideo(displayImageUrl, style, {
+            signal,
+            onProgress: progress => setLoadingMessage(`Creating ${style} video... ${Math.round(progress * 100)}%`),
+        });
+        addRecentCreation(videoUrl, 'video', promptVersion);
+        setViewingVideoUrl(videoUrl);
+    } catch (err: any) {
+        if (!isAbortError(err)) {
+            setError(describeError(err as any, 'Failed to create video'));
+        }
+    } finally {
+        endGeneration(signal);
+        setIsLoading(false);
+        setLoadingMessage('');
+    }
+  }, [displayImageUrl, isLoading]);
   
   const handleBackgroundChange = useCallback(async (prompt: string) => {
     if (!displayImageUrl || isLoading) return;
-    const fullPrompt = `Change the background to ${prompt}. The subject should be perfectly preserved.`;
 
     setError(null);
     setIsLoading(true);
     setLoadingMessage(`Changing background...`);
-    setLastAction({ type: 'edit', prompt: fullPrompt, baseImage: displayImageUrl });
+    const signal = beginGeneration();
 
     try {
-        const newImageUrl = await editImageWithPrompt(displayImageUrl as string, fullPrompt);
-        addRecentCreation(newImageUrl, 'image');
+        const results = await runGeneration(options => changeBackground(displayImageUrl as string, prompt, options), { signal });
+        const [{ imageUrl: newImageUrl, promptVersion }] = results;
+        setLastAction({ type: 'background', background: prompt, baseImage: displayImageUrl });
+        addRecentCreation(newImageUrl, 'image', promptVersion);
         
         setOutfitHistory(prevHistory => {
             const currentLayer = prevHistory[currentOutfitIndex];
@@ -457,11 +1154,8 @@ const App: React.FC = () => {
             const currentPoseInstruction = POSE_INSTRUCTIONS[currentPoseIndex];
             
             const newEditedLayer: OutfitLayer = {
-                garment: currentLayer.garment,
-                poseImages: {
-                    ...currentLayer.poseImages,
-                    [currentPoseInstruction]: newImageUrl,
-                },
+                ...editLayer(currentLayer, currentPoseInstruction, newImageUrl),
+                candidates: results.length > 1 ? addCandidates(undefined, currentPoseInstruction, results.map(r => r.imageUrl)) : undefined,
             };
             
             const historyUpToCurrent = prevHistory.slice(0, currentOutfitIndex + 1);
@@ -471,13 +1165,16 @@ const App: React.FC = () => {
         setCurrentBackground(prompt);
 
     } catch (err: any) {
-        setError(getFriendlyErrorMessage(err as any, 'Failed to change background'));
+        if (!isAbortError(err)) {
+            setError(describeError(err as any, 'Failed to change background'));
+        }
     } finally {
+        endGeneration(signal);
         setIsLoading(false);
         setLoadingMessage('');
     }
 
-  }, [displayImageUrl, isLoading, currentOutfitIndex, currentPoseIndex]);
+  }, [displayImageUrl, isLoading, currentOutfitIndex, currentPoseIndex, candidateCount]);
 
   const handleRegenerate = useCallback(async () => {
     if (!lastAction || isLoading || currentOutfitIndex === 0) return;
@@ -485,9 +1182,12 @@ const App: React.FC = () => {
     setError(null);
     setIsLoading(true);
     setLoadingMessage('Regenerating...');
+    const signal = beginGeneration();
+    // Regenerating asks for a fresh result, so never serve it from the cache.
+    const options = { signal, bypassCache: true };
 
     try {
-        let newImageUrl: string;
+        let results: GenerationResult[];
         let poseKey = POSE_INSTRUCTIONS[currentPoseIndex];
         
         const previousLayer = outfitHistory[currentOutfitIndex - 1];
@@ -496,37 +1196,54 @@ const App: React.FC = () => {
 
         switch (lastAction.type) {
             case 'try-on':
-                newImageUrl = await generateVirtualTryOnImage(baseImageForTryOn, lastAction.garmentFile, currentBackground);
+                results = await runGeneration(opts => generateVirtualTryOnImage(
+                    baseImageForTryOn,
+                    { file: lastAction.garmentFile, role: getGarmentRole(lastAction.garmentInfo), styling: lastAction.styling, fit: lastAction.fit },
+                    currentBackground,
+                    opts,
+                ), options);
+                break;
+            case 'outfit':
+                results = await runGeneration(opts => applyOutfit(lastAction.baseImage, lastAction.garments, currentBackground, opts), options);
                 break;
             case 'pose':
-                newImageUrl = await generatePoseVariation(lastAction.baseImage, lastAction.poseInstruction, currentBackground);
+                results = await runGeneration(opts => generatePoseVariation(lastAction.baseImage, lastAction.poseInstruction, currentBackground, lastAction.references, opts), options);
                 poseKey = lastAction.poseInstruction;
                 break;
             case 'edit':
-                newImageUrl = await editImageWithPrompt(lastAction.baseImage, lastAction.prompt);
+                results = await runGeneration(opts => editImageWithPrompt(lastAction.baseImage, lastAction.prompt, opts), options);
+                break;
+            case 'background':
+                results = await runGeneration(opts => changeBackground(lastAction.baseImage, lastAction.background, opts), options);
                 break;
             default:
                 throw new Error("Unknown action type for regeneration");
         }
 
-        addRecentCreation(newImageUrl, 'image');
+        const [{ imageUrl: newImageUrl, promptVersion }] = results;
+        addRecentCreation(newImageUrl, 'image', promptVersion);
 
-        // Update the current layer with the regenerated image
+        // Update the current layer with the regenerated image. The result it replaces is kept
+        // as a candidate, so regenerating never loses a previous take.
         setOutfitHistory(prevHistory => {
             const newHistory = [...prevHistory];
             const layerToUpdate = newHistory[currentOutfitIndex];
+            const previousImage = layerToUpdate.poseImages[poseKey];
+            const candidateUrls = [...(previousImage ? [previousImage] : []), ...results.map(r => r.imageUrl)];
             
             const updatedLayer: OutfitLayer = {
                 ...layerToUpdate,
                 poseImages: {
                     ...layerToUpdate.poseImages,
                     [poseKey]: newImageUrl
-                }
+                },
+                candidates: addCandidates(layerToUpdate.candidates, poseKey, candidateUrls),
             };
 
             // For try-on, we want to replace all poses as the base has changed.
-            if (lastAction.type === 'try-on') {
+            if (lastAction.type === 'try-on' || lastAction.type === 'outfit') {
               updatedLayer.poseImages = { [poseKey]: newImageUrl };
+              updatedLayer.candidates = { [poseKey]: updatedLayer.candidates?.[poseKey] ?? [] };
             }
             
             newHistory[currentOutfitIndex] = updatedLayer;
@@ -534,18 +1251,46 @@ const App: React.FC = () => {
         });
 
     } catch (err: any) {
-        setError(getFriendlyErrorMessage(err as any, 'Failed to regenerate'));
+        if (!isAbortError(err)) {
+            setError(describeError(err as any, 'Failed to regenerate'));
+        }
     } finally {
+        endGeneration(signal);
         setIsLoading(false);
         setLoadingMessage('');
     }
 
-  }, [lastAction, isLoading, currentOutfitIndex, outfitHistory, currentPoseIndex, currentBackground]);
+  }, [lastAction, isLoading, currentOutfitIndex, outfitHistory, currentPoseIndex, currentBackground, candidateCount]);
 
   const canUndo = currentOutfitIndex > 0;
   const canRedo = currentOutfitIndex < outfitHistory.length - 1;
   const canRegenerate = currentOutfitIndex > 0 && !!lastAction;
 
+  // The same wardrobe is shown in the sidebar on desktop and in a bottom sheet on mobile.
+  const wardrobePanelProps: React.ComponentProps<typeof WardrobePanel> = {
+    onGarmentSelect: handleGarmentSelect,
+    onGarmentUpload: handleGarmentUpload,
+    onApplyOutfit: handleApplyOutfit,
+    onReviewIsolation: item => setReviewedItemId(item.id),
+    onCropItem: item => setCroppedItemId(item.id),
+    onEditViews: item => setViewsItemId(item.id),
+    onEditSize: item => setSizeItemId(item.id),
+    onCreateVariant: handleCreateVariant,
+    uploads,
+    onDismissUpload: handleDismissUpload,
+    onMergeUpload: handleMergeUpload,
+    onAddDuplicateUpload: id => updateUpload(id, { status: 'queued', allowDuplicate: true }),
+    onClearFinishedUploads: () => setUploads(prev => prev.filter(upload => upload.status !== 'done' && upload.status !== 'failed')),
+    activeGarmentIds,
+    isLoading,
+    wardrobe,
+    collections,
+    onUpdateItem: updateWardrobeItemEverywhere,
+    onDeleteItem: handleDeleteWardrobeItem,
+    onCreateCollection: handleCreateCollection,
+    onDeleteCollection: handleDeleteCollection,
+  };
+
   const viewVariants = {
     initial: { opacity: 0, y: 15 },
     animate: { opacity: 1, y: 0 },
@@ -593,7 +1338,12 @@ const App: React.FC = () => {
                           onBackgroundChange={handleBackgroundChange}
                           onImageEdit={handleImageEdit}
                           isLoading={isLoading}
+                          candidateCount={candidateCount}
+                          onCandidateCountChange={setCandidateCount}
+                          onGenerateVideo={handleGenerateVideo}
                         />
+                         <div className="w-full h-px bg-gray-200 my-6"></div>
+                         <CacheSettings />
                      </div>
                 </div>
 
@@ -605,12 +1355,18 @@ const App: React.FC = () => {
                             onStartOver={handleAttemptStartOver}
                             isLoading={isLoading}
                             loadingMessage={loadingMessage}
+                            onCancel={handleCancelGeneration}
                             onUndo={handleUndo}
                             onRedo={handleRedo}
                             onRegenerate={handleRegenerate}
                             canUndo={canUndo}
                             canRedo={canRedo}
                             canRegenerate={canRegenerate}
+                            candidates={displayCandidates}
+                            isCandidatePickerOpen={isCandidatePickerOpen}
+                            onOpenCandidatePicker={() => setIsCandidatePickerOpen(true)}
+                            onCloseCandidatePicker={() => setIsCandidatePickerOpen(false)}
+                            onSelectCandidate={handleSelectCandidate}
                         />
                      </div>
                 </div>
@@ -619,31 +1375,79 @@ const App: React.FC = () => {
                 <div className="lg:w-1/4 flex-shrink-0 order-3 flex flex-col gap-4">
                      <div className="bg-white/50 backdrop-blur-md rounded-2xl p-6 shadow-sm border border-white/50 flex flex-col gap-8 h-fit">
                         {error && (
-                          <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 rounded-md" role="alert">
-                            <p className="font-bold">Error</p>
-                            <p>{error}</p>
-                          </div>
+                          <ErrorAlert error={error} onDismiss={() => setError(null)} />
+                        )}
+                        {inputNotice && (
+                          <p className="-mt-4 text-xs text-gray-500">
+                            {inputNotice}{' '}
+                            <button onClick={() => setInputNotice(null)} className="font-semibold text-gray-600 hover:underline">Dismiss</button>
+                          </p>
                         )}
                         <OutfitStack 
                           outfitHistory={activeOutfitLayers}
-                          onRemoveLastGarment={handleUndo}
+                          isLoading={isLoading}
+                          onRemoveGarment={handleRemoveGarment}
+                          onReorderGarments={handleReorderGarments}
+                          onStylingChange={handleStylingChange}
+                          replacingGarmentId={replacingGarmentId}
+                          onReplaceGarment={garment => setReplacingGarmentId(garment?.id ?? null)}
+                          recomposition={recomposition}
+                          canRestorePrevious={!!previousOutfit && !isLoading}
+                          onRestorePrevious={handleRestorePreviousOutfit}
+                          onKeepChanges={() => setPreviousOutfit(null)}
+                          measurements={measurements}
+                          onEditMeasurements={() => setIsMeasurementsOpen(true)}
+                          onRefit={handleRefitOutfit}
                         />
                         <RecentCreations 
                             items={recentCreations} 
                             onView={(item) => {
-                                window.open(item.url, '_blank');
+                                if (item.type === 'video') {
+                                    setViewingVideoUrl(item.url);
+                                } else {
+                                    window.open(item.url, '_blank');
+                                }
                             }}
                         />
-                        <WardrobePanel
-                          onGarmentSelect={handleGarmentSelect}
+                        {isMobile ? (
+                          <button
+                            onClick={() => setIsWardrobeSheetOpen(true)}
+                            className="w-full flex items-center justify-center px-4 py-3 bg-gray-800 text-white font-semibold rounded-md hover:bg-gray-700 transition-colors"
+                          >
+                            <ShirtIcon className="w-5 h-5 mr-2" />
+                            Open Wardrobe ({wardrobe.length})
+                          </button>
+                        ) : (
+                          <WardrobePanel {...wardrobePanelProps} />
+                        )}
+                        <ProductSelector
+                          catalog={catalog}
+                          onGarmentSelect={handleCatalogGarmentSelect}
+                          onImport={handleImportCatalog}
+                          onClear={() => setCatalog([])}
                           activeGarmentIds={activeGarmentIds}
                           isLoading={isLoading}
-                          wardrobe={wardrobe}
                         />
                      </div>
                 </div>
             </main>
             
+            {/* Mobile wardrobe: closes once a try-on starts so the result is in view */}
+            <WardrobeSheet isOpen={isMobile && isWardrobeSheetOpen} onClose={() => setIsWardrobeSheetOpen(false)}>
+                <WardrobePanel
+                  {...wardrobePanelProps}
+                  layout="sheet"
+                  onGarmentSelect={(garmentFile, garmentInfo) => {
+                    setIsWardrobeSheetOpen(false);
+                    handleGarmentSelect(garmentFile, garmentInfo);
+                  }}
+                  onApplyOutfit={garments => {
+                    setIsWardrobeSheetOpen(false);
+                    handleApplyOutfit(garments);
+                  }}
+                />
+            </WardrobeSheet>
+
             {/* Start Over Confirmation Modal */}
             <AnimatePresence>
                 {showStartOverModal && (
@@ -725,9 +1529,67 @@ const App: React.FC = () => {
                   {loadingMessage && (
                     <p className="text-lg font-serif text-gray-700 mt-4 text-center px-4">{loadingMessage}</p>
                   )}
+                  <button
+                    onClick={handleCancelGeneration}
+                    className="mt-6 px-6 py-2 text-base font-semibold text-gray-700 bg-white rounded-full border border-gray-300 hover:bg-gray-100 transition-colors"
+                  >
+                    Cancel
+                  </button>
                 </motion.div>
               )}
             </AnimatePresence>
+
+            <AnimatePresence>
+              {reviewedItem?.isolatedUrl && reviewedItem.originalUrl && (
+                <GarmentIsolationReview
+                  item={{ ...reviewedItem, isolatedUrl: reviewedItem.isolatedUrl, originalUrl: reviewedItem.originalUrl }}
+                  onAccept={() => handleResolveIsolation(true)}
+                  onRevert={() => handleResolveIsolation(false)}
+                  onClose={() => setReviewedItemId(null)}
+                />
+              )}
+            </AnimatePresence>
+
+            <AnimatePresence>
+              {croppedItem && (
+                <CropPanel item={croppedItem} onSave={handleSaveCrop} onClose={() => setCroppedItemId(null)} />
+              )}
+            </AnimatePresence>
+
+            <AnimatePresence>
+              {viewsItem && (
+                <GarmentViewsModal item={viewsItem} onChange={handleGarmentViewChange} onClose={() => setViewsItemId(null)} />
+              )}
+            </AnimatePresence>
+
+            <AnimatePresence>
+              {sizeItem && (
+                <SizeChartModal
+                  item={sizeItem}
+                  measurements={measurements}
+                  onSave={handleSaveSizeChart}
+                  onEditMeasurements={() => setIsMeasurementsOpen(true)}
+                  onClose={() => setSizeItemId(null)}
+                />
+              )}
+            </AnimatePresence>
+
+            <AnimatePresence>
+              {isMeasurementsOpen && (
+                <MeasurementsModal
+                  measurements={measurements}
+                  onSave={updated => {
+                    setMeasurements(updated);
+                    setIsMeasurementsOpen(false);
+                  }}
+                  onClose={() => setIsMeasurementsOpen(false)}
+                />
+              )}
+            </AnimatePresence>
+
+            {viewingVideoUrl && (
+              <VideoModal videoUrl={viewingVideoUrl} onClose={() => setViewingVideoUrl(null)} />
+            )}
           </motion.div>
         )}
       </AnimatePresence>
@@ -2,3 +2,112 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { UploadCloudIcon, XIcon } from './icons';
+import Spinner from './Spinner';
+import { loadCatalogFromFile, loadCatalogFromUrl, ParsedCatalog } from '../services/catalog';
+
+interface AddProductModalProps {
+  onImport: (catalog: ParsedCatalog) => void;
+  onClose: () => void;
+}
+
+// Imports a retailer product feed (JSON or CSV) from a file or a URL.
+const AddProductModal: React.FC<AddProductModalProps> = ({ onImport, onClose }) => {
+  const [feedUrl, setFeedUrl] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runImport = async (load: () => Promise<ParsedCatalog>) => {
+    setError(null);
+    setIsImporting(true);
+    try {
+      onImport(await load());
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the catalog.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      runImport(() => loadCatalogFromFile(file));
+      e.target.value = '';
+    }
+  };
+
+  const handleUrlSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (feedUrl.trim()) {
+      runImport(() => loadCatalogFromUrl(feedUrl.trim()));
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.95, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.95, y: 20 }}
+        onClick={(e) => e.stopPropagation()}
+        className="relative bg-white rounded-2xl w-full max-w-md flex flex-col shadow-xl"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 rounded-full text-gray-500 hover:bg-gray-100 hover:text-gray-800"
+          aria-label="Close catalog import"
+        >
+          <XIcon className="w-6 h-6" />
+        </button>
+        <div className="p-6">
+          <h2 className="text-2xl font-serif text-gray-800">Import a catalog</h2>
+          <p className="text-gray-600 mt-2 text-sm">
+            Load a product feed in JSON or CSV. Each product needs an id, a name and an image; category, variants, price and product URL are optional. Products already in the catalog are updated.
+          </p>
+          <label
+            htmlFor="catalog-file-upload"
+            className={`mt-4 flex flex-col items-center justify-center p-6 border-2 border-dashed rounded-lg text-gray-500 transition-colors ${isImporting ? 'cursor-not-allowed bg-gray-100' : 'hover:border-gray-400 hover:text-gray-600 cursor-pointer'}`}
+          >
+            <UploadCloudIcon className="w-6 h-6 mb-1" />
+            <span className="text-sm">Choose a .json or .csv file</span>
+            <input id="catalog-file-upload" type="file" className="hidden" accept=".json,.csv,application/json,text/csv" onChange={handleFileChange} disabled={isImporting} />
+          </label>
+          <form onSubmit={handleUrlSubmit} className="mt-4 flex gap-2">
+            <input
+              value={feedUrl}
+              onChange={e => setFeedUrl(e.target.value)}
+              placeholder="/feeds/catalog.json"
+              className="flex-1 min-w-0 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-gray-800"
+              aria-label="Catalog URL"
+              disabled={isImporting}
+            />
+            <button
+              type="submit"
+              disabled={isImporting || !feedUrl.trim()}
+              className="px-4 py-2 bg-gray-800 text-white text-sm font-semibold rounded-md hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Load
+            </button>
+          </form>
+          <p className="mt-1 text-xs text-gray-500">Feeds on another origin must be served with CORS headers.</p>
+          {isImporting && (
+            <div className="mt-4 flex justify-center"><Spinner /></div>
+          )}
+          {error && <p className="text-red-500 text-sm mt-4">{error}</p>}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default AddProductModal;
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  CacheStats,
+  clearGenerationCache,
+  getGenerationCacheStats,
+  isGenerationCacheEnabled,
+  setGenerationCacheEnabled,
+} from '../services/generationCache';
+import { getFriendlyErrorMessage } from '../lib/utils';
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const CacheSettings: React.FC = () => {
+  const [enabled, setEnabled] = useState(isGenerationCacheEnabled);
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshStats = useCallback(() => {
+    getGenerationCacheStats().then(setStats).catch(() => setStats(null));
+  }, []);
+
+  useEffect(() => {
+    if (enabled) refreshStats();
+  }, [enabled, refreshStats]);
+
+  const handleToggle = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setGenerationCacheEnabled(e.target.checked);
+    setEnabled(e.target.checked);
+  };
+
+  const handleClear = async () => {
+    setError(null);
+    try {
+      await clearGenerationCache();
+    } catch (err) {
+      setError(getFriendlyErrorMessage(err, 'Could not clear the cache'));
+    } finally {
+      refreshStats();
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-bold text-gray-600 uppercase tracking-wider mb-3 px-1">Cache</h3>
+      <label className="flex items-start gap-2 px-1 text-sm text-gray-700 cursor-pointer">
+        <input type="checkbox" checked={enabled} onChange={handleToggle} className="mt-0.5 accent-gray-900" />
+        <span>Reuse results for identical requests instead of generating them again.</span>
+      </label>
+      {enabled && stats && (
+        <div className="flex items-center justify-between mt-3 px-1 text-xs text-gray-500">
+          <span>{stats.entries} results · {formatMegabytes(stats.totalBytes)} of {formatMegabytes(stats.maxBytes)}</span>
+          <button
+            onClick={handleClear}
+            disabled={stats.entries === 0}
+            className="font-semibold text-gray-700 hover:underline disabled:opacity-50 disabled:no-underline"
+          >
+            Clear
+          </button>
+        </div>
+      )}
+      {enabled && error && <p className="mt-2 px-1 text-xs text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default CacheSettings;
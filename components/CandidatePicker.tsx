@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { motion } from 'framer-motion';
+import { CheckCircleIcon, XIcon } from './icons';
+
+interface CandidatePickerProps {
+  candidates: string[];
+  selectedUrl: string | null;
+  onSelect: (url: string) => void;
+  onClose: () => void;
+}
+
+const CandidatePicker: React.FC<CandidatePickerProps> = ({ candidates, selectedUrl, onSelect, onClose }) => {
+  return (
+    <motion.div
+      className="absolute inset-0 bg-white/85 backdrop-blur-md flex flex-col items-center justify-center z-20 rounded-lg p-6"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+    >
+      <button
+        onClick={onClose}
+        className="absolute top-4 right-4 p-1 rounded-full text-gray-500 hover:bg-gray-100 hover:text-gray-800"
+        aria-label="Close candidate picker"
+      >
+        <XIcon className="w-6 h-6" />
+      </button>
+      <h3 className="text-2xl font-serif text-gray-800 mb-1">Choose a result</h3>
+      <p className="text-sm text-gray-600 mb-6">The others stay available for this layer.</p>
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 w-full max-w-2xl overflow-y-auto">
+        {candidates.map((url, index) => {
+          const isSelected = url === selectedUrl;
+          return (
+            <button
+              key={url}
+              onClick={() => onSelect(url)}
+              className={`relative aspect-[2/3] rounded-lg overflow-hidden border-2 transition-all focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-800 ${isSelected ? 'border-gray-900' : 'border-transparent hover:border-gray-400'}`}
+              aria-label={`Use candidate ${index + 1}`}
+            >
+              <img src={url} alt={`Candidate ${index + 1}`} className="w-full h-full object-cover" />
+              {isSelected && (
+                <div className="absolute top-2 right-2 bg-gray-900 rounded-full">
+                  <CheckCircleIcon className="w-6 h-6 text-white" />
+                </div>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </motion.div>
+  );
+};
+
+export default CandidatePicker;
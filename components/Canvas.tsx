@@ -8,18 +8,25 @@ import { RotateCcwIcon, Undo2Icon, Redo2Icon, DownloadIcon, RefreshCwIcon } from
 import Spinner from './Spinner';
 import { AnimatePresence, motion } from 'framer-motion';
 import { downloadMedia } from '../lib/utils';
+import CandidatePicker from './CandidatePicker';
 
 interface CanvasProps {
   displayImageUrl: string | null;
   onStartOver: () => void;
   isLoading: boolean;
   loadingMessage: string;
+  onCancel: () => void;
   onUndo: () => void;
   onRedo: () => void;
   onRegenerate: () => void;
   canUndo: boolean;
   canRedo: boolean;
   canRegenerate: boolean;
+  candidates: string[];
+  isCandidatePickerOpen: boolean;
+  onOpenCandidatePicker: () => void;
+  onCloseCandidatePicker: () => void;
+  onSelectCandidate: (url: string) => void;
 }
 
 const Canvas: React.FC<CanvasProps> = ({ 
@@ -27,12 +34,18 @@ const Canvas: React.FC<CanvasProps> = ({
   onStartOver, 
   isLoading, 
   loadingMessage, 
+  onCancel,
   onUndo,
   onRedo,
   onRegenerate,
   canUndo,
   canRedo,
   canRegenerate,
+  candidates,
+  isCandidatePickerOpen,
+  onOpenCandidatePicker,
+  onCloseCandidatePicker,
+  onSelectCandidate,
 }) => {
 
   const handleDownload = () => {
@@ -106,6 +119,26 @@ const Canvas: React.FC<CanvasProps> = ({
             </div>
         )}
         
+        {candidates.length > 1 && !isCandidatePickerOpen && !isLoading && (
+            <button
+                onClick={onOpenCandidatePicker}
+                className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 bg-white/80 border border-gray-300/80 text-gray-800 font-semibold py-2 px-4 rounded-full backdrop-blur-sm shadow-sm hover:bg-white active:scale-95 transition-all text-sm"
+            >
+                Variants ({candidates.length})
+            </button>
+        )}
+
+        <AnimatePresence>
+          {isCandidatePickerOpen && candidates.length > 1 && !isLoading && (
+              <CandidatePicker
+                  candidates={candidates}
+                  selectedUrl={displayImageUrl}
+                  onSelect={onSelectCandidate}
+                  onClose={onCloseCandidatePicker}
+              />
+          )}
+        </AnimatePresence>
+
         <AnimatePresence>
           {isLoading && (
               <motion.div
@@ -118,6 +151,12 @@ const Canvas: React.FC<CanvasProps> = ({
                   {loadingMessage && (
                       <p className="text-lg font-serif text-gray-700 mt-4 text-center px-4">{loadingMessage}</p>
                   )}
+                  <button
+                      onClick={onCancel}
+                      className="mt-6 px-6 py-2 text-base font-semibold text-gray-700 bg-white rounded-full border border-gray-300 hover:bg-gray-100 active:scale-95 transition-all"
+                  >
+                      Cancel
+                  </button>
               </motion.div>
           )}
         </AnimatePresence>
@@ -2,7 +2,173 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import ReactCrop, { type PercentCrop } from 'react-image-crop';
+import type { ImageCrop, WardrobeItem } from '../types';
+import { RotateCcwIcon, XIcon } from './icons';
+import { drawCroppedImage } from '../lib/utils';
+
+interface CropPanelProps {
+  item: WardrobeItem;
+  // Called with undefined when the garment is left uncropped and unrotated.
+  onSave: (crop: ImageCrop | undefined) => void;
+  onClose: () => void;
+}
+
+// The editor works on a scaled-down copy; the crop is stored in percent, so it applies to the full image.
+const PREVIEW_MAX_DIMENSION = 1024;
+const MAX_STRAIGHTEN_DEGREES = 45;
+
+const FULL_CROP: PercentCrop = { unit: '%', x: 0, y: 0, width: 100, height: 100 };
+
+// Keeps rotations within [-180, 180).
+const normalizeRotation = (degrees: number) => ((degrees + 180) % 360 + 360) % 360 - 180;
+
+const roundPercent = (value: number) => Math.round(value * 100) / 100;
+
+const CropPanel: React.FC<CropPanelProps> = ({ item, onSave, onClose }) => {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [rotation, setRotation] = useState(item.crop?.rotation ?? 0);
+  const [crop, setCrop] = useState<PercentCrop>(item.crop ? { unit: '%', x: item.crop.x, y: item.crop.y, width: item.crop.width, height: item.crop.height } : FULL_CROP);
+
+  // The rotation splits into quarter turns (the buttons) and a fine straightening angle (the slider).
+  const quarterTurns = Math.round(rotation / 90);
+  const straighten = rotation - quarterTurns * 90;
+
+  useEffect(() => {
+    const source = new Image();
+    source.crossOrigin = 'anonymous';
+    source.onload = () => setImage(source);
+    source.onerror = () => setError('Could not load the garment image.');
+    source.src = item.url;
+  }, [item.url]);
+
+  // Crops are drawn on the rotated image, so the editor shows it rotated.
+  useEffect(() => {
+    if (!image) return;
+    try {
+      setPreviewUrl(drawCroppedImage(image, { rotation, ...FULL_CROP }, PREVIEW_MAX_DIMENSION).toDataURL('image/png'));
+    } catch (err) {
+      setError('Could not prepare the garment image for cropping.');
+      console.error('Failed to draw the crop preview.', err);
+    }
+  }, [image, rotation]);
+
+  const rotateQuarter = (direction: 1 | -1) => {
+    setRotation(normalizeRotation(rotation + direction * 90));
+    // The crop rectangle no longer frames the same part of the garment after a quarter turn.
+    setCrop(FULL_CROP);
+  };
+
+  const handleReset = () => {
+    setRotation(0);
+    setCrop(FULL_CROP);
+  };
+
+  const handleSave = () => {
+    const saved: ImageCrop = {
+      rotation,
+      x: roundPercent(crop.x),
+      y: roundPercent(crop.y),
+      width: roundPercent(crop.width),
+      height: roundPercent(crop.height),
+    };
+    const isIdentity = saved.rotation === 0 && saved.x <= 0 && saved.y <= 0 && saved.width >= 100 && saved.height >= 100;
+    onSave(isIdentity ? undefined : saved);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.95, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.95, y: 20 }}
+        className="relative bg-white rounded-2xl w-full max-w-lg flex flex-col shadow-xl max-h-full"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 rounded-full text-gray-500 hover:bg-gray-100 hover:text-gray-800"
+          aria-label="Close crop editor"
+        >
+          <XIcon className="w-6 h-6" />
+        </button>
+        <div className="p-6 text-center">
+          <h2 className="text-2xl font-serif text-gray-800">Crop & straighten</h2>
+          <p className="text-gray-600 mt-2 text-sm">Frame <span className="font-semibold">{item.name}</span> so only the garment is tried on. The original photo is kept.</p>
+        </div>
+        <div className="px-6 pb-4 flex justify-center min-h-0">
+          {error ? (
+            <p className="text-red-500 text-sm">{error}</p>
+          ) : previewUrl ? (
+            <ReactCrop crop={crop} onChange={(_, percentCrop) => setCrop(percentCrop)} keepSelection ruleOfThirds>
+              <img src={previewUrl} alt={item.name} className="max-h-[50vh] w-auto bg-gray-100" />
+            </ReactCrop>
+          ) : (
+            <div className="w-full max-w-xs aspect-square rounded-lg bg-gray-100 animate-pulse" />
+          )}
+        </div>
+        <div className="px-6 pb-4 space-y-2">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => rotateQuarter(-1)}
+              disabled={!previewUrl}
+              className="p-1.5 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+              aria-label="Rotate left"
+              title="Rotate left"
+            >
+              <RotateCcwIcon className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => rotateQuarter(1)}
+              disabled={!previewUrl}
+              className="p-1.5 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+              aria-label="Rotate right"
+              title="Rotate right"
+            >
+              <RotateCcwIcon className="w-4 h-4 -scale-x-100" />
+            </button>
+            <label className="flex-1 flex items-center gap-2 text-sm text-gray-600">
+              <span className="text-xs font-bold text-gray-500 uppercase tracking-wider">Straighten</span>
+              <input
+                type="range"
+                min={-MAX_STRAIGHTEN_DEGREES}
+                max={MAX_STRAIGHTEN_DEGREES}
+                step={0.5}
+                value={straighten}
+                onChange={e => setRotation(normalizeRotation(quarterTurns * 90 + Number(e.target.value)))}
+                disabled={!previewUrl}
+                className="flex-1 accent-gray-800"
+              />
+              <span className="w-12 text-right tabular-nums">{straighten.toFixed(1)}°</span>
+            </label>
+          </div>
+        </div>
+        <div className="flex flex-col sm:flex-row-reverse gap-2 bg-gray-50 p-4 rounded-b-2xl">
+          <button
+            onClick={handleSave}
+            disabled={!previewUrl}
+            className="w-full sm:w-auto flex-1 inline-flex justify-center items-center px-4 py-2 bg-gray-800 text-white font-semibold rounded-md hover:bg-gray-700 transition-colors disabled:opacity-50"
+          >
+            Save
+          </button>
+          <button
+            onClick={handleReset}
+            className="w-full sm:w-auto flex-1 inline-flex justify-center px-4 py-2 bg-white text-gray-700 font-semibold rounded-md border border-gray-300 hover:bg-gray-100 transition-colors"
+          >
+            Reset
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
 
-// This component is not used in the current application flow.
-const CropPanel = () => null;
 export default CropPanel;
@@ -4,6 +4,8 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useState } from 'react';
+import { OutfitVideoStyle, STUDIO_BACKGROUND } from '../services/prompts';
+import { FilmIcon } from './icons';
 
 interface EditorControlsProps {
   onSelectPose: (index: number) => void;
@@ -12,17 +14,27 @@ interface EditorControlsProps {
   onBackgroundChange: (prompt: string) => void;
   onImageEdit: (prompt: string) => void;
   isLoading: boolean;
+  candidateCount: number;
+  onCandidateCountChange: (count: number) => void;
+  onGenerateVideo: (style: OutfitVideoStyle) => void;
 }
 
 const BACKGROUND_OPTIONS = [
   { name: 'Outdoor', prompt: 'a vibrant, realistic outdoor setting with natural light' },
   { name: 'Indoor', prompt: 'a modern, well-lit indoor room with stylish decor' },
-  { name: 'Studio', prompt: 'an elegant, high-end studio setting featuring a white fluted column, soft sheer white fabric drapes, and a floral arrangement with white and peach flowers on a pedestal, with a clean white floor' },
+  { name: 'Studio', prompt: STUDIO_BACKGROUND },
   { name: 'Aesthetic', prompt: 'an aesthetic, visually pleasing background with soft colors and textures' },
   { name: 'Urban', prompt: 'a stylish urban city street background, slightly blurred' },
   { name: 'Nature', prompt: 'a beautiful natural landscape, like a serene forest or a field of flowers' },
 ];
 
+const CANDIDATE_COUNTS = [1, 2, 3, 4];
+
+const VIDEO_OPTIONS: { style: OutfitVideoStyle; name: string }[] = [
+  { style: 'runway', name: 'Runway' },
+  { style: 'turnaround', name: 'Turnaround' },
+];
+
 const EditorControls: React.FC<EditorControlsProps> = ({ 
   onSelectPose,
   poseInstructions,
@@ -30,6 +42,9 @@ const EditorControls: React.FC<EditorControlsProps> = ({
   onBackgroundChange,
   onImageEdit,
   isLoading,
+  candidateCount,
+  onCandidateCountChange,
+  onGenerateVideo,
 }) => {
   const [inlineEditPrompt, setInlineEditPrompt] = useState('');
 
@@ -87,6 +102,52 @@ const EditorControls: React.FC<EditorControlsProps> = ({
         
         <div className="w-full h-px bg-gray-200"></div>
 
+        {/* Candidates */}
+        <div>
+            <h3 className="text-sm font-bold text-gray-600 uppercase tracking-wider mb-3 px-1">Results per Generation</h3>
+            <div className="flex items-center bg-white border border-gray-300/80 rounded-lg p-1">
+                {CANDIDATE_COUNTS.map(count => (
+                    <button
+                        key={count}
+                        onClick={() => onCandidateCountChange(count)}
+                        disabled={isLoading}
+                        className={`flex-1 py-1.5 text-sm font-semibold rounded-md transition-colors disabled:opacity-50 ${
+                          count === candidateCount ? 'bg-gray-900 text-white' : 'text-gray-700 hover:bg-gray-200/60'
+                        }`}
+                        aria-pressed={count === candidateCount}
+                    >
+                        {count}
+                    </button>
+                ))}
+            </div>
+            {candidateCount > 1 && (
+                <p className="text-xs text-gray-500 mt-2 px-1">Generates {candidateCount} candidates in parallel so you can pick the best one.</p>
+            )}
+        </div>
+
+        <div className="w-full h-px bg-gray-200"></div>
+
+        {/* Outfit Video */}
+        <div>
+            <h3 className="text-sm font-bold text-gray-600 uppercase tracking-wider mb-3 px-1">Outfit Video</h3>
+            <div className="grid grid-cols-2 gap-2">
+                {VIDEO_OPTIONS.map(option => (
+                    <button
+                        key={option.style}
+                        onClick={() => onGenerateVideo(option.style)}
+                        disabled={isLoading}
+                        className="flex items-center justify-center gap-2 px-3 py-2 text-sm font-semibold rounded-lg transition-colors bg-white text-gray-700 hover:bg-gray-200/60 border border-gray-300/80 disabled:opacity-50"
+                    >
+                        <FilmIcon className="w-4 h-4" />
+                        {option.name}
+                    </button>
+                ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-2 px-1">Animates the current look into a short clip. This can take a minute or two.</p>
+        </div>
+
+        <div className="w-full h-px bg-gray-200"></div>
+
         {/* Quick Edit */}
         <div>
            <h3 className="text-sm font-bold text-gray-600 uppercase tracking-wider mb-3 px-1">Quick Edit</h3>
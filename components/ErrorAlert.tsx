@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import type { FriendlyError } from '../lib/utils';
+import { AlertTriangleIcon, XIcon } from './icons';
+
+interface ErrorAlertProps {
+  error: FriendlyError;
+  onDismiss?: () => void;
+}
+
+// Transient problems the user can simply wait out are shown in amber; everything else in red.
+const TONE_CLASSES: Record<FriendlyError['kind'], string> = {
+  'rate-limited': 'bg-amber-50 border-amber-500 text-amber-800',
+  'network': 'bg-amber-50 border-amber-500 text-amber-800',
+  'safety-blocked': 'bg-red-100 border-red-500 text-red-700',
+  'no-image-returned': 'bg-red-100 border-red-500 text-red-700',
+  'invalid-input': 'bg-red-100 border-red-500 text-red-700',
+  'aborted': 'bg-gray-100 border-gray-400 text-gray-700',
+  'unknown': 'bg-red-100 border-red-500 text-red-700',
+};
+
+const ErrorAlert: React.FC<ErrorAlertProps> = ({ error, onDismiss }) => {
+  return (
+    <div className={`relative border-l-4 p-4 rounded-md ${TONE_CLASSES[error.kind]}`} role="alert">
+      <div className="flex items-start gap-3 pr-6">
+        <AlertTriangleIcon className="w-5 h-5 flex-shrink-0 mt-0.5" />
+        <div>
+          <p className="font-bold">{error.title}</p>
+          <p>{error.message}</p>
+          {error.remediation && (
+            <p className="text-sm mt-2 font-semibold">{error.remediation}</p>
+          )}
+        </div>
+      </div>
+      {onDismiss && (
+        <button
+          onClick={onDismiss}
+          className="absolute top-2 right-2 p-1 rounded-full opacity-70 hover:opacity-100 transition-opacity"
+          aria-label="Dismiss error"
+        >
+          <XIcon className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ErrorAlert;
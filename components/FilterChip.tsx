@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { XIcon } from './icons';
+import { cn } from '../lib/utils';
+
+interface FilterChipProps {
+  label: string;
+  isActive: boolean;
+  onClick: () => void;
+  onDelete?: () => void;
+  deleteLabel?: string;
+}
+
+// A toggleable filter chip, optionally with a delete button (e.g. for a user collection).
+const FilterChip: React.FC<FilterChipProps> = ({ label, isActive, onClick, onDelete, deleteLabel }) => (
+  <span
+    className={cn(
+      'inline-flex items-center text-xs font-semibold rounded-full border transition-colors',
+      isActive ? 'bg-gray-800 text-white border-gray-800' : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-100'
+    )}
+  >
+    <button type="button" onClick={onClick} className="px-2.5 py-1 capitalize" aria-pressed={isActive}>
+      {label}
+    </button>
+    {onDelete && (
+      <button type="button" onClick={onDelete} className="pr-2 -ml-1 opacity-60 hover:opacity-100" aria-label={deleteLabel} title={deleteLabel}>
+        <XIcon className="w-3 h-3" />
+      </button>
+    )}
+  </span>
+);
+
+export default FilterChip;
@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import type { WardrobeItem } from '../types';
+import { drawCroppedImage } from '../lib/utils';
+
+interface GarmentImageProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src' | 'alt'> {
+  item: WardrobeItem;
+}
+
+// Thumbnails only need to fill a wardrobe tile.
+const THUMBNAIL_MAX_DIMENSION = 320;
+
+// Shows a garment as it is tried on, with its crop applied. The uncropped image shows while the crop is drawn.
+const GarmentImage: React.FC<GarmentImageProps> = ({ item, ...props }) => {
+  const [croppedUrl, setCroppedUrl] = useState<string | null>(null);
+  const { url, crop } = item;
+
+  useEffect(() => {
+    setCroppedUrl(null);
+    if (!crop) return;
+    let isCurrent = true;
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => {
+      if (!isCurrent) return;
+      try {
+        setCroppedUrl(drawCroppedImage(image, crop, THUMBNAIL_MAX_DIMENSION).toDataURL('image/png'));
+      } catch (err) {
+        console.error(`Failed to draw the crop of ${url}.`, err);
+      }
+    };
+    image.src = url;
+    return () => {
+      isCurrent = false;
+    };
+  }, [url, crop]);
+
+  return <img src={croppedUrl ?? url} alt={item.name} {...props} />;
+};
+
+export default GarmentImage;
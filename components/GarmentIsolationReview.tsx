@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { motion } from 'framer-motion';
+import { XIcon } from './icons';
+import { Compare } from './ui/compare';
+import type { WardrobeItem } from '../types';
+
+interface GarmentIsolationReviewProps {
+  item: WardrobeItem & { originalUrl: string; isolatedUrl: string };
+  onAccept: () => void;
+  onRevert: () => void;
+  onClose: () => void;
+}
+
+const GarmentIsolationReview: React.FC<GarmentIsolationReviewProps> = ({ item, onAccept, onRevert, onClose }) => {
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.95, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.95, y: 20 }}
+        className="relative bg-white rounded-2xl w-full max-w-lg flex flex-col shadow-xl"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 rounded-full text-gray-500 hover:bg-gray-100 hover:text-gray-800"
+          aria-label="Close garment review"
+        >
+          <XIcon className="w-6 h-6" />
+        </button>
+        <div className="p-6 text-center">
+          <h2 className="text-2xl font-serif text-gray-800">Review your garment</h2>
+          <p className="text-gray-600 mt-2 text-sm">We isolated <span className="font-semibold">{item.name}</span> from its photo. Drag the slider to compare the original with the cutout.</p>
+        </div>
+        <div className="px-6 pb-4 flex justify-center">
+          <Compare
+            firstImage={item.originalUrl}
+            secondImage={item.isolatedUrl}
+            slideMode="drag"
+            firstImageClassName="object-contain bg-gray-100"
+            secondImageClassname="object-contain bg-white"
+            className="w-full max-w-xs aspect-square rounded-lg border border-gray-200"
+          />
+        </div>
+        <div className="flex flex-col sm:flex-row-reverse gap-2 bg-gray-50 p-4 rounded-b-2xl">
+          <button
+            onClick={onAccept}
+            className="w-full sm:w-auto flex-1 inline-flex justify-center items-center px-4 py-2 bg-gray-800 text-white font-semibold rounded-md hover:bg-gray-700 transition-colors"
+          >
+            Use Cutout
+          </button>
+          <button
+            onClick={onRevert}
+            className="w-full sm:w-auto flex-1 inline-flex justify-center px-4 py-2 bg-white text-gray-700 font-semibold rounded-md border border-gray-300 hover:bg-gray-100 transition-colors"
+          >
+            Use Original
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default GarmentIsolationReview;
@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import type { WardrobeItem } from '../types';
+import { RefreshCwIcon, UploadCloudIcon, XIcon } from './icons';
+import FilterChip from './FilterChip';
+import { getFriendlyErrorMessage, isAbortError } from '../lib/utils';
+import type { GarmentVariantChange } from '../services/geminiService';
+import { SUGGESTED_VARIANT_COLORS } from '../services/garmentVariants';
+import { GARMENT_FILE_ACCEPT, validateGarmentFile } from '../services/garmentUpload';
+import GarmentImage from './GarmentImage';
+
+interface GarmentVariantModalProps {
+  item: WardrobeItem;
+  // Resolves once the variant is in the wardrobe; the signal aborts when the modal is closed.
+  onGenerate: (change: GarmentVariantChange, signal: AbortSignal) => Promise<void>;
+  onClose: () => void;
+}
+
+const GarmentVariantModal: React.FC<GarmentVariantModalProps> = ({ item, onGenerate, onClose }) => {
+  const [color, setColor] = useState('');
+  const [swatch, setSwatch] = useState<{ file: File; url: string } | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Closing the modal cancels a generation in progress.
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => () => {
+    if (swatch) URL.revokeObjectURL(swatch.url);
+  }, [swatch]);
+
+  const handleSwatchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const problem = validateGarmentFile(file);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setError(null);
+    setColor('');
+    setSwatch({ file, url: URL.createObjectURL(file) });
+  };
+
+  const change: GarmentVariantChange | null = swatch ? { swatch: swatch.file } : color.trim() ? { color: color.trim() } : null;
+
+  const handleGenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!change || isGenerating) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsGenerating(true);
+    setError(null);
+    try {
+      await onGenerate(change, controller.signal);
+      onClose();
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setError(getFriendlyErrorMessage(err, 'Could not create the variant'));
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+    >
+      <motion.form
+        onSubmit={handleGenerate}
+        initial={{ scale: 0.95, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.95, y: 20 }}
+        className="relative bg-white rounded-2xl w-full max-w-md flex flex-col shadow-xl"
+      >
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 rounded-full text-gray-500 hover:bg-gray-100 hover:text-gray-800"
+          aria-label="Close variant generator"
+        >
+          <XIcon className="w-6 h-6" />
+        </button>
+        <div className="p-6 text-center">
+          <h2 className="text-2xl font-serif text-gray-800">Create a variant</h2>
+          <p className="text-gray-600 mt-2 text-sm">See <span className="font-semibold">{item.name}</span> in another color, or in the fabric of a swatch photo. It is added to the wardrobe next to the original.</p>
+        </div>
+        <div className="px-6 pb-4 flex gap-4">
+          <GarmentImage item={item} className="flex-shrink-0 w-24 h-24 object-cover rounded-lg border border-gray-200" />
+          <div className="flex-1 min-w-0 space-y-2">
+            <input
+              value={color}
+              onChange={e => {
+                setColor(e.target.value);
+                setSwatch(null);
+              }}
+              placeholder="Color, e.g. navy"
+              disabled={isGenerating}
+              className="w-full px-3 py-1.5 text-sm bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-gray-800"
+              aria-label="Target color"
+            />
+            <div className="flex flex-wrap gap-1.5">
+              {SUGGESTED_VARIANT_COLORS.map(suggestion => (
+                <FilterChip
+                  key={suggestion}
+                  label={suggestion}
+                  isActive={!swatch && color.trim().toLowerCase() === suggestion.toLowerCase()}
+                  onClick={() => {
+                    setColor(suggestion);
+                    setSwatch(null);
+                  }}
+                />
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-sm font-semibold text-gray-600 hover:text-gray-800 cursor-pointer">
+              {swatch ? (
+                <img src={swatch.url} alt="Fabric swatch" className="w-8 h-8 object-cover rounded-md border border-gray-300" />
+              ) : (
+                <UploadCloudIcon className="w-5 h-5" />
+              )}
+              <span className="hover:underline">{swatch ? 'Change swatch' : 'Or use a fabric or pattern swatch'}</span>
+              <input type="file" className="hidden" accept={GARMENT_FILE_ACCEPT} onChange={handleSwatchChange} disabled={isGenerating} />
+            </label>
+          </div>
+        </div>
+        {error && <p className="px-6 pb-4 text-red-500 text-sm">{error}</p>}
+        <div className="flex flex-col sm:flex-row-reverse gap-2 bg-gray-50 p-4 rounded-b-2xl">
+          <button
+            type="submit"
+            disabled={!change || isGenerating}
+            className="w-full sm:w-auto flex-1 inline-flex justify-center items-center gap-2 px-4 py-2 bg-gray-800 text-white font-semibold rounded-md hover:bg-gray-700 transition-colors disabled:opacity-50"
+          >
+            {isGenerating && <RefreshCwIcon className="w-4 h-4 animate-spin" />}
+            {isGenerating ? 'Creating...' : 'Create Variant'}
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="w-full sm:w-auto flex-1 inline-flex justify-center px-4 py-2 bg-white text-gray-700 font-semibold rounded-md border border-gray-300 hover:bg-gray-100 transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </motion.form>
+    </motion.div>
+  );
+};
+
+export default GarmentVariantModal;
@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import type { GarmentView, WardrobeItem } from '../types';
+import { Trash2Icon, UploadCloudIcon, XIcon } from './icons';
+import GarmentImage from './GarmentImage';
+import { fileToDataUrl, getFriendlyErrorMessage } from '../lib/utils';
+import { GARMENT_FILE_ACCEPT, validateGarmentFile } from '../services/garmentUpload';
+import { getPreprocessedImage } from '../services/imagePreprocessing';
+import { GARMENT_VIEW_LABELS, GARMENT_VIEWS, getGarmentViewUrl } from '../services/garmentViews';
+
+interface GarmentViewsModalProps {
+  item: WardrobeItem;
+  // Sets or, with undefined, removes one of the item's reference views.
+  onChange: (view: GarmentView, url: string | undefined) => void;
+  onClose: () => void;
+}
+
+const GarmentViewsModal: React.FC<GarmentViewsModalProps> = ({ item, onChange, onClose }) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (view: GarmentView, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const problem = validateGarmentFile(file);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setError(null);
+    try {
+      const { file: prepared } = await getPreprocessedImage(file);
+      onChange(view, await fileToDataUrl(prepared));
+    } catch (err) {
+      setError(getFriendlyErrorMessage(err, 'Could not read the photo'));
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.95, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.95, y: 20 }}
+        className="relative bg-white rounded-2xl w-full max-w-lg flex flex-col shadow-xl"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 rounded-full text-gray-500 hover:bg-gray-100 hover:text-gray-800"
+          aria-label="Close reference views"
+        >
+          <XIcon className="w-6 h-6" />
+        </button>
+        <div className="p-6 text-center">
+          <h2 className="text-2xl font-serif text-gray-800">Reference views</h2>
+          <p className="text-gray-600 mt-2 text-sm">Add photos of <span className="font-semibold">{item.name}</span> from behind and up close. Side and back poses use them instead of guessing what the garment looks like there.</p>
+        </div>
+        <div className="px-6 pb-6 grid grid-cols-3 gap-3">
+          <div>
+            <GarmentImage item={item} className="w-full aspect-square object-cover rounded-lg border border-gray-200" />
+            <p className="mt-1 text-xs font-bold text-gray-500 uppercase tracking-wider text-center">Front</p>
+          </div>
+          {GARMENT_VIEWS.map(view => {
+            const url = getGarmentViewUrl(item, view);
+            const inputId = `garment-view-${item.id}-${view}`;
+            return (
+              <div key={view}>
+                {url ? (
+                  <div className="relative aspect-square group">
+                    <label htmlFor={inputId} className="block w-full h-full cursor-pointer" title={`Replace the ${GARMENT_VIEW_LABELS[view].toLowerCase()} photo`}>
+                      <img src={url} alt={`${item.name}, ${GARMENT_VIEW_LABELS[view].toLowerCase()}`} className="w-full h-full object-cover rounded-lg border border-gray-200" />
+                    </label>
+                    <button
+                      onClick={() => onChange(view, undefined)}
+                      className="absolute top-1 right-1 p-1 bg-white/80 rounded-full text-gray-700 hover:bg-white opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                      aria-label={`Remove the ${GARMENT_VIEW_LABELS[view].toLowerCase()} photo`}
+                    >
+                      <Trash2Icon className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                ) : (
+                  <label
+                    htmlFor={inputId}
+                    className="aspect-square border-2 border-dashed rounded-lg flex flex-col items-center justify-center text-gray-500 transition-colors hover:border-gray-400 hover:text-gray-600 cursor-pointer"
+                  >
+                    <UploadCloudIcon className="w-6 h-6 mb-1" />
+                    <span className="text-xs text-center">Add photo</span>
+                  </label>
+                )}
+                <input id={inputId} type="file" className="hidden" accept={GARMENT_FILE_ACCEPT} onChange={e => handleFileChange(view, e)} />
+                <p className="mt-1 text-xs font-bold text-gray-500 uppercase tracking-wider text-center">{GARMENT_VIEW_LABELS[view]}</p>
+              </div>
+            );
+          })}
+        </div>
+        {error && <p className="px-6 pb-6 -mt-2 text-red-500 text-sm">{error}</p>}
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default GarmentViewsModal;
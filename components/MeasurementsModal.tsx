@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import type { BodyMeasurement, BodyMeasurements } from '../types';
+import { XIcon } from './icons';
+import { BODY_MEASUREMENT_LABELS, BODY_MEASUREMENTS } from '../services/garmentFit';
+
+interface MeasurementsModalProps {
+  measurements: BodyMeasurements;
+  onSave: (measurements: BodyMeasurements) => void;
+  onClose: () => void;
+}
+
+const MEASUREMENT_HINTS: Record<BodyMeasurement, string> = {
+  height: 'Standing, without shoes',
+  chest: 'Around the fullest part',
+  waist: 'Around the natural waistline',
+  hips: 'Around the fullest part',
+  inseam: 'Crotch to ankle',
+};
+
+const MeasurementsModal: React.FC<MeasurementsModalProps> = ({ measurements, onSave, onClose }) => {
+  // Kept as text while editing so a field can be emptied.
+  const [values, setValues] = useState<Record<BodyMeasurement, string>>(() => Object.fromEntries(
+    BODY_MEASUREMENTS.map(measurement => [measurement, measurements[measurement]?.toString() ?? ''])
+  ) as Record<BodyMeasurement, string>);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(Object.fromEntries(BODY_MEASUREMENTS.flatMap(measurement => {
+      const value = parseFloat(values[measurement]);
+      return value > 0 ? [[measurement, value]] : [];
+    })));
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+    >
+      <motion.form
+        onSubmit={handleSubmit}
+        initial={{ scale: 0.95, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.95, y: 20 }}
+        className="relative bg-white rounded-2xl w-full max-w-md flex flex-col shadow-xl"
+      >
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 rounded-full text-gray-500 hover:bg-gray-100 hover:text-gray-800"
+          aria-label="Close measurements"
+        >
+          <XIcon className="w-6 h-6" />
+        </button>
+        <div className="p-6 text-center">
+          <h2 className="text-2xl font-serif text-gray-800">Your measurements</h2>
+          <p className="text-gray-600 mt-2 text-sm">Compared with a garment's size chart to show how your chosen size fits. They stay on this device.</p>
+        </div>
+        <div className="px-6 pb-6 space-y-2">
+          {BODY_MEASUREMENTS.map(measurement => (
+            <label key={measurement} className="flex items-center gap-3">
+              <span className="flex-1 min-w-0">
+                <span className="block text-sm font-semibold text-gray-700">{BODY_MEASUREMENT_LABELS[measurement]}</span>
+                <span className="block text-xs text-gray-500">{MEASUREMENT_HINTS[measurement]}</span>
+              </span>
+              <input
+                type="number"
+                inputMode="decimal"
+                min={0}
+                step="any"
+                value={values[measurement]}
+                onChange={e => setValues(prev => ({ ...prev, [measurement]: e.target.value }))}
+                className="w-24 px-3 py-1.5 text-sm text-right bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-gray-800"
+              />
+              <span className="w-6 text-sm text-gray-500">cm</span>
+            </label>
+          ))}
+        </div>
+        <div className="flex flex-col sm:flex-row-reverse gap-2 bg-gray-50 p-4 rounded-b-2xl">
+          <button
+            type="submit"
+            className="w-full sm:w-auto flex-1 inline-flex justify-center px-4 py-2 bg-gray-800 text-white font-semibold rounded-md hover:bg-gray-700 transition-colors"
+          >
+            Save
+          </button>
+          <button
+            type="button"
+            onClick={() => onSave({})}
+            className="w-full sm:w-auto flex-1 inline-flex justify-center px-4 py-2 bg-white text-gray-700 font-semibold rounded-md border border-gray-300 hover:bg-gray-100 transition-colors"
+          >
+            Clear
+          </button>
+        </div>
+      </motion.form>
+    </motion.div>
+  );
+};
+
+export default MeasurementsModal;
@@ -2,3 +2,80 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React, { useState } from 'react';
+import type { CatalogProduct, CatalogVariant } from '../types';
+import { CheckCircleIcon, ExternalLinkIcon } from './icons';
+import { cn } from '../lib/utils';
+import { formatPrice } from '../services/catalog';
+import { GARMENT_CATEGORY_LABELS } from '../services/garmentTagging';
+
+interface ObjectCardProps {
+  product: CatalogProduct;
+  // Called with the variant shown on the card, if the product has variants.
+  onTryOn: (product: CatalogProduct, variant?: CatalogVariant) => void;
+  // Whether the given variant (or the product, when it has none) is part of the current outfit.
+  isActive: (variant?: CatalogVariant) => boolean;
+  isLoading: boolean;
+}
+
+// A catalog product, tried on by clicking it. Variants are picked with the chips on the card.
+const ObjectCard: React.FC<ObjectCardProps> = ({ product, onTryOn, isActive, isLoading }) => {
+  const [variantId, setVariantId] = useState(product.variants[0]?.id);
+  const variant = product.variants.find(v => v.id === variantId) ?? product.variants[0];
+  const price = variant?.price ?? product.price;
+  const active = isActive(variant);
+
+  return (
+    <div className="relative aspect-square group">
+      <button
+        onClick={() => onTryOn(product, variant)}
+        disabled={isLoading || active}
+        className="relative w-full h-full border rounded-lg overflow-hidden bg-white transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-800 disabled:opacity-60 disabled:cursor-not-allowed"
+        aria-label={`Try on ${product.name}${variant ? `, ${variant.name}` : ''}`}
+        title={product.category ? `${product.name}\n${GARMENT_CATEGORY_LABELS[product.category]}` : product.name}
+      >
+        <img src={variant?.imageUrl ?? product.imageUrl} alt={product.name} className="w-full h-full object-cover" />
+        <div className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/70 to-transparent pt-6 pb-1.5 px-2 text-left">
+          <p className="text-white text-xs font-bold truncate">{product.name}</p>
+          {price && <p className="text-white/90 text-xs">{formatPrice(price)}</p>}
+        </div>
+        {active && (
+          <div className="absolute inset-0 bg-gray-900/70 flex items-center justify-center">
+            <CheckCircleIcon className="w-8 h-8 text-white" />
+          </div>
+        )}
+      </button>
+      {product.variants.length > 1 && (
+        <div className="absolute top-1 left-1 right-7 flex flex-wrap gap-1">
+          {product.variants.map(v => (
+            <button
+              key={v.id}
+              onClick={() => setVariantId(v.id)}
+              className={cn(
+                'px-1.5 py-0.5 text-[10px] font-semibold rounded-full border transition-colors',
+                v.id === variant?.id ? 'bg-gray-800 text-white border-gray-800' : 'bg-white/90 text-gray-700 border-gray-300 hover:bg-white'
+              )}
+              aria-pressed={v.id === variant?.id}
+            >
+              {v.name}
+            </button>
+          ))}
+        </div>
+      )}
+      {product.productUrl && (
+        <a
+          href={product.productUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="absolute top-1 right-1 p-1 bg-white/80 rounded-full text-gray-700 hover:bg-white opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+          aria-label={`View ${product.name} on the retailer's site`}
+          title="View product"
+        >
+          <ExternalLinkIcon className="w-3.5 h-3.5" />
+        </a>
+      )}
+    </div>
+  );
+};
+
+export default ObjectCard;
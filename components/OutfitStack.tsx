@@ -3,53 +3,292 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React from 'react';
-import { OutfitLayer } from '../types';
-import { Trash2Icon } from './icons';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Reorder } from 'framer-motion';
+import { BodyMeasurements, GarmentFit, OutfitLayer, OutfitRecomposition, StylingHint, WardrobeItem } from '../types';
+import { CheckCircleIcon, RefreshCwIcon, RotateCcwIcon, Trash2Icon } from './icons';
+import GarmentImage from './GarmentImage';
+import { describeGarmentTags } from '../services/garmentTagging';
+import { getGarmentStyling, getStylingHints, getWornGarments, groupGarmentsBySlot, OUTFIT_SLOT_LABELS, STYLING_HINT_LABELS } from '../services/outfitSlots';
+import { getGarmentFit, getLayerFit, isSameFit, summarizeGarmentFit } from '../services/garmentFit';
+import { cn } from '../lib/utils';
 
 interface OutfitStackProps {
   outfitHistory: OutfitLayer[];
-  onRemoveLastGarment: () => void;
+  isLoading: boolean;
+  onRemoveGarment: (garment: WardrobeItem) => void;
+  // Called with the worn garments in their new order once a drag ends.
+  onReorderGarments: (garments: WardrobeItem[]) => void;
+  onStylingChange: (garment: WardrobeItem, styling: StylingHint[]) => void;
+  // The garment the next wardrobe pick will replace; null when not replacing.
+  replacingGarmentId: string | null;
+  onReplaceGarment: (garment: WardrobeItem | null) => void;
+  recomposition: OutfitRecomposition | null;
+  // Whether the stack from before the last removal or replacement can still be restored.
+  canRestorePrevious: boolean;
+  onRestorePrevious: () => void;
+  onKeepChanges: () => void;
+  measurements: BodyMeasurements;
+  onEditMeasurements: () => void;
+  // Regenerates the garments whose size or fit changed since they were put on.
+  onRefit: () => void;
 }
 
-const OutfitStack: React.FC<OutfitStackProps> = ({ outfitHistory, onRemoveLastGarment }) => {
+interface GarmentRowProps {
+  garment: WardrobeItem;
+  position: number;
+  styling: StylingHint[];
+  // The fit the garment was generated with, and whether its size or the measurements have changed since.
+  fit?: GarmentFit;
+  isFitStale: boolean;
+  isLoading: boolean;
+  isReplacing: boolean;
+  onRemove: () => void;
+  onToggleReplace: () => void;
+  onStylingChange: (styling: StylingHint[]) => void;
+}
+
+const GarmentRow: React.FC<GarmentRowProps> = ({ garment, position, styling, fit, isFitStale, isLoading, isReplacing, onRemove, onToggleReplace, onStylingChange }) => {
+  const hints = getStylingHints(garment);
   return (
-    <div className="flex flex-col">
-      <h2 className="text-xl font-serif tracking-wider text-gray-800 border-b border-gray-400/50 pb-2 mb-3">Outfit Stack</h2>
-      <div className="space-y-2">
-        {outfitHistory.map((layer, index) => (
-          <div
-            key={layer.garment?.id || 'base'}
-            className="flex items-center justify-between bg-white/50 p-2 rounded-lg animate-fade-in border border-gray-200/80"
-          >
-            <div className="flex items-center overflow-hidden">
-                <span className="flex-shrink-0 flex items-center justify-center w-6 h-6 mr-3 text-xs font-bold text-gray-600 bg-gray-200 rounded-full">
-                  {index + 1}
-                </span>
-                {layer.garment && (
-                    <img src={layer.garment.url} alt={layer.garment.name} className="flex-shrink-0 w-12 h-12 object-cover rounded-md mr-3" />
-                )}
-                <span className="font-semibold text-gray-800 truncate" title={layer.garment?.name}>
-                  {layer.garment ? layer.garment.name : 'Base Model'}
+    <div
+      className={cn(
+        'bg-white/50 p-2 rounded-lg animate-fade-in border border-gray-200/80',
+        isReplacing && 'ring-2 ring-gray-800'
+      )}
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex items-center overflow-hidden">
+            {/* The position at which the garment is put on, counting the base model as 1. */}
+            <span className="flex-shrink-0 flex items-center justify-center w-6 h-6 mr-3 text-xs font-bold text-gray-600 bg-gray-200 rounded-full">
+              {position}
+            </span>
+            <GarmentImage item={garment} draggable={false} className="flex-shrink-0 w-12 h-12 object-cover rounded-md mr-3" />
+            <div className="flex flex-col overflow-hidden">
+              <span className="font-semibold text-gray-800 truncate" title={garment.name}>
+                {garment.name}
+              </span>
+              {garment.category && (
+                <span className="text-xs text-gray-500 truncate">{describeGarmentTags(garment)}</span>
+              )}
+              {(fit || isFitStale) && (
+                <span className="text-xs text-gray-500 truncate">
+                  {fit && summarizeGarmentFit(fit)}
+                  {isFitStale && <span className="text-amber-700">{fit ? ' · ' : ''}Fit changed</span>}
                 </span>
+              )}
             </div>
-            {index > 0 && index === outfitHistory.length - 1 && (
-               <button
-                onClick={onRemoveLastGarment}
-                className="flex-shrink-0 text-gray-500 hover:text-red-600 transition-colors p-2 rounded-md hover:bg-red-50"
-                aria-label={`Remove ${layer.garment?.name}`}
+        </div>
+        <div className="flex flex-shrink-0">
+          <button
+            onClick={onToggleReplace}
+            disabled={isLoading}
+            className="text-gray-500 hover:text-gray-800 transition-colors p-2 rounded-md hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+            aria-label={`Replace ${garment.name}`}
+            title="Replace"
+          >
+            <RefreshCwIcon className="w-5 h-5" />
+          </button>
+          <button
+            onClick={onRemove}
+            disabled={isLoading}
+            className="text-gray-500 hover:text-red-600 transition-colors p-2 rounded-md hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            aria-label={`Remove ${garment.name}`}
+            title="Remove"
+          >
+            <Trash2Icon className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+      {hints.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-2 pl-9">
+          {hints.map(hint => {
+            const isOn = styling.includes(hint);
+            return (
+              <button
+                key={hint}
+                onClick={() => onStylingChange(isOn ? styling.filter(h => h !== hint) : [...styling, hint])}
+                disabled={isLoading}
+                aria-pressed={isOn}
+                className={cn(
+                  'px-2 py-0.5 text-xs font-semibold rounded-full border transition-colors disabled:opacity-50 disabled:cursor-not-allowed',
+                  isOn ? 'bg-gray-800 text-white border-gray-800' : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-100'
+                )}
               >
-                <Trash2Icon className="w-5 h-5" />
+                {STYLING_HINT_LABELS[hint]}
               </button>
-            )}
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const OutfitStack: React.FC<OutfitStackProps> = ({
+  outfitHistory,
+  isLoading,
+  onRemoveGarment,
+  onReorderGarments,
+  onStylingChange,
+  replacingGarmentId,
+  onReplaceGarment,
+  recomposition,
+  canRestorePrevious,
+  onRestorePrevious,
+  onKeepChanges,
+  measurements,
+  onEditMeasurements,
+  onRefit,
+}) => {
+  const wornGarments = useMemo(() => getWornGarments(outfitHistory), [outfitHistory]);
+  const slotGroups = useMemo(() => groupGarmentsBySlot(wornGarments), [wornGarments]);
+  const replacingGarment = wornGarments.find(garment => garment.id === replacingGarmentId);
+  const staleFitIds = useMemo(() => new Set(wornGarments
+    .filter(garment => !isSameFit(getLayerFit(outfitHistory, garment.id), getGarmentFit(garment, measurements)))
+    .map(garment => garment.id)), [wornGarments, outfitHistory, measurements]);
+  const [view, setView] = useState<'slots' | 'order'>('slots');
+  // The order being dragged; committed (and regenerated) only when the drag ends.
+  const [draftOrder, setDraftOrder] = useState(wornGarments);
+  useEffect(() => setDraftOrder(wornGarments), [wornGarments]);
+
+  const handleDragEnd = () => {
+    if (draftOrder.some((garment, index) => garment.id !== wornGarments[index].id)) {
+      onReorderGarments(draftOrder);
+    }
+  };
+
+  const rowPropsFor = (garment: WardrobeItem) => ({
+    position: wornGarments.indexOf(garment) + 2,
+    styling: getGarmentStyling(outfitHistory, garment.id),
+    fit: getLayerFit(outfitHistory, garment.id),
+    isFitStale: staleFitIds.has(garment.id),
+    isLoading,
+    isReplacing: garment.id === replacingGarmentId,
+    onRemove: () => onRemoveGarment(garment),
+    onToggleReplace: () => onReplaceGarment(garment.id === replacingGarmentId ? null : garment),
+    onStylingChange: (styling: StylingHint[]) => onStylingChange(garment, styling),
+  });
+
+  return (
+    <div className="flex flex-col">
+      <div className="flex items-baseline justify-between border-b border-gray-400/50 pb-2 mb-3">
+        <h2 className="text-xl font-serif tracking-wider text-gray-800">Outfit Stack</h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onEditMeasurements}
+            className="text-xs font-semibold text-gray-600 hover:text-gray-800 hover:underline"
+            title="Your measurements, for the fit of garments with a size chart"
+          >
+            Measurements
+          </button>
+          {wornGarments.length > 1 && (
+            <div className="flex text-xs font-semibold rounded-md border border-gray-300 overflow-hidden">
+              {(['slots', 'order'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  className={cn('px-2 py-1 transition-colors', view === option ? 'bg-gray-800 text-white' : 'bg-white text-gray-600 hover:bg-gray-100')}
+                >
+                  {option === 'slots' ? 'By slot' : 'Layer order'}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+      {canRestorePrevious && (
+        <div className="flex items-center justify-between gap-2 mb-3 p-2 text-sm bg-amber-50 border border-amber-200 rounded-lg">
+          <span className="text-gray-700">Your outfit was rebuilt.</span>
+          <div className="flex gap-2 flex-shrink-0">
+            <button onClick={onRestorePrevious} className="inline-flex items-center px-2 py-1 font-semibold text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-100 transition-colors">
+              <RotateCcwIcon className="w-3.5 h-3.5 mr-1" />
+              Restore
+            </button>
+            <button onClick={onKeepChanges} className="px-2 py-1 font-semibold text-white bg-gray-800 rounded-md hover:bg-gray-700 transition-colors">
+              Keep
+            </button>
+          </div>
+        </div>
+      )}
+      {staleFitIds.size > 0 && !recomposition && (
+        <div className="flex items-center justify-between gap-2 mb-3 p-2 text-sm bg-amber-50 border border-amber-200 rounded-lg">
+          <span className="text-gray-700">A size or your measurements changed since this outfit was generated.</span>
+          <button
+            onClick={onRefit}
+            disabled={isLoading}
+            className="flex-shrink-0 inline-flex items-center px-2 py-1 font-semibold text-white bg-gray-800 rounded-md hover:bg-gray-700 transition-colors disabled:opacity-50"
+          >
+            <RefreshCwIcon className="w-3.5 h-3.5 mr-1" />
+            Refit
+          </button>
+        </div>
+      )}
+      {recomposition && (
+        <div className="mb-3 p-2 bg-white/50 border border-gray-200/80 rounded-lg">
+          <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-1 px-1">Regenerating</h3>
+          <ul className="space-y-1">
+            {recomposition.garments.map((garment, index) => (
+              <li key={garment.id} className="flex items-center gap-2 px-1 text-sm text-gray-700">
+                {index < recomposition.completed ? (
+                  <CheckCircleIcon className="w-4 h-4 text-green-600 flex-shrink-0" />
+                ) : (
+                  <RefreshCwIcon className={cn('w-4 h-4 flex-shrink-0', index < recomposition.completed + recomposition.inProgress ? 'animate-spin text-gray-700' : 'text-gray-300')} />
+                )}
+                <span className={cn('truncate', index >= recomposition.completed + recomposition.inProgress && 'text-gray-400')}>{garment.name}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {replacingGarment && (
+        <p className="mb-3 px-1 text-sm text-gray-600">
+          Choose a garment from the wardrobe to replace <span className="font-semibold">{replacingGarment.name}</span>.{' '}
+          <button onClick={() => onReplaceGarment(null)} className="font-semibold text-gray-700 hover:underline">Cancel</button>
+        </p>
+      )}
+      <div className="space-y-2">
+        <div className="flex items-center bg-white/50 p-2 rounded-lg animate-fade-in border border-gray-200/80">
+          <span className="flex-shrink-0 flex items-center justify-center w-6 h-6 mr-3 text-xs font-bold text-gray-600 bg-gray-200 rounded-full">
+            1
+          </span>
+          <span className="font-semibold text-gray-800">Base Model</span>
+        </div>
+        {view === 'order' && wornGarments.length > 1 ? (
+          <>
+            <p className="px-1 text-xs text-gray-500">Drag garments to change the order they are put on, e.g. a scarf over or under a coat.</p>
+            <Reorder.Group axis="y" values={draftOrder} onReorder={setDraftOrder} className="space-y-2">
+              {draftOrder.map(garment => (
+                <Reorder.Item
+                  key={garment.id}
+                  value={garment}
+                  dragListener={!isLoading}
+                  onDragEnd={handleDragEnd}
+                  className="cursor-grab active:cursor-grabbing"
+                >
+                  <GarmentRow garment={garment} {...rowPropsFor(garment)} position={draftOrder.indexOf(garment) + 2} />
+                </Reorder.Item>
+              ))}
+            </Reorder.Group>
+          </>
+        ) : slotGroups.map(({ slot, garments }) => (
+          <div key={slot ?? 'unsorted'} className="pt-1">
+            <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-1 px-1">
+              {slot ? OUTFIT_SLOT_LABELS[slot] : 'Not yet sorted'}
+            </h3>
+            <div className="space-y-2">
+              {garments.map(garment => (
+                <GarmentRow key={garment.id} garment={garment} {...rowPropsFor(garment)} />
+              ))}
+            </div>
           </div>
         ))}
-        {outfitHistory.length === 1 && (
-            <p className="text-center text-sm text-gray-500 pt-4">Your stacked items will appear here. Select an item from the wardrobe below.</p>
+        {wornGarments.length === 0 && (
+            <p className="text-center text-sm text-gray-500 pt-4">Your outfit will appear here, grouped by top, bottom, outerwear, footwear and accessories. Select an item from the wardrobe below.</p>
         )}
       </div>
     </div>
   );
 };
 
-export default OutfitStack;
\ No newline at end of file
+export default OutfitStack;
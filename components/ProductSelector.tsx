@@ -2,3 +2,136 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import React, { useMemo, useState } from 'react';
+import { AnimatePresence } from 'framer-motion';
+import type { CatalogProduct, CatalogVariant, GarmentCategory, WardrobeItem } from '../types';
+import ObjectCard from './ObjectCard';
+import AddProductModal from './AddProductModal';
+import WardrobeGrid from './WardrobeGrid';
+import FilterChip from './FilterChip';
+import { urlToFile } from '../lib/utils';
+import { catalogProductToWardrobeItem, ParsedCatalog } from '../services/catalog';
+import { GARMENT_CATEGORIES, GARMENT_CATEGORY_LABELS } from '../services/garmentTagging';
+
+interface ProductSelectorProps {
+  catalog: CatalogProduct[];
+  // Catalog products are tried on through the same path as wardrobe garments.
+  onGarmentSelect: (garmentFile: File, garmentInfo: WardrobeItem) => void;
+  onImport: (catalog: ParsedCatalog) => void;
+  onClear: () => void;
+  activeGarmentIds: string[];
+  isLoading: boolean;
+}
+
+// The retailer catalog: products imported from a feed, browsable and tried on like the wardrobe.
+const ProductSelector: React.FC<ProductSelectorProps> = ({ catalog, onGarmentSelect, onImport, onClear, activeGarmentIds, isLoading }) => {
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [category, setCategory] = useState<GarmentCategory | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const categories = useMemo(() => GARMENT_CATEGORIES.filter(c => catalog.some(product => product.category === c)), [catalog]);
+  const shownProducts = useMemo(() => {
+    const words = search.toLowerCase().split(/\s+/).filter(Boolean);
+    return catalog.filter(product =>
+      (!category || product.category === category)
+      && words.every(word => [product.name, ...product.variants.map(v => v.name)].join(' ').toLowerCase().includes(word))
+    );
+  }, [catalog, search, category]);
+
+  const handleTryOn = async (product: CatalogProduct, variant?: CatalogVariant) => {
+    if (isLoading) return;
+    const item = catalogProductToWardrobeItem(product, variant);
+    setError(null);
+    try {
+      const file = await urlToFile(item.url, item.name);
+      onGarmentSelect(file, item);
+    } catch (err) {
+      setError('Failed to load the product image. Images on another origin must be served with CORS headers.');
+      console.error(`Failed to load catalog image from URL: ${item.url}.`, err);
+    }
+  };
+
+  const handleImport = (parsed: ParsedCatalog) => {
+    onImport(parsed);
+    setNotice(parsed.skipped > 0
+      ? `Imported ${parsed.products.length} products; ${parsed.skipped} without an id, name or image were skipped.`
+      : `Imported ${parsed.products.length} products.`);
+  };
+
+  return (
+    <div className="pt-6 border-t border-gray-400/50">
+      <div className="flex items-baseline justify-between mb-3">
+        <h2 className="text-xl font-serif tracking-wider text-gray-800">Catalog</h2>
+        <div className="flex gap-3">
+          {catalog.length > 0 && (
+            <button onClick={onClear} className="text-sm font-semibold text-gray-500 hover:text-gray-800 hover:underline">
+              Clear
+            </button>
+          )}
+          <button onClick={() => setIsImportOpen(true)} className="text-sm font-semibold text-gray-600 hover:text-gray-800 hover:underline">
+            Import
+          </button>
+        </div>
+      </div>
+      {notice && (
+        <p className="mb-3 text-xs text-gray-500">
+          {notice}{' '}
+          <button onClick={() => setNotice(null)} className="font-semibold text-gray-600 hover:underline">Dismiss</button>
+        </p>
+      )}
+      {catalog.length > 0 ? (
+        <>
+          <div className="space-y-2 mb-3">
+            <input
+              type="search"
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              placeholder="Search products..."
+              className="w-full px-3 py-1.5 text-sm bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-gray-800"
+              aria-label="Search the catalog"
+            />
+            {categories.length > 1 && (
+              <div className="flex flex-wrap gap-1.5">
+                {categories.map(c => (
+                  <FilterChip key={c} label={GARMENT_CATEGORY_LABELS[c]} isActive={category === c} onClick={() => setCategory(category === c ? null : c)} />
+                ))}
+              </div>
+            )}
+          </div>
+          <WardrobeGrid
+            cellCount={shownProducts.length}
+            columns={2}
+            className="max-h-[30rem] -m-1"
+            renderCell={index => {
+              const product = shownProducts[index];
+              return (
+                <ObjectCard
+                  key={product.id}
+                  product={product}
+                  onTryOn={handleTryOn}
+                  isActive={variant => activeGarmentIds.includes(catalogProductToWardrobeItem(product, variant).id)}
+                  isLoading={isLoading}
+                />
+              );
+            }}
+          />
+          {shownProducts.length === 0 && (
+            <p className="text-center text-sm text-gray-500 mt-4">No products match.</p>
+          )}
+        </>
+      ) : (
+        <p className="text-center text-sm text-gray-500">Import a retailer product feed (JSON or CSV) to try its products on.</p>
+      )}
+      {error && <p className="text-red-500 text-sm mt-4">{error}</p>}
+      <AnimatePresence>
+        {isImportOpen && (
+          <AddProductModal onImport={handleImport} onClose={() => setIsImportOpen(false)} />
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default ProductSelector;
@@ -2,10 +2,11 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { DownloadIcon, PlayIcon, FilmIcon } from './icons';
 import { CreationItem } from '../types';
 import { downloadMedia } from '../lib/utils';
+import { groupNearDuplicates } from '../services/perceptualHash';
 
 interface RecentCreationsProps {
   items: CreationItem[];
@@ -13,6 +14,10 @@ interface RecentCreationsProps {
 }
 
 const RecentCreations: React.FC<RecentCreationsProps> = ({ items, onView }) => {
+  // Near-identical images share one tile, the newest, until their group is expanded.
+  const groups = useMemo(() => groupNearDuplicates(items, item => item.type === 'image' ? item.imageHash : undefined), [items]);
+  const [expandedGroupId, setExpandedGroupId] = useState<string | null>(null);
+
   if (items.length === 0) {
     return null; // Don't render anything if there are no items
   }
@@ -27,44 +32,66 @@ const RecentCreations: React.FC<RecentCreationsProps> = ({ items, onView }) => {
     <div className="flex flex-col">
       <h2 className="text-xl font-serif tracking-wider text-gray-800 border-b border-gray-400/50 pb-2 mb-3">Recent Creations</h2>
       <div className="grid grid-cols-3 gap-3">
-        {items.map((item, i) => (
-          <div 
-            key={item.id} 
-            className="relative aspect-square group cursor-pointer"
-            onClick={() => onView(item)}
-          >
-            {item.type === 'video' ? (
-                 <div className="w-full h-full bg-gray-200 rounded-lg flex items-center justify-center relative overflow-hidden">
-                     <video src={item.url} className="w-full h-full object-cover opacity-80" muted playsInline />
-                     <div className="absolute inset-0 flex items-center justify-center">
-                         <div className="bg-white/30 backdrop-blur-sm p-2 rounded-full">
-                            <PlayIcon className="w-6 h-6 text-white" fill="currentColor" />
-                         </div>
-                     </div>
-                     <div className="absolute top-1 right-1 bg-black/60 p-1 rounded">
-                        <FilmIcon className="w-3 h-3 text-white" />
-                     </div>
-                 </div>
-            ) : (
-                <img 
-                    src={item.url} 
-                    className="aspect-square w-full h-full object-cover rounded-lg bg-gray-200" 
-                    alt={`Recent creation ${i + 1}`} 
-                />
-            )}
+        {groups.flatMap(group => group[0].id === expandedGroupId ? group : [group[0]]).map(item => {
+          const i = items.indexOf(item);
+          const group = groups.find(candidate => candidate[0] === item);
+          const similarCount = group ? group.length - 1 : 0;
+          return (
+            <div 
+              key={item.id} 
+              className="relative aspect-square group cursor-pointer"
+              onClick={() => onView(item)}
+              title={item.promptVersion ? `Prompt template ${item.promptVersion}` : undefined}
+            >
+              {item.type === 'video' ? (
+                   <div className="w-full h-full bg-gray-200 rounded-lg flex items-center justify-center relative overflow-hidden">
+                       <video src={item.url} className="w-full h-full object-cover opacity-80" muted playsInline />
+                       <div className="absolute inset-0 flex items-center justify-center">
+                           <div className="bg-white/30 backdrop-blur-sm p-2 rounded-full">
+                              <PlayIcon className="w-6 h-6 text-white" fill="currentColor" />
+                           </div>
+                       </div>
+                       <div className="absolute top-1 right-1 bg-black/60 p-1 rounded">
+                          <FilmIcon className="w-3 h-3 text-white" />
+                       </div>
+                   </div>
+              ) : (
+                  <img 
+                      src={item.url} 
+                      className="aspect-square w-full h-full object-cover rounded-lg bg-gray-200" 
+                      alt={`Recent creation ${i + 1}`} 
+                  />
+              )}
 
-            <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity rounded-lg flex items-center justify-center gap-2">
-              <button 
-                onClick={(e) => handleDownload(e, item, i)} 
-                className="w-8 h-8 bg-white/80 rounded-full flex items-center justify-center text-gray-800 hover:bg-white"
-                aria-label="Download"
-                title="Download"
-              >
-                <DownloadIcon className="w-4 h-4" />
-              </button>
+              <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity rounded-lg flex items-center justify-center gap-2">
+                <button 
+                  onClick={(e) => handleDownload(e, item, i)} 
+                  className="w-8 h-8 bg-white/80 rounded-full flex items-center justify-center text-gray-800 hover:bg-white"
+                  aria-label="Download"
+                  title="Download"
+                >
+                  <DownloadIcon className="w-4 h-4" />
+                </button>
+                {item.promptVersion && (
+                  <span className="absolute bottom-1 left-1 bg-black/60 text-white text-[10px] font-mono px-1 rounded">{item.promptVersion}</span>
+                )}
+              </div>
+              {similarCount > 0 && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setExpandedGroupId(expandedGroupId === item.id ? null : item.id);
+                  }}
+                  className="absolute top-1 left-1 bg-black/60 text-white text-[10px] font-semibold px-1.5 py-0.5 rounded-full hover:bg-black/80"
+                  aria-expanded={expandedGroupId === item.id}
+                  title={expandedGroupId === item.id ? 'Hide similar creations' : `Show ${similarCount} similar ${similarCount === 1 ? 'creation' : 'creations'}`}
+                >
+                  {expandedGroupId === item.id ? 'Hide' : `+${similarCount}`}
+                </button>
+              )}
             </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
     </div>
   );
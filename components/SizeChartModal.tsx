@@ -0,0 +1,216 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import type { BodyMeasurement, BodyMeasurements, SizeChartEntry, WardrobeItem } from '../types';
+import { PlusIcon, Trash2Icon, XIcon } from './icons';
+import GarmentImage from './GarmentImage';
+import { BODY_MEASUREMENT_LABELS, getGarmentFit, getSizeChartMeasurements, summarizeGarmentFit } from '../services/garmentFit';
+import { cn } from '../lib/utils';
+
+interface SizeChartModalProps {
+  item: WardrobeItem;
+  measurements: BodyMeasurements;
+  // Called with undefined for both when the chart is left empty.
+  onSave: (sizeChart: SizeChartEntry[] | undefined, selectedSize: string | undefined) => void;
+  onEditMeasurements: () => void;
+  onClose: () => void;
+}
+
+// A chart row while editing: values are kept as text so a cell can be emptied.
+interface DraftRow {
+  key: number;
+  size: string;
+  values: Partial<Record<BodyMeasurement, string>>;
+}
+
+const toDraftRows = (chart: SizeChartEntry[] = []): DraftRow[] => chart.map((entry, index) => ({
+  key: index,
+  size: entry.size,
+  values: Object.fromEntries(Object.entries(entry.measurements).map(([measurement, value]) => [measurement, String(value)])),
+}));
+
+const toSizeChart = (rows: DraftRow[]): SizeChartEntry[] => rows
+  .filter(row => row.size.trim())
+  .map(row => ({
+    size: row.size.trim(),
+    measurements: Object.fromEntries(Object.entries(row.values).flatMap(([measurement, value]) => {
+      const parsed = parseFloat(value ?? '');
+      return parsed > 0 ? [[measurement, parsed]] : [];
+    })),
+  }));
+
+const SizeChartModal: React.FC<SizeChartModalProps> = ({ item, measurements, onSave, onEditMeasurements, onClose }) => {
+  const [rows, setRows] = useState<DraftRow[]>(() => {
+    const existing = toDraftRows(item.sizeChart);
+    return existing.length > 0 ? existing : [{ key: 0, size: '', values: {} }];
+  });
+  const [selectedSize, setSelectedSize] = useState(item.selectedSize ?? '');
+  const columns = getSizeChartMeasurements(item.category);
+  const sizeChart = toSizeChart(rows);
+  const hasMeasurements = Object.keys(measurements).length > 0;
+
+  const updateRow = (key: number, changes: Partial<DraftRow>) => {
+    setRows(prev => prev.map(row => row.key === key ? { ...row, ...changes } : row));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const size = sizeChart.some(entry => entry.size === selectedSize.trim()) ? selectedSize.trim() : undefined;
+    onSave(sizeChart.length > 0 ? sizeChart : undefined, size);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+    >
+      <motion.form
+        onSubmit={handleSubmit}
+        initial={{ scale: 0.95, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.95, y: 20 }}
+        className="relative bg-white rounded-2xl w-full max-w-lg max-h-[90vh] flex flex-col shadow-xl"
+      >
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 rounded-full text-gray-500 hover:bg-gray-100 hover:text-gray-800"
+          aria-label="Close size chart"
+        >
+          <XIcon className="w-6 h-6" />
+        </button>
+        <div className="p-6 flex gap-4 items-center">
+          <GarmentImage item={item} className="flex-shrink-0 w-16 h-16 object-cover rounded-lg border border-gray-200" />
+          <div className="pr-8">
+            <h2 className="text-2xl font-serif text-gray-800">Size & fit</h2>
+            <p className="text-gray-600 mt-1 text-sm">
+              Enter the body measurements each size of <span className="font-semibold">{item.name}</span> is made for, in cm, and pick the size to try on.
+            </p>
+          </div>
+        </div>
+        <div className="px-6 pb-4 overflow-y-auto">
+          {columns.length === 0 && (
+            <p className="mb-3 text-sm text-gray-500">The fit of shoes and accessories is not simulated, but their size is kept with the garment.</p>
+          )}
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs font-bold text-gray-500 uppercase tracking-wider text-left">
+                <th className="pb-1 pr-2 font-bold">Wear</th>
+                <th className="pb-1 pr-2 font-bold">Size</th>
+                {columns.map(measurement => (
+                  <th key={measurement} className="pb-1 pr-2 font-bold">{BODY_MEASUREMENT_LABELS[measurement]}</th>
+                ))}
+                <th className="pb-1"><span className="sr-only">Remove</span></th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => {
+                const size = row.size.trim();
+                const fit = size && hasMeasurements ? getGarmentFit({ ...item, sizeChart, selectedSize: size }, measurements) : null;
+                return (
+                  <React.Fragment key={row.key}>
+                    <tr>
+                      <td className="py-1 pr-2">
+                        <input
+                          type="radio"
+                          name="selected-size"
+                          checked={!!size && selectedSize.trim() === size}
+                          disabled={!size}
+                          onChange={() => setSelectedSize(size)}
+                          className="border-gray-300 text-gray-800 focus:ring-gray-800"
+                          aria-label={size ? `Try on size ${size}` : 'Try on this size'}
+                        />
+                      </td>
+                      <td className="py-1 pr-2">
+                        <input
+                          value={row.size}
+                          onChange={e => {
+                            if (selectedSize.trim() === size) setSelectedSize(e.target.value);
+                            updateRow(row.key, { size: e.target.value });
+                          }}
+                          placeholder="M"
+                          className="w-16 px-2 py-1 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-gray-800"
+                          aria-label="Size"
+                        />
+                      </td>
+                      {columns.map(measurement => (
+                        <td key={measurement} className="py-1 pr-2">
+                          <input
+                            type="number"
+                            inputMode="decimal"
+                            min={0}
+                            step="any"
+                            value={row.values[measurement] ?? ''}
+                            onChange={e => updateRow(row.key, { values: { ...row.values, [measurement]: e.target.value } })}
+                            className="w-16 px-2 py-1 text-right bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-gray-800"
+                            aria-label={`${BODY_MEASUREMENT_LABELS[measurement]} for size ${size || 'this size'}`}
+                          />
+                        </td>
+                      ))}
+                      <td className="py-1">
+                        <button
+                          type="button"
+                          onClick={() => setRows(prev => prev.filter(other => other.key !== row.key))}
+                          className="p-1 rounded-md text-gray-500 hover:text-red-600 hover:bg-red-50"
+                          aria-label={`Remove size ${size}`}
+                        >
+                          <Trash2Icon className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                    {fit && (
+                      <tr>
+                        <td />
+                        <td colSpan={columns.length + 2} className={cn('pb-1 text-xs', selectedSize.trim() === size ? 'text-gray-700 font-semibold' : 'text-gray-500')}>
+                          {summarizeGarmentFit(fit)}
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+          <button
+            type="button"
+            onClick={() => setRows(prev => [...prev, { key: Math.max(-1, ...prev.map(row => row.key)) + 1, size: '', values: {} }])}
+            className="mt-2 inline-flex items-center gap-1 text-sm font-semibold text-gray-600 hover:text-gray-800"
+          >
+            <PlusIcon className="w-4 h-4" />
+            Add size
+          </button>
+          {columns.length > 0 && (
+            <p className="mt-3 text-sm text-gray-500">
+              {hasMeasurements ? 'Fit is compared with your measurements. ' : 'Add your measurements to see how each size fits. '}
+              <button type="button" onClick={onEditMeasurements} className="font-semibold text-gray-700 hover:underline">
+                {hasMeasurements ? 'Edit measurements' : 'Add measurements'}
+              </button>
+            </p>
+          )}
+        </div>
+        <div className="flex flex-col sm:flex-row-reverse gap-2 bg-gray-50 p-4 rounded-b-2xl">
+          <button
+            type="submit"
+            className="w-full sm:w-auto flex-1 inline-flex justify-center px-4 py-2 bg-gray-800 text-white font-semibold rounded-md hover:bg-gray-700 transition-colors"
+          >
+            Save
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="w-full sm:w-auto flex-1 inline-flex justify-center px-4 py-2 bg-white text-gray-700 font-semibold rounded-md border border-gray-300 hover:bg-gray-100 transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </motion.form>
+    </motion.div>
+  );
+};
+
+export default SizeChartModal;
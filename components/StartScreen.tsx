@@ -3,50 +3,64 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { UploadCloudIcon } from './icons';
 import { Compare } from './ui/compare';
-import { generateModelImage } from '../services/geminiService';
+import { generateModelImage, GenerationResult } from '../services/geminiService';
 import Spinner from './Spinner';
-import { getFriendlyErrorMessage } from '../lib/utils';
+import { fileToDataUrl, getFriendlyErrorMessage, isAbortError } from '../lib/utils';
+import { describePreprocessingChanges, getPreprocessedImage } from '../services/imagePreprocessing';
 
 interface StartScreenProps {
-  onModelFinalized: (modelUrl: string) => void;
+  onModelFinalized: (modelUrl: string, promptVersion: string) => void;
   hasSavedOutfit: boolean;
   onLoadOutfit: () => void;
 }
 
 const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized, hasSavedOutfit, onLoadOutfit }) => {
   const [userImageUrl, setUserImageUrl] = useState<string | null>(null);
-  const [generatedModelUrl, setGeneratedModelUrl] = useState<string | null>(null);
+  const [generatedModel, setGeneratedModel] = useState<GenerationResult | null>(null);
+  const generatedModelUrl = generatedModel?.imageUrl ?? null;
+  const inputNotice = generatedModel?.inputChanges ? describePreprocessingChanges(generatedModel.inputChanges) : null;
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Abandon any in-flight generation if the screen goes away.
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
 
   const handleFileSelect = useCallback(async (file: File) => {
-    if (!file.type.startsWith('image/')) {
+    // Some browsers report an empty type for HEIC photos.
+    if (!file.type.startsWith('image/') && !/\.hei[cf]$/i.test(file.name)) {
         setError('Please select an image file.');
         return;
     }
 
-    const reader = new FileReader();
-    reader.onload = async (e) => {
-        const dataUrl = e.target?.result as string;
-        setUserImageUrl(dataUrl);
-        setIsGenerating(true);
-        setGeneratedModelUrl(null);
-        setError(null);
-        try {
-            const result = await generateModelImage(file);
-            setGeneratedModelUrl(result);
-        } catch (err) {
+    setIsGenerating(true);
+    setGeneratedModel(null);
+    setError(null);
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    try {
+        // Preview the normalized photo (upright, decodable) rather than the raw upload.
+        const { file: preparedFile } = await getPreprocessedImage(file);
+        controller.signal.throwIfAborted();
+        setUserImageUrl(await fileToDataUrl(preparedFile));
+        const result = await generateModelImage(file, { signal: controller.signal });
+        setGeneratedModel(result);
+    } catch (err) {
+        if (!isAbortError(err)) {
             setError(getFriendlyErrorMessage(err, 'Failed to create model'));
-            setUserImageUrl(null);
-        } finally {
+        }
+        setUserImageUrl(null);
+    } finally {
+        if (abortControllerRef.current === controller) {
+            abortControllerRef.current = null;
             setIsGenerating(false);
         }
-    };
-    reader.readAsDataURL(file);
+    }
   }, []);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -56,8 +70,9 @@ const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized, hasSavedOut
   };
 
   const reset = () => {
+    abortControllerRef.current?.abort();
     setUserImageUrl(null);
-    setGeneratedModelUrl(null);
+    setGeneratedModel(null);
     setIsGenerating(false);
     setError(null);
   };
@@ -114,6 +129,7 @@ const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized, hasSavedOut
 
                 <p className="text-gray-500 text-sm mt-2">Select a clear, full-body photo. Face-only photos also work, but full-body is preferred for best results.</p>
                 <p className="text-gray-500 text-xs mt-1">By uploading, you agree not to create harmful, explicit, or unlawful content. This service is for creative and responsible use only.</p>
+                {isGenerating && <p className="text-gray-500 text-sm mt-2">Preparing your photo...</p>}
                 {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
               </div>
             </div>
@@ -151,6 +167,7 @@ const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized, hasSavedOut
               <div className="flex items-center gap-3 text-lg text-gray-700 font-serif mt-6">
                 <Spinner />
                 <span>Generating your model...</span>
+                <button onClick={reset} className="text-sm font-semibold font-sans text-gray-700 hover:underline">Cancel</button>
               </div>
             )}
 
@@ -169,20 +186,23 @@ const StartScreen: React.FC<StartScreenProps> = ({ onModelFinalized, hasSavedOut
                   animate={{ opacity: 1, y: 0 }}
                   exit={{ opacity: 0, y: 10 }}
                   transition={{ duration: 0.5 }}
-                  className="flex flex-col sm:flex-row items-center gap-4 mt-8"
+                  className="flex flex-col items-center md:items-start gap-4 mt-8"
                 >
-                  <button 
-                    onClick={reset}
-                    className="w-full sm:w-auto px-6 py-3 text-base font-semibold text-gray-700 bg-white/80 backdrop-blur-md rounded-md cursor-pointer hover:bg-white transition-colors border border-gray-300"
-                  >
-                    Use Different Photo
-                  </button>
-                  <button 
-                    onClick={() => onModelFinalized(generatedModelUrl)}
-                    className="w-full sm:w-auto relative inline-flex items-center justify-center px-8 py-3 text-base font-semibold text-white bg-gray-900 rounded-md cursor-pointer group hover:bg-gray-700 transition-colors"
-                  >
-                    Proceed to Styling &rarr;
-                  </button>
+                  {inputNotice && <p className="text-xs text-gray-500 max-w-md text-center md:text-left">{inputNotice}</p>}
+                  <div className="w-full flex flex-col sm:flex-row items-center gap-4">
+                    <button 
+                      onClick={reset}
+                      className="w-full sm:w-auto px-6 py-3 text-base font-semibold text-gray-700 bg-white/80 backdrop-blur-md rounded-md cursor-pointer hover:bg-white transition-colors border border-gray-300"
+                    >
+                      Use Different Photo
+                    </button>
+                    <button 
+                      onClick={() => onModelFinalized(generatedModelUrl, generatedModel!.promptVersion)}
+                      className="w-full sm:w-auto relative inline-flex items-center justify-center px-8 py-3 text-base font-semibold text-white bg-gray-900 rounded-md cursor-pointer group hover:bg-gray-700 transition-colors"
+                    >
+                      Proceed to Styling &rarr;
+                    </button>
+                  </div>
                 </motion.div>
               )}
             </AnimatePresence>
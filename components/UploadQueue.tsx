@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import type { GarmentUpload, WardrobeItem } from '../types';
+import { AlertTriangleIcon, CheckCircleIcon, RefreshCwIcon, XIcon } from './icons';
+import { cn } from '../lib/utils';
+
+interface UploadQueueProps {
+  uploads: GarmentUpload[];
+  wardrobe: WardrobeItem[];
+  isLoading: boolean;
+  onTryOn: (item: WardrobeItem) => void;
+  onReviewIsolation: (item: WardrobeItem) => void;
+  onCrop: (item: WardrobeItem) => void;
+  // Resolve a photo that looks like a garment already in the wardrobe.
+  onMerge: (id: string) => void;
+  onAddDuplicate: (id: string) => void;
+  // Removes a file from the queue, cancelling it if it is being processed.
+  onDismiss: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+const UploadQueue: React.FC<UploadQueueProps> = ({ uploads, wardrobe, isLoading, onTryOn, onReviewIsolation, onCrop, onMerge, onAddDuplicate, onDismiss, onClearFinished }) => {
+  const doneCount = uploads.filter(upload => upload.status === 'done').length;
+  const hasFinished = uploads.some(upload => upload.status === 'done' || upload.status === 'failed');
+
+  return (
+    <div className="mb-3 p-2 bg-white/50 border border-gray-200/80 rounded-lg">
+      <div className="flex items-baseline justify-between mb-1 px-1">
+        <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider">Uploads · {doneCount} of {uploads.length} added</h3>
+        {hasFinished && (
+          <button onClick={onClearFinished} className="text-xs font-semibold text-gray-600 hover:underline">Clear finished</button>
+        )}
+      </div>
+      <ul className="space-y-1 max-h-48 overflow-y-auto">
+        {uploads.map(upload => {
+          const item = upload.itemId ? wardrobe.find(garment => garment.id === upload.itemId) : undefined;
+          const duplicateOf = upload.duplicateOfId ? wardrobe.find(garment => garment.id === upload.duplicateOfId) : undefined;
+          return (
+            <li key={upload.id} className="flex items-start gap-2 px-1 py-0.5 text-sm text-gray-700">
+              <span className="flex-shrink-0 mt-0.5">
+                {upload.status === 'done' && <CheckCircleIcon className="w-4 h-4 text-green-600" />}
+                {upload.status === 'failed' && <AlertTriangleIcon className="w-4 h-4 text-red-500" />}
+                {upload.status === 'duplicate' && <AlertTriangleIcon className="w-4 h-4 text-amber-500" />}
+                {(upload.status === 'queued' || upload.status === 'processing') && (
+                  <RefreshCwIcon className={cn('w-4 h-4', upload.status === 'processing' ? 'animate-spin text-gray-700' : 'text-gray-300')} />
+                )}
+              </span>
+              <div className="flex-1 min-w-0">
+                <p className={cn('truncate', upload.status === 'queued' && 'text-gray-400')} title={upload.fileName}>
+                  {item?.name ?? upload.fileName}
+                </p>
+                {upload.status === 'processing' && <p className="text-xs text-gray-500">Isolating garment...</p>}
+                {upload.message && <p className={cn('text-xs', upload.status === 'failed' ? 'text-red-500' : 'text-gray-500')}>{upload.message}</p>}
+                {upload.status === 'duplicate' && (
+                  <>
+                    <p className="text-xs text-gray-500">Looks like {duplicateOf ? <span className="font-semibold">{duplicateOf.name}</span> : 'a garment'}, already in your wardrobe.</p>
+                    <div className="flex gap-3 mt-0.5 text-xs font-semibold">
+                      <button onClick={() => onMerge(upload.id)} className="text-gray-700 hover:underline">
+                        Merge
+                      </button>
+                      <button onClick={() => onAddDuplicate(upload.id)} className="text-gray-600 hover:underline">
+                        Add anyway
+                      </button>
+                    </div>
+                  </>
+                )}
+                {upload.status === 'done' && item && (
+                  <div className="flex gap-3 mt-0.5 text-xs font-semibold">
+                    <button onClick={() => onTryOn(item)} disabled={isLoading} className="text-gray-700 hover:underline disabled:opacity-50 disabled:cursor-not-allowed">
+                      Try on
+                    </button>
+                    {item.isolatedUrl && item.originalUrl && (
+                      <button onClick={() => onReviewIsolation(item)} disabled={isLoading} className="text-gray-600 hover:underline disabled:opacity-50 disabled:cursor-not-allowed">
+                        Review cutout
+                      </button>
+                    )}
+                    <button onClick={() => onCrop(item)} disabled={isLoading} className="text-gray-600 hover:underline disabled:opacity-50 disabled:cursor-not-allowed">
+                      {item.crop ? 'Edit crop' : 'Crop'}
+                    </button>
+                  </div>
+                )}
+              </div>
+              <button
+                onClick={() => onDismiss(upload.id)}
+                className="flex-shrink-0 p-0.5 text-gray-400 hover:text-gray-700"
+                aria-label={upload.status === 'processing' || upload.status === 'queued' ? `Cancel ${upload.fileName}` : `Dismiss ${upload.fileName}`}
+              >
+                <XIcon className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default UploadQueue;
@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { cn } from '../lib/utils';
+
+interface WardrobeGridProps {
+  cellCount: number;
+  columns: number;
+  // Cells must carry their own key.
+  renderCell: (index: number) => React.ReactNode;
+  className?: string;
+}
+
+const GAP = 12;
+// Room around the grid for the cells' focus and selection rings, which the scroll area would clip.
+const PADDING = 4;
+// Rows rendered above and below the visible ones, so fast scrolling does not show blank space.
+const OVERSCAN_ROWS = 2;
+
+/**
+ * A grid of square cells that only renders the rows in view, so a wardrobe with hundreds of
+ * garments scrolls as smoothly as a small one. It scrolls within itself: give it a height or
+ * max height through `className`.
+ */
+const WardrobeGrid: React.FC<WardrobeGridProps> = ({ cellCount, columns, renderCell, className }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+  const [scrollTop, setScrollTop] = useState(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setViewport({ width: container.clientWidth - 2 * PADDING, height: container.clientHeight }));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const isMeasured = viewport.width > 0;
+  const rowCount = Math.ceil(cellCount / columns);
+  const rowHeight = (viewport.width - GAP * (columns - 1)) / columns + GAP;
+  // Until the grid has been measured, render the first few rows so it has a height to measure.
+  const firstRow = isMeasured ? Math.max(0, Math.floor(scrollTop / rowHeight) - OVERSCAN_ROWS) : 0;
+  const lastRow = isMeasured
+    ? Math.min(rowCount, Math.ceil((scrollTop + viewport.height) / rowHeight) + OVERSCAN_ROWS)
+    : Math.min(rowCount, 3);
+  const cellIndexes = Array.from({ length: Math.max(0, Math.min(cellCount, lastRow * columns) - firstRow * columns) }, (_, i) => firstRow * columns + i);
+
+  return (
+    <div ref={containerRef} onScroll={e => setScrollTop(e.currentTarget.scrollTop)} className={cn('overflow-y-auto', className)} style={{ padding: PADDING }}>
+      <div className="relative" style={{ height: isMeasured ? Math.max(0, rowCount * rowHeight - GAP) : undefined }}>
+        <div
+          className={cn('grid', isMeasured && 'absolute inset-x-0 top-0')}
+          style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`, gap: GAP, transform: `translateY(${firstRow * rowHeight}px)` }}
+        >
+          {cellIndexes.map(renderCell)}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WardrobeGrid;
@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import type { WardrobeCollection, WardrobeItem } from '../types';
+import { CropIcon, PaletteIcon, PlusIcon, RulerIcon, ShirtIcon, StarIcon, Trash2Icon } from './icons';
+
+interface WardrobeItemMenuProps {
+  item: WardrobeItem;
+  collections: WardrobeCollection[];
+  onUpdate: (changes: Partial<Pick<WardrobeItem, 'name' | 'favorite' | 'collectionIds'>>) => void;
+  onCreateCollection: (name: string) => WardrobeCollection;
+  onCrop: () => void;
+  onCreateVariant: () => void;
+  onEditViews: () => void;
+  onEditSize: () => void;
+  onDelete: () => void;
+  onClose: () => void;
+  // The viewport rectangle of the button that opened the menu.
+  anchor: DOMRect;
+}
+
+const MENU_WIDTH = 224;
+const VIEWPORT_MARGIN = 8;
+const ANCHOR_GAP = 4;
+// About the menu's height with a couple of collections; with this much room below, it never opens upwards.
+const COMFORTABLE_HEIGHT = 320;
+
+const WardrobeItemMenu: React.FC<WardrobeItemMenuProps> = ({ item, collections, onUpdate, onCreateCollection, onCrop, onCreateVariant, onEditViews, onEditSize, onDelete, onClose, anchor }) => {
+  const [name, setName] = useState(item.name);
+  const [newCollectionName, setNewCollectionName] = useState('');
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const collectionIds = item.collectionIds ?? [];
+
+  // The menu is placed in viewport coordinates, which a resize invalidates.
+  useEffect(() => {
+    window.addEventListener('resize', onClose);
+    return () => window.removeEventListener('resize', onClose);
+  }, [onClose]);
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== item.name) {
+      onUpdate({ name: trimmed });
+    }
+  };
+
+  const toggleCollection = (id: string) => {
+    onUpdate({ collectionIds: collectionIds.includes(id) ? collectionIds.filter(existing => existing !== id) : [...collectionIds, id] });
+  };
+
+  const handleCreateCollection = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = newCollectionName.trim();
+    if (!trimmed) return;
+    const collection = onCreateCollection(trimmed);
+    onUpdate({ collectionIds: [...collectionIds, collection.id] });
+    setNewCollectionName('');
+  };
+
+  // Rendered into the body, so neither the scrolling, transformed wardrobe grid nor a tile clips it.
+  // It opens below the button unless there is more room above, lined up with the button's right edge.
+  const spaceBelow = window.innerHeight - anchor.bottom - ANCHOR_GAP - VIEWPORT_MARGIN;
+  const spaceAbove = anchor.top - ANCHOR_GAP - VIEWPORT_MARGIN;
+  const opensBelow = spaceBelow >= COMFORTABLE_HEIGHT || spaceBelow >= spaceAbove;
+  const position: React.CSSProperties = {
+    left: Math.max(VIEWPORT_MARGIN, Math.min(anchor.right - MENU_WIDTH, window.innerWidth - MENU_WIDTH - VIEWPORT_MARGIN)),
+    width: MENU_WIDTH,
+    maxHeight: opensBelow ? spaceBelow : spaceAbove,
+    ...(opensBelow ? { top: anchor.bottom + ANCHOR_GAP } : { bottom: window.innerHeight - anchor.top + ANCHOR_GAP }),
+  };
+
+  return createPortal(
+    <>
+      {/* Clicking anywhere outside the menu closes it. */}
+      <div className="fixed inset-0 z-50" onClick={onClose} />
+      <div style={position} className="fixed z-50 overflow-y-auto bg-white rounded-lg shadow-xl border border-gray-200 p-3 text-sm text-gray-700 space-y-3">
+        <form onSubmit={handleRename} className="flex gap-1">
+          <input
+            value={name}
+            onChange={e => setName(e.target.value)}
+            onBlur={handleRename}
+            className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-gray-800"
+            aria-label="Garment name"
+          />
+        </form>
+        <button
+          onClick={() => onUpdate({ favorite: !item.favorite })}
+          className="w-full flex items-center gap-2 px-1 py-1 rounded-md hover:bg-gray-100"
+        >
+          <StarIcon className="w-4 h-4" fill={item.favorite ? 'currentColor' : 'none'} />
+          {item.favorite ? 'Remove from favorites' : 'Add to favorites'}
+        </button>
+        <button onClick={onCrop} className="w-full flex items-center gap-2 px-1 py-1 rounded-md hover:bg-gray-100">
+          <CropIcon className="w-4 h-4" />
+          {item.crop ? 'Edit crop' : 'Crop & straighten'}
+        </button>
+        <button onClick={onCreateVariant} className="w-full flex items-center gap-2 px-1 py-1 rounded-md hover:bg-gray-100">
+          <PaletteIcon className="w-4 h-4" />
+          Create color or fabric variant
+        </button>
+        <button onClick={onEditViews} className="w-full flex items-center gap-2 px-1 py-1 rounded-md hover:bg-gray-100">
+          <ShirtIcon className="w-4 h-4" />
+          {item.backUrl || item.detailUrl ? 'Edit back & detail photos' : 'Add back & detail photos'}
+        </button>
+        <button onClick={onEditSize} className="w-full flex items-center gap-2 px-1 py-1 rounded-md hover:bg-gray-100">
+          <RulerIcon className="w-4 h-4" />
+          {item.selectedSize ? `Size & fit (${item.selectedSize})` : 'Size & fit'}
+        </button>
+        <div>
+          <p className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-1 px-1">Collections</p>
+          {collections.map(collection => (
+            <label key={collection.id} className="flex items-center gap-2 px-1 py-0.5 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={collectionIds.includes(collection.id)}
+                onChange={() => toggleCollection(collection.id)}
+                className="rounded border-gray-300 text-gray-800 focus:ring-gray-800"
+              />
+              <span className="truncate">{collection.name}</span>
+            </label>
+          ))}
+          <form onSubmit={handleCreateCollection} className="flex gap-1 mt-1">
+            <input
+              value={newCollectionName}
+              onChange={e => setNewCollectionName(e.target.value)}
+              placeholder="New collection"
+              className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-gray-800"
+            />
+            <button type="submit" disabled={!newCollectionName.trim()} className="p-1 rounded-md text-gray-600 hover:bg-gray-100 disabled:opacity-40" aria-label="Create collection">
+              <PlusIcon className="w-4 h-4" />
+            </button>
+          </form>
+        </div>
+        {isConfirmingDelete ? (
+          <div className="flex gap-1">
+            <button onClick={onDelete} className="flex-1 px-2 py-1 font-semibold text-white bg-red-600 rounded-md hover:bg-red-700">
+              Delete
+            </button>
+            <button onClick={() => setIsConfirmingDelete(false)} className="flex-1 px-2 py-1 font-semibold border border-gray-300 rounded-md hover:bg-gray-100">
+              Keep
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => setIsConfirmingDelete(true)}
+            className="w-full flex items-center gap-2 px-1 py-1 rounded-md text-red-600 hover:bg-red-50"
+          >
+            <Trash2Icon className="w-4 h-4" />
+            Delete from wardrobe
+          </button>
+        )}
+      </div>
+    </>,
+    document.body
+  );
+};
+
+export default WardrobeItemMenu;
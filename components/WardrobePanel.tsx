@@ -2,28 +2,145 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState } from 'react';
-import type { WardrobeItem } from '../types';
-import { UploadCloudIcon, CheckCircleIcon } from './icons';
-import { urlToFile } from '../lib/utils';
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { AnimatePresence } from 'framer-motion';
+import type { GarmentUpload, WardrobeCollection, WardrobeItem } from '../types';
+import { UploadCloudIcon, CheckCircleIcon, Wand2Icon, DotsVerticalIcon, StarIcon } from './icons';
+import WardrobeItemMenu from './WardrobeItemMenu';
+import WardrobeGrid from './WardrobeGrid';
+import FilterChip from './FilterChip';
+import UploadQueue from './UploadQueue';
+import GarmentImage from './GarmentImage';
+import GarmentVariantModal from './GarmentVariantModal';
+import { cn, urlToFile } from '../lib/utils';
+import { describeGarmentTags, GARMENT_CATEGORY_LABELS } from '../services/garmentTagging';
+import { GarmentVariantChange, MAX_OUTFIT_GARMENTS } from '../services/geminiService';
+import { collapseVariantGroups, getVariantGroup, getVariantGroupId } from '../services/garmentVariants';
+import { GARMENT_FILE_ACCEPT } from '../services/garmentUpload';
+import { EMPTY_WARDROBE_QUERY, getWardrobeCategories, getWardrobeColors, queryWardrobe, WARDROBE_SORT_LABELS, WardrobeQuery, WardrobeSort } from '../services/wardrobeSearch';
 
 interface WardrobePanelProps {
   onGarmentSelect: (garmentFile: File, garmentInfo: WardrobeItem) => void;
+  // Queues files to be isolated from their background and added to the wardrobe (not tried on).
+  onGarmentUpload: (garmentFiles: File[]) => void;
+  uploads: GarmentUpload[];
+  onDismissUpload: (id: string) => void;
+  onMergeUpload: (id: string) => void;
+  onAddDuplicateUpload: (id: string) => void;
+  onClearFinishedUploads: () => void;
+  onReviewIsolation: (item: WardrobeItem) => void;
+  // Opens the crop and straighten editor for the item.
+  onCropItem: (item: WardrobeItem) => void;
+  // Opens the item's back and detail reference photos.
+  onEditViews: (item: WardrobeItem) => void;
+  // Opens the item's size chart and selected size.
+  onEditSize: (item: WardrobeItem) => void;
+  // Generates a color or fabric variant of the item and adds it to the wardrobe.
+  onCreateVariant: (item: WardrobeItem, change: GarmentVariantChange, signal: AbortSignal) => Promise<WardrobeItem>;
+  // Tries several garments on together, in the order they were picked.
+  onApplyOutfit: (garments: WardrobeItem[]) => void;
   activeGarmentIds: string[];
   isLoading: boolean;
   wardrobe: WardrobeItem[];
+  collections: WardrobeCollection[];
+  onUpdateItem: (id: string, changes: Partial<Pick<WardrobeItem, 'name' | 'favorite' | 'collectionIds'>>) => void;
+  onDeleteItem: (id: string) => void;
+  onCreateCollection: (name: string) => WardrobeCollection;
+  // Deleting a collection keeps its garments in the wardrobe.
+  onDeleteCollection: (id: string) => void;
+  // 'panel' sits in the sidebar; 'sheet' fills the mobile wardrobe sheet.
+  layout?: 'panel' | 'sheet';
 }
 
-const WardrobePanel: React.FC<WardrobePanelProps> = ({ onGarmentSelect, activeGarmentIds, isLoading, wardrobe }) => {
+const WardrobePanel: React.FC<WardrobePanelProps> = ({
+    onGarmentSelect,
+    onGarmentUpload,
+    uploads,
+    onDismissUpload,
+    onMergeUpload,
+    onAddDuplicateUpload,
+    onClearFinishedUploads,
+    onReviewIsolation,
+    onCropItem,
+    onEditViews,
+    onEditSize,
+    onCreateVariant,
+    onApplyOutfit,
+    activeGarmentIds,
+    isLoading,
+    wardrobe,
+    collections,
+    onUpdateItem,
+    onDeleteItem,
+    onCreateCollection,
+    onDeleteCollection,
+    layout = 'panel',
+}) => {
     const [error, setError] = useState<string | null>(null);
+    const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+    // dragenter/dragleave also fire for every child the pointer crosses; count them to know when it has left.
+    const dragDepthRef = useRef(0);
+    const [query, setQuery] = useState<WardrobeQuery>(EMPTY_WARDROBE_QUERY);
+    // The item whose menu is open, and the button it was opened from.
+    const [menu, setMenu] = useState<{ itemId: string; anchor: DOMRect } | null>(null);
+    // While building an outfit, clicks pick garments instead of trying them on one by one.
+    const [outfitSelection, setOutfitSelection] = useState<string[] | null>(null);
+    const menuItem = menu ? wardrobe.find(item => item.id === menu.itemId) : undefined;
+    const closeMenu = useCallback(() => setMenu(null), []);
+    const [variantItemId, setVariantItemId] = useState<string | null>(null);
+    const variantItem = wardrobe.find(item => item.id === variantItemId);
+    // The variant each card shows, by variant group; cards show their first match otherwise.
+    const [shownVariantIds, setShownVariantIds] = useState<Record<string, string>>({});
+    const columns = layout === 'sheet' ? 4 : 3;
+
+    const categories = useMemo(() => getWardrobeCategories(wardrobe), [wardrobe]);
+    const colors = useMemo(() => getWardrobeColors(wardrobe), [wardrobe]);
+    // A deleted collection stops filtering rather than leaving an empty, unexplained wardrobe.
+    const effectiveQuery = useMemo(
+        () => query.collection && query.collection !== 'favorites' && !collections.some(c => c.id === query.collection) ? { ...query, collection: null } : query,
+        [query, collections]
+    );
+    const shownItems = useMemo(() => queryWardrobe(wardrobe, effectiveQuery), [wardrobe, effectiveQuery]);
+    // Variants of a garment share one card, which shows the chosen variant if it matches the query.
+    const shownCards = useMemo(() => {
+        const matchedIds = new Set(shownItems.map(item => item.id));
+        return collapseVariantGroups(shownItems).map(item => {
+            const chosenId = shownVariantIds[getVariantGroupId(item)];
+            return (chosenId && matchedIds.has(chosenId) && wardrobe.find(other => other.id === chosenId)) || item;
+        });
+    }, [shownItems, shownVariantIds, wardrobe]);
+    const isFiltered = !!(effectiveQuery.search.trim() || effectiveQuery.category || effectiveQuery.color || effectiveQuery.collection);
+
+    // Chips toggle: choosing the active one again clears that filter.
+    const toggleFilter = <K extends 'category' | 'color' | 'collection'>(key: K, value: WardrobeQuery[K]) => {
+        setQuery(prev => ({ ...prev, [key]: effectiveQuery[key] === value ? null : value }));
+    };
+
+    const toggleOutfitGarment = (item: WardrobeItem) => {
+        setOutfitSelection(prev => {
+            if (!prev) return prev;
+            if (prev.includes(item.id)) return prev.filter(id => id !== item.id);
+            return prev.length < MAX_OUTFIT_GARMENTS ? [...prev, item.id] : prev;
+        });
+    };
+
+    const handleApplyOutfit = () => {
+        if (!outfitSelection || outfitSelection.length === 0) return;
+        onApplyOutfit(outfitSelection.map(id => wardrobe.find(item => item.id === id)).filter(Boolean) as WardrobeItem[]);
+        setOutfitSelection(null);
+    };
 
     const handleGarmentClick = async (item: WardrobeItem) => {
         if (isLoading || activeGarmentIds.includes(item.id)) return;
+        if (outfitSelection) {
+            toggleOutfitGarment(item);
+            return;
+        }
         setError(null);
         try {
             // If the item was from an upload, its URL is a blob URL. We need to fetch it to create a file.
             // If it was a default item, it's a regular URL. This handles both.
-            const file = await urlToFile(item.url, item.name);
+            const file = await urlToFile(item.url, item.name, item.crop);
             onGarmentSelect(file, item);
         } catch (err) {
             const detailedError = `Failed to load wardrobe item. This is often a CORS issue. Check the developer console for details.`;
@@ -33,59 +150,302 @@ const WardrobePanel: React.FC<WardrobePanelProps> = ({ onGarmentSelect, activeGa
     };
 
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        if (e.target.files && e.target.files[0]) {
-            const file = e.target.files[0];
-            if (!file.type.startsWith('image/')) {
-                setError('Please select an image file.');
-                return;
-            }
-            const customGarmentInfo: WardrobeItem = {
-                id: `custom-${Date.now()}`,
-                name: file.name,
-                url: URL.createObjectURL(file),
-            };
-            onGarmentSelect(file, customGarmentInfo);
+        if (e.target.files && e.target.files.length > 0) {
+            setError(null);
+            onGarmentUpload(Array.from(e.target.files));
+            // Allow uploading the same files again.
+            e.target.value = '';
         }
     };
 
+    const isFileDrag = (e: React.DragEvent) => e.dataTransfer.types.includes('Files');
+
+    const handleDragEnter = (e: React.DragEvent) => {
+        if (!isFileDrag(e)) return;
+        e.preventDefault();
+        dragDepthRef.current++;
+        setIsDraggingFiles(true);
+    };
+
+    const handleDragLeave = (e: React.DragEvent) => {
+        if (!isFileDrag(e)) return;
+        dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+        if (dragDepthRef.current === 0) setIsDraggingFiles(false);
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        if (!isFileDrag(e)) return;
+        e.preventDefault();
+        dragDepthRef.current = 0;
+        setIsDraggingFiles(false);
+        setError(null);
+        onGarmentUpload(Array.from(e.dataTransfer.files));
+    };
+
+    const renderGarment = (item: WardrobeItem) => {
+        const isActive = activeGarmentIds.includes(item.id);
+        const selectionIndex = outfitSelection?.indexOf(item.id) ?? -1;
+        const variants = item.variantOf || wardrobe.some(other => other.variantOf === item.id) ? getVariantGroup(wardrobe, item) : [];
+        return (
+            <div key={item.id} className="relative aspect-square group">
+            <button
+            onClick={() => handleGarmentClick(item)}
+            disabled={isLoading || isActive}
+            className={cn(
+                'relative w-full h-full border rounded-lg overflow-hidden transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-800 disabled:opacity-60 disabled:cursor-not-allowed',
+                selectionIndex >= 0 && 'ring-2 ring-offset-2 ring-gray-800'
+            )}
+            aria-label={outfitSelection ? `Add ${item.name} to the outfit` : `Select ${item.name}`}
+            aria-pressed={outfitSelection ? selectionIndex >= 0 : undefined}
+            title={item.category ? `${item.name}\n${describeGarmentTags(item)}` : item.name}
+            >
+            <GarmentImage item={item} className="w-full h-full object-cover" />
+            <div className="absolute inset-0 bg-black/40 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
+                <p className="text-white text-xs font-bold text-center p-1">{item.name}</p>
+            </div>
+            {isActive && (
+                <div className="absolute inset-0 bg-gray-900/70 flex items-center justify-center">
+                    <CheckCircleIcon className="w-8 h-8 text-white" />
+                </div>
+            )}
+            {item.favorite && (
+                <StarIcon className="absolute bottom-1 left-1 w-4 h-4 text-amber-400 drop-shadow" fill="currentColor" />
+            )}
+            {selectionIndex >= 0 && (
+                <span className="absolute bottom-1 right-1 flex items-center justify-center w-6 h-6 text-xs font-bold text-white bg-gray-800 rounded-full">
+                    {selectionIndex + 1}
+                </span>
+            )}
+            </button>
+            {variants.length > 1 && (
+                <div className="absolute bottom-1 inset-x-6 flex justify-center gap-1 overflow-hidden">
+                    {variants.map(variant => (
+                        <button
+                            key={variant.id}
+                            onClick={() => setShownVariantIds(prev => ({ ...prev, [getVariantGroupId(item)]: variant.id }))}
+                            className={cn(
+                                'flex-shrink-0 w-4 h-4 rounded-full overflow-hidden border bg-white',
+                                variant.id === item.id ? 'border-gray-800 ring-1 ring-white' : 'border-white/80 hover:border-gray-500'
+                            )}
+                            aria-label={`Show ${item.name} in ${variant.variantLabel ?? 'its original version'}`}
+                            aria-pressed={variant.id === item.id}
+                            title={variant.variantLabel ?? 'Original'}
+                        >
+                            <GarmentImage item={variant} className="w-full h-full object-cover" />
+                        </button>
+                    ))}
+                </div>
+            )}
+            {item.isolatedUrl && item.originalUrl && (
+                <button
+                    onClick={() => onReviewIsolation(item)}
+                    disabled={isLoading}
+                    className="absolute top-1 left-1 p-1 bg-white/80 rounded-full text-gray-700 hover:bg-white opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity disabled:hidden"
+                    aria-label={`Compare ${item.name} with its original photo`}
+                    title="Compare with original photo"
+                >
+                    <Wand2Icon className="w-3.5 h-3.5" />
+                </button>
+            )}
+            <button
+                onClick={e => setMenu({ itemId: item.id, anchor: e.currentTarget.getBoundingClientRect() })}
+                className={cn(
+                    'absolute top-1 right-1 p-1 bg-white/80 rounded-full text-gray-700 hover:bg-white group-hover:opacity-100 focus:opacity-100 transition-opacity',
+                    menu?.itemId === item.id ? 'opacity-100' : 'opacity-0'
+                )}
+                aria-label={`Manage ${item.name}`}
+                title="Rename, favorite, collections, crop, delete"
+            >
+                <DotsVerticalIcon className="w-3.5 h-3.5" />
+            </button>
+            {menu && menuItem?.id === item.id && (
+                <WardrobeItemMenu
+                    item={menuItem}
+                    collections={collections}
+                    onUpdate={changes => onUpdateItem(item.id, changes)}
+                    onCreateCollection={onCreateCollection}
+                    onCrop={() => {
+                        setMenu(null);
+                        onCropItem(item);
+                    }}
+                    onCreateVariant={() => {
+                        setMenu(null);
+                        setVariantItemId(item.id);
+                    }}
+                    onEditViews={() => {
+                        setMenu(null);
+                        onEditViews(item);
+                    }}
+                    onEditSize={() => {
+                        setMenu(null);
+                        onEditSize(item);
+                    }}
+                    onDelete={() => {
+                        setMenu(null);
+                        onDeleteItem(item.id);
+                    }}
+                    onClose={closeMenu}
+                    anchor={menu.anchor}
+                />
+            )}
+            </div>
+        );
+    };
+
+    // The upload tile comes first so it stays within reach in a large wardrobe.
+    const renderCell = (cellIndex: number) => cellIndex === 0 ? (
+        <label
+            key="upload"
+            htmlFor={`custom-garment-upload-${layout}`}
+            className="relative aspect-square border-2 border-dashed rounded-lg flex flex-col items-center justify-center text-gray-500 transition-colors hover:border-gray-400 hover:text-gray-600 cursor-pointer"
+            title="Choose photos, drop them on the wardrobe, or paste them"
+        >
+            <UploadCloudIcon className="w-6 h-6 mb-1"/>
+            <span className="text-xs text-center">Upload</span>
+            <input id={`custom-garment-upload-${layout}`} type="file" multiple className="hidden" accept={GARMENT_FILE_ACCEPT} onChange={handleFileChange}/>
+        </label>
+    ) : renderGarment(shownCards[cellIndex - 1]);
+
   return (
-    <div className="pt-6 border-t border-gray-400/50">
-        <h2 className="text-xl font-serif tracking-wider text-gray-800 mb-3">Wardrobe</h2>
-        <div className="grid grid-cols-3 gap-3">
-            {wardrobe.map((item) => {
-            const isActive = activeGarmentIds.includes(item.id);
-            return (
+    <div
+        className={cn('relative', layout === 'sheet' ? 'flex flex-col h-full min-h-0' : 'pt-6 border-t border-gray-400/50')}
+        onDragEnter={handleDragEnter}
+        onDragOver={e => isFileDrag(e) && e.preventDefault()}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+    >
+        {isDraggingFiles && (
+            <div className="absolute inset-0 z-10 flex flex-col items-center justify-center border-2 border-dashed border-gray-800 rounded-lg bg-white/90 text-gray-700 pointer-events-none">
+                <UploadCloudIcon className="w-8 h-8 mb-2" />
+                <p className="text-sm font-semibold">Drop photos to add them to your wardrobe</p>
+            </div>
+        )}
+        <div className="flex items-baseline justify-between mb-3">
+            <h2 className="text-xl font-serif tracking-wider text-gray-800">Wardrobe</h2>
+            {wardrobe.length > 1 && (
                 <button
-                key={item.id}
-                onClick={() => handleGarmentClick(item)}
-                disabled={isLoading || isActive}
-                className="relative aspect-square border rounded-lg overflow-hidden transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-800 group disabled:opacity-60 disabled:cursor-not-allowed"
-                aria-label={`Select ${item.name}`}
+                    onClick={() => setOutfitSelection(prev => prev ? null : [])}
+                    disabled={isLoading}
+                    className="text-sm font-semibold text-gray-600 hover:text-gray-800 hover:underline disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                <img src={item.url} alt={item.name} className="w-full h-full object-cover" />
-                <div className="absolute inset-0 bg-black/40 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
-                    <p className="text-white text-xs font-bold text-center p-1">{item.name}</p>
+                    {outfitSelection ? 'Cancel' : 'Build outfit'}
+                </button>
+            )}
+        </div>
+        {wardrobe.length > 0 && (
+            <div className="space-y-2 mb-3">
+                <div className="flex gap-2">
+                    <input
+                        type="search"
+                        value={query.search}
+                        onChange={e => setQuery(prev => ({ ...prev, search: e.target.value }))}
+                        placeholder="Search name, color, material..."
+                        className="flex-1 min-w-0 px-3 py-1.5 text-sm bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-gray-800"
+                        aria-label="Search the wardrobe"
+                    />
+                    <select
+                        value={query.sort}
+                        onChange={e => setQuery(prev => ({ ...prev, sort: e.target.value as WardrobeSort }))}
+                        className="px-2 py-1.5 text-sm bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-gray-800"
+                        aria-label="Sort the wardrobe"
+                    >
+                        {(Object.keys(WARDROBE_SORT_LABELS) as WardrobeSort[]).map(sort => (
+                            <option key={sort} value={sort}>{WARDROBE_SORT_LABELS[sort]}</option>
+                        ))}
+                    </select>
                 </div>
-                {isActive && (
-                    <div className="absolute inset-0 bg-gray-900/70 flex items-center justify-center">
-                        <CheckCircleIcon className="w-8 h-8 text-white" />
+                {(collections.length > 0 || wardrobe.some(item => item.favorite)) && (
+                    <div className="flex flex-wrap gap-1.5">
+                        <FilterChip label="★ Favorites" isActive={effectiveQuery.collection === 'favorites'} onClick={() => toggleFilter('collection', 'favorites')} />
+                        {collections.map(collection => (
+                            <FilterChip
+                                key={collection.id}
+                                label={collection.name}
+                                isActive={effectiveQuery.collection === collection.id}
+                                onClick={() => toggleFilter('collection', collection.id)}
+                                onDelete={() => onDeleteCollection(collection.id)}
+                                deleteLabel={`Delete collection ${collection.name} (its garments stay in the wardrobe)`}
+                            />
+                        ))}
                     </div>
                 )}
-                </button>
-            );
-            })}
-            <label htmlFor="custom-garment-upload" className={`relative aspect-square border-2 border-dashed rounded-lg flex flex-col items-center justify-center text-gray-500 transition-colors ${isLoading ? 'cursor-not-allowed bg-gray-100' : 'hover:border-gray-400 hover:text-gray-600 cursor-pointer'}`}>
-                <UploadCloudIcon className="w-6 h-6 mb-1"/>
-                <span className="text-xs text-center">Upload</span>
-                <input id="custom-garment-upload" type="file" className="hidden" accept="image/png, image/jpeg, image/webp, image/avif, image/heic, image/heif" onChange={handleFileChange} disabled={isLoading}/>
-            </label>
-        </div>
+                {categories.length > 1 && (
+                    <div className="flex flex-wrap gap-1.5">
+                        {categories.map(category => (
+                            <FilterChip key={category} label={GARMENT_CATEGORY_LABELS[category]} isActive={effectiveQuery.category === category} onClick={() => toggleFilter('category', category)} />
+                        ))}
+                    </div>
+                )}
+                {colors.length > 1 && (
+                    <div className="flex flex-wrap gap-1.5">
+                        {colors.map(color => (
+                            <FilterChip key={color} label={color} isActive={effectiveQuery.color === color} onClick={() => toggleFilter('color', color)} />
+                        ))}
+                    </div>
+                )}
+                {isFiltered && (
+                    <p className="text-xs text-gray-500">
+                        {shownItems.length} of {wardrobe.length} garments{' '}
+                        <button onClick={() => setQuery(prev => ({ ...EMPTY_WARDROBE_QUERY, sort: prev.sort }))} className="font-semibold text-gray-600 hover:underline">
+                            Clear filters
+                        </button>
+                    </p>
+                )}
+            </div>
+        )}
+        {uploads.length > 0 && (
+            <UploadQueue
+                uploads={uploads}
+                wardrobe={wardrobe}
+                isLoading={isLoading}
+                onTryOn={handleGarmentClick}
+                onReviewIsolation={onReviewIsolation}
+                onCrop={onCropItem}
+                onMerge={onMergeUpload}
+                onAddDuplicate={onAddDuplicateUpload}
+                onDismiss={onDismissUpload}
+                onClearFinished={onClearFinishedUploads}
+            />
+        )}
+        {outfitSelection && (
+            <p className="text-sm text-gray-600 mb-3">Pick up to {MAX_OUTFIT_GARMENTS} garments, in the order they should be layered, and try them on together.</p>
+        )}
+        <WardrobeGrid
+            cellCount={shownCards.length + 1}
+            columns={columns}
+            renderCell={renderCell}
+            className={cn('-m-1', layout === 'sheet' ? 'flex-1 min-h-0' : 'max-h-[30rem]')}
+        />
+        <AnimatePresence>
+            {variantItem && (
+                <GarmentVariantModal
+                    item={variantItem}
+                    onGenerate={async (change, signal) => {
+                        const variant = await onCreateVariant(variantItem, change, signal);
+                        setShownVariantIds(prev => ({ ...prev, [getVariantGroupId(variant)]: variant.id }));
+                    }}
+                    onClose={() => setVariantItemId(null)}
+                />
+            )}
+        </AnimatePresence>
+        {outfitSelection && (
+            <button
+                onClick={handleApplyOutfit}
+                disabled={isLoading || outfitSelection.length === 0}
+                className="w-full mt-3 px-4 py-2 bg-gray-800 text-white font-semibold rounded-md hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+                {outfitSelection.length > 1 ? `Try On ${outfitSelection.length} Together` : 'Try On'}
+            </button>
+        )}
         {wardrobe.length === 0 && (
-             <p className="text-center text-sm text-gray-500 mt-4">Your uploaded garments will appear here.</p>
+             <p className="text-center text-sm text-gray-500 mt-4">Your uploaded garments will appear here. Choose several photos at once, drop them here, or paste them.</p>
+        )}
+        {wardrobe.length > 0 && shownItems.length === 0 && (
+             <p className="text-center text-sm text-gray-500 mt-4">No garments match. Try another search or clear the filters.</p>
         )}
         {error && <p className="text-red-500 text-sm mt-4">{error}</p>}
     </div>
   );
 };
 
-export default WardrobePanel;
\ No newline at end of file
+export default WardrobePanel;
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Minimal promise wrappers around IndexedDB, shared by the app's persistent stores.
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+/**
+ * Opens (and caches the connection to) a database. `upgrade` runs when the
+ * database is created or `version` increases, and receives the previous version.
+ */
+export const createDatabase = (name: string, version: number, upgrade: (db: IDBDatabase, oldVersion: number) => void) => {
+    let connection: Promise<IDBDatabase> | null = null;
+    return (): Promise<IDBDatabase> => {
+        if (!connection) {
+            connection = new Promise<IDBDatabase>((resolve, reject) => {
+                if (typeof indexedDB === 'undefined') {
+                    return reject(new Error('IndexedDB is not available in this environment.'));
+                }
+                const request = indexedDB.open(name, version);
+                request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            }).catch(error => {
+                // Allow a later call to try again.
+                connection = null;
+                throw error;
+            });
+        }
+        return connection;
+    };
+};
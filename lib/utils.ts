@@ -4,27 +4,80 @@
 */
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
+import {
+    AbortedError,
+    GenerationErrorKind,
+    InvalidInputError,
+    NetworkError,
+    NoImageReturnedError,
+    RateLimitedError,
+    SafetyBlockedError,
+} from "../services/errors";
+import type { ImageCrop } from "../types";
  
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+/**
+ * Draws `image` with a crop applied: rotated about its center, then cut to the crop rectangle.
+ * The result is scaled down to fit `maxDimension`, e.g. for previews.
+ */
+export const drawCroppedImage = (image: HTMLImageElement, crop: ImageCrop, maxDimension = Infinity): HTMLCanvasElement => {
+    const radians = crop.rotation * Math.PI / 180;
+    const width = image.naturalWidth;
+    const height = image.naturalHeight;
+    const rotatedWidth = width * Math.abs(Math.cos(radians)) + height * Math.abs(Math.sin(radians));
+    const rotatedHeight = width * Math.abs(Math.sin(radians)) + height * Math.abs(Math.cos(radians));
+    const cropWidth = crop.width / 100 * rotatedWidth;
+    const cropHeight = crop.height / 100 * rotatedHeight;
+    const scale = Math.min(1, maxDimension / Math.max(cropWidth, cropHeight));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(cropWidth * scale));
+    canvas.height = Math.max(1, Math.round(cropHeight * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context.');
+    }
+    // Straightening leaves empty corners; garment photos are shot on white, so fill them with it.
+    if (crop.rotation % 90 !== 0) {
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    ctx.scale(scale, scale);
+    ctx.translate(rotatedWidth / 2 - crop.x / 100 * rotatedWidth, rotatedHeight / 2 - crop.y / 100 * rotatedHeight);
+    ctx.rotate(radians);
+    ctx.drawImage(image, -width / 2, -height / 2);
+    return canvas;
+};
+
 // Helper to convert image URL to a File object using a canvas to bypass potential CORS issues.
-export const urlToFile = (url: string, filename: string): Promise<File> => {
+// With a crop, the file holds the cropped image, so generations never see what was cropped away.
+export const urlToFile = (url: string, filename: string, crop?: ImageCrop): Promise<File> => {
     return new Promise((resolve, reject) => {
         const image = new Image();
         image.setAttribute('crossOrigin', 'anonymous');
 
         image.onload = () => {
-            const canvas = document.createElement('canvas');
-            canvas.width = image.naturalWidth;
-            canvas.height = image.naturalHeight;
-
-            const ctx = canvas.getContext('2d');
-            if (!ctx) {
-                return reject(new Error('Could not get canvas context.'));
+            let canvas: HTMLCanvasElement;
+            if (crop) {
+                try {
+                    canvas = drawCroppedImage(image, crop);
+                } catch (err) {
+                    return reject(err);
+                }
+            } else {
+                canvas = document.createElement('canvas');
+                canvas.width = image.naturalWidth;
+                canvas.height = image.naturalHeight;
+
+                const ctx = canvas.getContext('2d');
+                if (!ctx) {
+                    return reject(new Error('Could not get canvas context.'));
+                }
+                ctx.drawImage(image, 0, 0);
             }
-            ctx.drawImage(image, 0, 0);
 
             canvas.toBlob((blob) => {
                 if (!blob) {
@@ -44,7 +97,103 @@ export const urlToFile = (url: string, filename: string): Promise<File> => {
     });
 };
 
-export function getFriendlyErrorMessage(error: unknown, context: string): string {
+export const fileToDataUrl = (file: File): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(new Error(`Could not read the file "${file.name}".`));
+        reader.readAsDataURL(file);
+    });
+};
+
+// True for the rejection produced when a generation is cancelled through its AbortSignal.
+export const isAbortError = (error: unknown): boolean => {
+    return error instanceof AbortedError || (error instanceof Error && error.name === 'AbortError');
+};
+
+export interface FriendlyError {
+    // Drives the styling of the alert; matches GenerationError.kind, or 'unknown'.
+    kind: GenerationErrorKind | 'unknown';
+    title: string;
+    message: string;
+    // What the user can do about it.
+    remediation?: string;
+}
+
+const describeUnsupportedMimeType = (rawMessage: string): string => {
+    try {
+        // It might be a JSON string like '{"error":{"message":"..."}}'
+        const errorJson = JSON.parse(rawMessage);
+        const nestedMessage = errorJson?.error?.message;
+        if (typeof nestedMessage === 'string' && nestedMessage.includes("Unsupported MIME type")) {
+            const mimeType = nestedMessage.split(': ')[1] || 'unsupported';
+            return `File type '${mimeType}' is not supported.`;
+        }
+    } catch (e) {
+        // Not a JSON string, but contains the text. Fallthrough to generic message.
+    }
+    // Generic fallback for any "Unsupported MIME type" error
+    return `Unsupported file format.`;
+};
+
+/**
+ * Turns an error from the generation service layer into a title, message and remediation
+ * suited to the UI. `context` describes what the user was trying to do, e.g. "Failed to apply garment".
+ */
+export function describeError(error: unknown, context: string): FriendlyError {
+    if (error instanceof SafetyBlockedError) {
+        return {
+            kind: error.kind,
+            title: 'Blocked by safety filters',
+            message: `${context}. The request was blocked (${error.blockReason}).`,
+            remediation: 'Try a different photo or garment, or rephrase your instruction to avoid sensitive content.',
+        };
+    }
+    if (error instanceof NoImageReturnedError) {
+        return {
+            kind: error.kind,
+            title: 'No image was returned',
+            message: error.modelText ? `${context}. The model responded: "${error.modelText}"` : `${context}. The AI model did not return an image.`,
+            remediation: 'Regenerate to try again, or simplify the request. Clear, well-lit photos give the best results.',
+        };
+    }
+    if (error instanceof RateLimitedError) {
+        const wait = error.retryAfterMs ? ` in about ${Math.ceil(error.retryAfterMs / 1000)} seconds` : ' in a minute';
+        return {
+            kind: error.kind,
+            title: 'Too many requests',
+            message: `${context}. ${error.message}`,
+            remediation: `We retried automatically without success. Please wait and try again${wait}.`,
+        };
+    }
+    if (error instanceof NetworkError) {
+        return {
+            kind: error.kind,
+            title: 'Connection problem',
+            message: `${context}. ${error.message}`,
+            remediation: 'Check your internet connection and try again.',
+        };
+    }
+    if (error instanceof InvalidInputError) {
+        if (error.message.includes("Unsupported MIME type")) {
+            return {
+                kind: error.kind,
+                title: 'Unsupported file',
+                message: describeUnsupportedMimeType(error.message),
+                remediation: 'Please upload an image format like PNG, JPEG, or WEBP.',
+            };
+        }
+        return {
+            kind: error.kind,
+            title: 'Invalid input',
+            message: `${context}. ${error.message}`,
+            remediation: 'Please try a different image.',
+        };
+    }
+    if (error instanceof AbortedError) {
+        return { kind: error.kind, title: 'Cancelled', message: `${context}. ${error.message}` };
+    }
+
     let rawMessage = 'An unknown error occurred.';
     if (error instanceof Error) {
         rawMessage = error.message;
@@ -56,79 +205,21 @@ export function getFriendlyErrorMessage(error: unknown, context: string): string
 
     // Check for specific unsupported MIME type error from Gemini API
     if (rawMessage.includes("Unsupported MIME type")) {
-        try {
-            // It might be a JSON string like '{"error":{"message":"..."}}'
-            const errorJson = JSON.parse(rawMessage);
-            const nestedMessage = errorJson?.error?.message;
-            if (typeof nestedMessage === 'string' && nestedMessage.includes("Unsupported MIME type")) {
-                const mimeType = nestedMessage.split(': ')[1] || 'unsupported';
-                return `File type '${mimeType}' is not supported. Please use a format like PNG, JPEG, or WEBP.`;
-            }
-        } catch (e) {
-            // Not a JSON string, but contains the text. Fallthrough to generic message.
-        }
-        // Generic fallback for any "Unsupported MIME type" error
-        return `Unsupported file format. Please upload an image format like PNG, JPEG, or WEBP.`;
+        return {
+            kind: 'invalid-input',
+            title: 'Unsupported file',
+            message: describeUnsupportedMimeType(rawMessage),
+            remediation: 'Please upload an image format like PNG, JPEG, or WEBP.',
+        };
     }
-    
-    return `${context}. ${rawMessage}`;
+
+    return { kind: 'unknown', title: 'Error', message: `${context}. ${rawMessage}` };
 }
 
-/**
- * Adds a "Virtual U AR" watermark to the bottom right of an image.
- * @param imageUrl The data URL of the image to watermark.
- * @returns A promise that resolves with the data URL of the watermarked image.
- */
-export const addWatermark = (imageUrl: string): Promise<string> => {
-  return new Promise((resolve) => {
-    const image = new Image();
-    image.onload = () => {
-      const canvas = document.createElement('canvas');
-      canvas.width = image.naturalWidth;
-      canvas.height = image.naturalHeight;
-
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        // Return original image if canvas context is not available
-        console.error('Could not get canvas context for watermarking.');
-        return resolve(imageUrl);
-      }
-
-      // Draw the original image
-      ctx.drawImage(image, 0, 0);
-
-      // --- Watermark styling ---
-      const watermarkText = "Virtual U AR";
-      // Make font size responsive to image width, with min/max caps
-      const baseFontSize = Math.max(18, Math.min(60, canvas.width / 40));
-      ctx.font = `600 ${baseFontSize}px Inter, sans-serif`;
-      ctx.fillStyle = 'rgba(255, 255, 255, 0.75)'; // White with some transparency
-      ctx.textAlign = 'right';
-      ctx.textBaseline = 'bottom';
-      
-      // Add a subtle shadow for better readability on any background
-      ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
-      ctx.shadowBlur = 6;
-      ctx.shadowOffsetX = 1;
-      ctx.shadowOffsetY = 2;
-
-      // Position at bottom right with some padding
-      const padding = baseFontSize * 0.8;
-      ctx.fillText(watermarkText, canvas.width - padding, canvas.height - padding);
-
-      // Resolve with the new data URL
-      resolve(canvas.toDataURL('image/png'));
-    };
-
-    image.onerror = () => {
-      // Return original image if it fails to load
-      console.error('Could not load image for watermarking.');
-      resolve(imageUrl);
-    };
-
-    image.src = imageUrl;
-  });
-};
+export function getFriendlyErrorMessage(error: unknown, context: string): string {
+    const { message, remediation } = describeError(error, context);
+    return remediation ? `${message} ${remediation}` : message;
+}
 
 /**
  * Robustly downloads media from a URL (Data URL or Remote URL).
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createHash } from "node:crypto";
+import type { ImageGenerationProvider, ImageGenerationRequest, TextGenerationRequest, VideoGenerationRequest, VideoOperationStatus } from "../services/imageProvider";
+import { InvalidInputError } from "../services/errors";
+import { fakeFromSchema } from "../services/fakeStructuredOutput";
+import { FAKE_VIDEO_MP4_BASE64 } from "./fakeVideo";
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timeout);
+        reject(signal.reason);
+    }, { once: true });
+});
+
+/**
+ * A development upstream that never calls a real model: after a simulated delay it
+ * returns the primary input image unchanged. There is no canvas on the server, so unlike
+ * the browser's fake provider it does not draw anything, but it is just as deterministic.
+ * Text requests with a response schema get a schema-shaped fake answer, and every video
+ * operation finishes with the same short placeholder clip.
+ */
+export const createFakeUpstream = (latencyMs: number): ImageGenerationProvider => {
+    // Video operations take several polls to finish, like the real long-running operation.
+    const videoDuration = latencyMs * 5;
+    const videoJobs = new Map<string, number>();
+    let nextVideoJob = 0;
+
+    return {
+        id: 'fake',
+        generateImage: async ({ images, signal }: ImageGenerationRequest) => {
+            const [primary] = images;
+            if (!primary) {
+                throw new InvalidInputError('The fake upstream needs at least one input image.');
+            }
+            if (latencyMs > 0) {
+                await wait(latencyMs, signal);
+            }
+            return `data:${primary.mimeType};base64,${primary.data}`;
+        },
+        generateText: async ({ operation, images, prompt, responseSchema, signal }: TextGenerationRequest) => {
+            const digest = createHash('sha256').update([operation, prompt, ...images.map(image => image.data)].join('|')).digest();
+            const seed = digest.readUInt32BE(0);
+            if (latencyMs > 0) {
+                await wait(latencyMs, signal);
+            }
+            return responseSchema ? JSON.stringify(fakeFromSchema(responseSchema, seed)) : `FAKE ${operation} #${seed.toString(16)}`;
+        },
+        startVideoGeneration: async ({ signal }: VideoGenerationRequest) => {
+            signal?.throwIfAborted();
+            const operationId = `fake-video-${nextVideoJob++}`;
+            videoJobs.set(operationId, Date.now());
+            return operationId;
+        },
+        getVideoOperation: async (operationId: string): Promise<VideoOperationStatus> => {
+            const startedAt = videoJobs.get(operationId);
+            if (startedAt === undefined) {
+                throw new InvalidInputError(`Unknown video operation "${operationId}".`);
+            }
+            const progress = videoDuration > 0 ? Math.min(1, (Date.now() - startedAt) / videoDuration) : 1;
+            if (progress < 1) {
+                return { done: false, progress };
+            }
+            videoJobs.delete(operationId);
+            return { done: true, progress, videoUrl: `data:video/mp4;base64,${FAKE_VIDEO_MP4_BASE64}` };
+        },
+    };
+};
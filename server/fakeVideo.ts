@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// A two-second 96×144 H.264 clip of a light band sweeping over grey: real, playable video
+// bytes for the fake upstream, which has no canvas or encoder to make one from the image.
+export const FAKE_VIDEO_MP4_BASE64 = [
+    'AAAAGGZ0eXBtcDQyAAAAAG1wNDJpc29tAAAAiGZyZWUAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+    'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+    'AAAAAAAAAAAAAAAAA0BtZGF0AAAAP2W4Ef//+HoofJuTk5OTk3JycnJycnJycnJycnJycnJycnJycnJycnJycnJycnJycnJycnJy',
+    'cnJycnJycnJyeAAAACBh4R83D/+EooABCCkaZ+eY7k5jvMd5jvMd5jvMd5jvNAAAABhh4h+CkDpMdx1MGO8x3mO8x3mO8x3mO80A',
+    'AAAVYeMfgpzHeY7zHeY7zHeY7zHeY7zQAAAAG2HkH4nwQ5fneX53l+d5fneX53l+d5fneX53lgAAAC1h5R/iYMTQZRNBlE0GUTQe',
+    'CnKd+d5TvneU753lO+d5TvneU753lO+d5TvneWAAAAAkYeYfYKYY8M5TufzvKd87ynfO8p3zvKd87ynfO8p3zvKd87ywAAAAFmHn',
+    'H4KQEx/8nm83m83m83mO5/E+d5IAAAAmYegfgh8/bhjIJ3TfkE9N+QT035BPTfkE9N+QT035BPTfkE9MX5IAAAAUYekfwExwU/y+',
+    'bzebzebzeY753kgAAAASYeoeoKf/yebzebzebzeb0d7gAAAAJGHrHoT1BTkE9HeQT0d5BPR3kE9HeQT0d5BPR3kE9HeQT0d7gAAA',
+    'ABBh7B7gp/l83m83m83m83kgAAAAEGHtHuCn/8nm83m83m83m8kAAAAkYe4e4KdQU5DvR3kO9HeQ70d5DvR3kO9HeQ70d5DvR3kO',
+    '9HeoAAAAEWHvHuJ8EP8nm83m83m83m8kAAAAEGHwHkgp/l83m83m83m83uAAAAAkYfEeSCnUFOQ70d5DvR3kO9HeQ70d5DvR3kO9',
+    'HeQ70d5DvR3wAAAAHWHyHkE+bD//D0FmTP+CnIJ5n8z+Z/M/mfzP5n9wAAAAEmHzHlgp/lYMfN5vN5vN5vN6gAAAAElluCf//+Ho',
+    'ofJuTk/+H/D+C6JM5M9k3JycnTybk5OTk6eTcnJycnTybk5OTk6eTcnJycnTybk5OTk6eTcnJycnTybk5OTk6eTeAAAALmHhH8Dx',
+    'IJ/iYMTQZRNBlE0GUTQZRPnfKJ87yifO8onzvKJ87yifO8onzvKJ874AAAAVYeIeaCnMd5jvMd5jvMd5jvMd5jvgAAAAFmHjHmgp',
+    'zHdDMd5jvMd5jvMd5jvMd8AAAALHbW9vdgAAAGxtdmhkAAAAAOb8BVjm/AVYAAFfkAACvyAAAQAAAQAAAAAAAAAAAAAAAAEAAAAA',
+    'AAAAAAAAAAAAAAABAAAAAAAAAAAAAAAAAABAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAgAAABhpb2RzAAAAABCAgIAH',
+    'AE////9//wAAAjt0cmFrAAAAXHRraGQAAAAB5vwFWOb8BVgAAAABAAAAAAACvyAAAAAAAAAAAAAAAAAAAAAAAAEAAAAAAAAAAAAA',
+    'AAAAAAABAAAAAAAAAAAAAAAAAABAAAAAAGAAAACQAAAAAAHXbWRpYQAAACBtZGhkAAAAAOb8BVjm/AVYAAFfkAACvyBVxAAAAAAA',
+    'IWhkbHIAAAAAAAAAAHZpZGUAAAAAAAAAAAAAAAAAAAABjm1pbmYAAAAUdm1oZAAAAAEAAAAAAAAAAAAAACRkaW5mAAAAHGRyZWYA',
+    'AAAAAAAAAQAAAAx1cmwgAAAAAQAAAU5zdGJsAAAAhnN0c2QAAAAAAAAAAQAAAHZhdmMxAAAAAAAAAAEAAAAAAAAAAAAAAAAAAAAA',
+    'AGAAkABIAAAASAAAAAAAAAABDkpWVC9BVkMgQ29kaW5nAAAAAAAAAAAAAAAAAAAAAAAAGP//AAAAIGF2Y0MBQgAK/+EACGdCAAqm',
+    'hhOQAQAFaM4CXIAAAAAYc3R0cwAAAAAAAAABAAAAGAAAHUwAAAB0c3RzegAAAAAAAAAAAAAAGAAAAEMAAAAkAAAAHAAAABkAAAAf',
+    'AAAAMQAAACgAAAAaAAAAKgAAABgAAAAWAAAAKAAAABQAAAAUAAAAKAAAABUAAAAUAAAAKAAAACEAAAAWAAAATQAAADIAAAAZAAAA',
+    'GgAAABxzdHNjAAAAAAAAAAEAAAABAAAADAAAAAEAAAAYc3RjbwAAAAAAAAACAAAAqAAAAlYAAACIZnJlZQAAAAAAAAAAAAAAAAAA',
+    'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+    'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+].join('');
@@ -0,0 +1,183 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ApiError, FinishReason, GoogleGenAI, GenerateContentResponse, GenerateVideosOperation, Modality } from "@google/genai";
+import type { ImageGenerationProvider, ImageGenerationRequest, TextGenerationRequest, VideoGenerationRequest, VideoOperationStatus } from "../services/imageProvider";
+import { InvalidInputError, NetworkError, NoImageReturnedError, RateLimitedError, SafetyBlockedError, toGenerationError } from "../services/errors";
+
+// Using gemini-2.5-flash-image for general image generation and editing tasks
+const model = 'gemini-2.5-flash-image';
+// Image analysis (tagging) only needs text out, which the plain Flash model does faster.
+const textModel = 'gemini-2.5-flash';
+// Veo animates a still into a short clip; portrait matches the try-on images.
+const videoModel = 'veo-2.0-generate-001';
+const VIDEO_DURATION_SECONDS = 5;
+
+const SAFETY_FINISH_REASONS: string[] = [
+    FinishReason.SAFETY,
+    FinishReason.BLOCKLIST,
+    FinishReason.PROHIBITED_CONTENT,
+    FinishReason.SPII,
+    FinishReason.IMAGE_SAFETY,
+    FinishReason.IMAGE_PROHIBITED_CONTENT,
+];
+
+// Quota errors carry the suggested wait in their details, e.g. "retryDelay": "23s".
+const parseRetryDelayMs = (message: string): number | undefined => {
+    const match = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+    return match ? Number(match[1]) * 1000 : undefined;
+};
+
+// Maps errors thrown by the SDK onto the service's error taxonomy.
+const mapApiError = (error: unknown): unknown => {
+    if (error instanceof ApiError) {
+        if (error.status === 429) {
+            return new RateLimitedError('The image generation service is receiving too many requests.', parseRetryDelayMs(error.message), { cause: error });
+        }
+        if (error.status >= 500) {
+            return new NetworkError(`The image generation service is temporarily unavailable (HTTP ${error.status}).`, { cause: error });
+        }
+        if (error.status === 400) {
+            return new InvalidInputError(error.message, { cause: error });
+        }
+    }
+    return toGenerationError(error);
+};
+
+const handleApiResponse = (response: GenerateContentResponse): string => {
+    if (response.promptFeedback?.blockReason) {
+        const { blockReason, blockReasonMessage } = response.promptFeedback;
+        const errorMessage = `Request was blocked. Reason: ${blockReason}. ${blockReasonMessage || ''}`;
+        throw new SafetyBlockedError(blockReason, errorMessage);
+    }
+
+    // Find the first image part in any candidate
+    for (const candidate of response.candidates ?? []) {
+        const imagePart = candidate.content?.parts?.find(part => part.inlineData);
+        if (imagePart?.inlineData) {
+            const { mimeType, data } = imagePart.inlineData;
+            return `data:${mimeType};base64,${data}`;
+        }
+    }
+
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (finishReason && SAFETY_FINISH_REASONS.includes(finishReason)) {
+        throw new SafetyBlockedError(finishReason, `Image generation stopped by safety filters. Reason: ${finishReason}.`);
+    }
+    const textFeedback = response.text?.trim();
+    throw new NoImageReturnedError(textFeedback || undefined, finishReason);
+};
+
+const handleVideoOperation = async (operation: GenerateVideosOperation, apiKey: string, signal?: AbortSignal): Promise<VideoOperationStatus> => {
+    if (!operation.done) {
+        const progress = Number(operation.metadata?.progressPercent);
+        return { done: false, progress: Number.isFinite(progress) ? progress / 100 : undefined };
+    }
+    if (operation.error) {
+        throw new NetworkError(`Video generation failed: ${String(operation.error.message ?? 'unknown error')}.`);
+    }
+    const { generatedVideos, raiMediaFilteredCount, raiMediaFilteredReasons } = operation.response ?? {};
+    const video = generatedVideos?.[0]?.video;
+    if (!video) {
+        if (raiMediaFilteredCount) {
+            const reason = raiMediaFilteredReasons?.join(' ') || 'RAI_MEDIA_FILTERED';
+            throw new SafetyBlockedError('RAI_MEDIA_FILTERED', `The video was blocked by safety filters. ${reason}`);
+        }
+        throw new NetworkError('The video generation finished without a video.');
+    }
+    const mimeType = video.mimeType || 'video/mp4';
+    if (video.videoBytes) {
+        return { done: true, progress: 1, videoUrl: `data:${mimeType};base64,${video.videoBytes}` };
+    }
+    // The file URI needs the API key, so the server downloads it rather than handing the URI out.
+    const response = await fetch(video.uri as string, { headers: { 'x-goog-api-key': apiKey }, signal });
+    if (!response.ok) {
+        throw new NetworkError(`Could not download the generated video (HTTP ${response.status}).`);
+    }
+    const data = Buffer.from(await response.arrayBuffer()).toString('base64');
+    return { done: true, progress: 1, videoUrl: `data:${mimeType};base64,${data}` };
+};
+
+// Runs on the server only, so the API key never reaches the browser.
+export const createGeminiUpstream = (apiKey: string): ImageGenerationProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+
+    return {
+        id: 'gemini',
+        generateImage: async ({ images, prompt, signal }: ImageGenerationRequest) => {
+            let response: GenerateContentResponse;
+            try {
+                response = await ai.models.generateContent({
+                    model,
+                    contents: { parts: [...images.map(inlineData => ({ inlineData })), { text: prompt }] },
+                    config: {
+                        responseModalities: [Modality.IMAGE],
+                        abortSignal: signal,
+                    },
+                });
+            } catch (err) {
+                throw mapApiError(err);
+            }
+            signal?.throwIfAborted();
+            return handleApiResponse(response);
+        },
+        generateText: async ({ images, prompt, responseSchema, signal }: TextGenerationRequest) => {
+            let response: GenerateContentResponse;
+            try {
+                response = await ai.models.generateContent({
+                    model: textModel,
+                    contents: { parts: [...images.map(inlineData => ({ inlineData })), { text: prompt }] },
+                    config: {
+                        ...(responseSchema ? { responseMimeType: 'application/json', responseJsonSchema: responseSchema } : {}),
+                        abortSignal: signal,
+                    },
+                });
+            } catch (err) {
+                throw mapApiError(err);
+            }
+            signal?.throwIfAborted();
+            if (response.promptFeedback?.blockReason) {
+                throw new SafetyBlockedError(response.promptFeedback.blockReason);
+            }
+            const text = response.text?.trim();
+            if (!text) {
+                throw new NoImageReturnedError(undefined, response.candidates?.[0]?.finishReason);
+            }
+            return text;
+        },
+        startVideoGeneration: async ({ image, prompt, signal }: VideoGenerationRequest) => {
+            try {
+                const operation = await ai.models.generateVideos({
+                    model: videoModel,
+                    prompt,
+                    image: { imageBytes: image.data, mimeType: image.mimeType },
+                    config: {
+                        numberOfVideos: 1,
+                        aspectRatio: '9:16',
+                        durationSeconds: VIDEO_DURATION_SECONDS,
+                        personGeneration: 'allow_adult',
+                        abortSignal: signal,
+                    },
+                });
+                if (!operation.name) {
+                    throw new NetworkError('The video generation service did not return an operation.');
+                }
+                return operation.name;
+            } catch (err) {
+                throw mapApiError(err);
+            }
+        },
+        getVideoOperation: async (operationId: string, signal?: AbortSignal) => {
+            const pending = new GenerateVideosOperation();
+            pending.name = operationId;
+            try {
+                const operation = await ai.operations.getVideosOperation({ operation: pending, config: { abortSignal: signal } });
+                return await handleVideoOperation(operation, apiKey, signal);
+            } catch (err) {
+                throw mapApiError(err);
+            }
+        },
+    };
+};
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { existsSync } from "node:fs";
+import type { ImageGenerationProvider } from "../services/imageProvider";
+import { createGeminiUpstream } from "./geminiUpstream";
+import { createFakeUpstream } from "./fakeUpstream";
+import { createProxyServer } from "./proxyServer";
+import { createRateLimiter } from "./rateLimiter";
+
+/**
+ * Generation proxy. Holds the Gemini API key server-side and exposes one endpoint per
+ * generation operation (POST /api/generate/{model,try-on,outfit,pose,edit,isolate}), rate limited per client,
+ * image analysis (POST /api/text/tag), plus long-running video generation (POST /api/video, then GET /api/video/operations/{id}).
+ * The browser's "proxy" provider (services/proxyProvider.ts) is its only intended caller.
+ * The endpoints are served by server/proxyServer.ts; this file configures and starts it.
+ *
+ * Configuration (environment, or .env.local):
+ *   UPSTREAM                   'gemini' (default) or 'fake' for offline development
+ *   GEMINI_API_KEY             required when UPSTREAM=gemini
+ *   PORT                       default 8787
+ *   RATE_LIMIT_PER_MINUTE      sustained requests per client, default 20
+ *   RATE_LIMIT_BURST           requests a client may make back to back, default 5
+ *   TRUST_PROXY                'true' to identify clients by X-Forwarded-For
+ *   ALLOWED_ORIGIN             origin allowed to call the proxy cross-origin (same origin only by default)
+ *   FAKE_UPSTREAM_LATENCY_MS   simulated latency of the fake upstream, default 800
+ */
+
+if (existsSync('.env.local')) {
+    process.loadEnvFile('.env.local');
+}
+
+const port = Number(process.env.PORT ?? 8787);
+
+const createUpstream = (): ImageGenerationProvider => {
+    const upstream = process.env.UPSTREAM ?? 'gemini';
+    if (upstream === 'fake') {
+        return createFakeUpstream(Number(process.env.FAKE_UPSTREAM_LATENCY_MS ?? 800));
+    }
+    if (upstream !== 'gemini') {
+        throw new Error(`Unknown UPSTREAM "${upstream}". Use "gemini" or "fake".`);
+    }
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+        throw new Error('GEMINI_API_KEY must be set when UPSTREAM=gemini. Set UPSTREAM=fake to develop without a key.');
+    }
+    return createGeminiUpstream(apiKey);
+};
+
+const upstream = createUpstream();
+
+const server = createProxyServer(upstream, {
+    rateLimiter: createRateLimiter(
+        Number(process.env.RATE_LIMIT_PER_MINUTE ?? 20),
+        Number(process.env.RATE_LIMIT_BURST ?? 5),
+    ),
+    trustProxy: process.env.TRUST_PROXY === 'true',
+    allowedOrigin: process.env.ALLOWED_ORIGIN,
+});
+
+server.listen(port, () => {
+    console.log(`Generation proxy listening on http://localhost:${port} (upstream: ${upstream.id})`);
+});
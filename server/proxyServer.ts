@@ -0,0 +1,273 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import type { GenerationOperation, ImageGenerationProvider, InlineImage, JsonSchema, TextGenerationOperation } from "../services/imageProvider";
+import {
+    GenerationError,
+    GenerationErrorKind,
+    InvalidInputError,
+    RateLimitedError,
+    serializeGenerationError,
+    toGenerationError,
+} from "../services/errors";
+import type { createRateLimiter } from "./rateLimiter";
+
+const OPERATIONS: GenerationOperation[] = ['model', 'try-on', 'outfit', 'pose', 'edit', 'isolate'];
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+// The model image plus one garment per outfit slot.
+const MAX_IMAGES = 6;
+const MAX_PROMPT_LENGTH = 20_000;
+// Video operations remembered for their owners; the oldest are forgotten past this.
+const MAX_VIDEO_OPERATIONS = 10_000;
+
+export interface ProxyServerOptions {
+    rateLimiter: ReturnType<typeof createRateLimiter>;
+    trustProxy?: boolean; // Identify clients by X-Forwarded-For
+    allowedOrigin?: string; // Origin allowed to call the proxy cross-origin
+}
+
+const STATUS_BY_KIND: Record<GenerationErrorKind, number> = {
+    'invalid-input': 400,
+    'safety-blocked': 422,
+    'no-image-returned': 422,
+    'rate-limited': 429,
+    'aborted': 499,
+    'network': 503,
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, error: GenerationError) => {
+    const headers: Record<string, string> = {};
+    if (error instanceof RateLimitedError && error.retryAfterMs !== undefined) {
+        headers['Retry-After'] = String(Math.ceil(error.retryAfterMs / 1000));
+    }
+    sendJson(res, STATUS_BY_KIND[error.kind], { error: serializeGenerationError(error) }, headers);
+};
+
+const readJsonBody = (req: IncomingMessage, res: ServerResponse): Promise<unknown> => {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        const onData = (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                const error = new InvalidInputError('The request is too large. Please use smaller images.');
+                // Answer before closing: a dropped connection would look like a network error, which the client retries.
+                req.off('data', onData);
+                req.resume();
+                sendJson(res, 413, { error: serializeGenerationError(error) }, { Connection: 'close' });
+                reject(error);
+                return;
+            }
+            chunks.push(chunk);
+        };
+        req.on('data', onData);
+        req.on('end', () => {
+            try {
+                resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+            } catch (e) {
+                reject(new InvalidInputError('The request body is not valid JSON.'));
+            }
+        });
+        req.on('error', reject);
+    });
+};
+
+const isInlineImage = (value: unknown): value is InlineImage => {
+    const image = value as InlineImage;
+    return typeof image?.mimeType === 'string' && image.mimeType.startsWith('image/') && typeof image.data === 'string';
+};
+
+const parseGenerationBody = (body: unknown) => {
+    const { images, prompt, promptVersion, variant } = (body ?? {}) as Record<string, unknown>;
+    if (!Array.isArray(images) || images.length === 0 || images.length > MAX_IMAGES || !images.every(isInlineImage)) {
+        throw new InvalidInputError(`Expected between 1 and ${MAX_IMAGES} images.`);
+    }
+    if (typeof prompt !== 'string' || prompt.length === 0 || prompt.length > MAX_PROMPT_LENGTH) {
+        throw new InvalidInputError('Expected a non-empty prompt.');
+    }
+    return {
+        images,
+        prompt,
+        promptVersion: typeof promptVersion === 'string' ? promptVersion : undefined,
+        variant: typeof variant === 'number' ? variant : undefined,
+    };
+};
+
+const parseVideoBody = (body: unknown) => {
+    const { image, prompt, promptVersion } = (body ?? {}) as Record<string, unknown>;
+    if (!isInlineImage(image)) {
+        throw new InvalidInputError('Expected an image to animate.');
+    }
+    if (typeof prompt !== 'string' || prompt.length === 0 || prompt.length > MAX_PROMPT_LENGTH) {
+        throw new InvalidInputError('Expected a non-empty prompt.');
+    }
+    return { image, prompt, promptVersion: typeof promptVersion === 'string' ? promptVersion : undefined };
+};
+
+const TEXT_OPERATIONS: TextGenerationOperation[] = ['tag'];
+
+const parseTextBody = (body: unknown) => {
+    const { responseSchema, ...rest } = (body ?? {}) as Record<string, unknown>;
+    const { images, prompt, promptVersion } = parseGenerationBody(rest);
+    if (responseSchema !== undefined && (typeof responseSchema !== 'object' || responseSchema === null)) {
+        throw new InvalidInputError('Expected the response schema to be an object.');
+    }
+    return { images, prompt, promptVersion, responseSchema: responseSchema as JsonSchema | undefined };
+};
+
+/**
+ * The proxy's HTTP server, forwarding each endpoint to `upstream`. It is not listening yet;
+ * server/index.ts configures it from the environment and starts it.
+ */
+export const createProxyServer = (upstream: ImageGenerationProvider, { rateLimiter, trustProxy = false, allowedOrigin }: ProxyServerOptions): Server => {
+    const clientIdFor = (req: IncomingMessage): string => {
+        const forwardedFor = req.headers['x-forwarded-for'];
+        if (trustProxy && typeof forwardedFor === 'string') {
+            return forwardedFor.split(',')[0].trim();
+        }
+        return req.socket.remoteAddress ?? 'unknown';
+    };
+
+    const handleGenerate = async (req: IncomingMessage, res: ServerResponse, operation: GenerationOperation) => {
+        const decision = rateLimiter.take(clientIdFor(req));
+        if (!decision.allowed) {
+            sendError(res, new RateLimitedError('Too many generation requests. Please slow down.', decision.retryAfterMs));
+            return;
+        }
+
+        // Stop the upstream call if the browser goes away (e.g. the user pressed Cancel).
+        const controller = new AbortController();
+        res.on('close', () => {
+            if (!res.writableFinished) controller.abort();
+        });
+
+        const request = parseGenerationBody(await readJsonBody(req, res));
+        const imageUrl = await upstream.generateImage({ operation, ...request, signal: controller.signal });
+        sendJson(res, 200, { imageUrl });
+    };
+
+    const handleGenerateText = async (req: IncomingMessage, res: ServerResponse, operation: TextGenerationOperation) => {
+        const { generateText } = upstream;
+        if (!generateText) {
+            throw new InvalidInputError(`The "${upstream.id}" upstream cannot analyze images.`);
+        }
+        const decision = rateLimiter.take(clientIdFor(req));
+        if (!decision.allowed) {
+            sendError(res, new RateLimitedError('Too many generation requests. Please slow down.', decision.retryAfterMs));
+            return;
+        }
+        const controller = new AbortController();
+        res.on('close', () => {
+            if (!res.writableFinished) controller.abort();
+        });
+        const request = parseTextBody(await readJsonBody(req, res));
+        const text = await generateText({ operation, ...request, signal: controller.signal });
+        sendJson(res, 200, { text });
+    };
+
+    const requireVideoSupport = () => {
+        const { startVideoGeneration, getVideoOperation } = upstream;
+        if (!startVideoGeneration || !getVideoOperation) {
+            throw new InvalidInputError(`The "${upstream.id}" upstream cannot generate videos.`);
+        }
+        return { startVideoGeneration, getVideoOperation };
+    };
+
+    // Operation id -> the client that started it. Only that client may poll the operation.
+    const videoOwners = new Map<string, string>();
+
+    const handleStartVideo = async (req: IncomingMessage, res: ServerResponse) => {
+        const { startVideoGeneration } = requireVideoSupport();
+        const clientId = clientIdFor(req);
+        const decision = rateLimiter.take(clientId);
+        if (!decision.allowed) {
+            sendError(res, new RateLimitedError('Too many generation requests. Please slow down.', decision.retryAfterMs));
+            return;
+        }
+        const request = parseVideoBody(await readJsonBody(req, res));
+        const operationId = await startVideoGeneration(request);
+        if (videoOwners.size >= MAX_VIDEO_OPERATIONS) {
+            videoOwners.delete(videoOwners.keys().next().value!);
+        }
+        videoOwners.set(operationId, clientId);
+        sendJson(res, 200, { operationId });
+    };
+
+    // Polls count against the rate limit too; the client waits out a 429 and polls again.
+    const handleVideoOperation = async (req: IncomingMessage, res: ServerResponse, operationId: string) => {
+        const { getVideoOperation } = requireVideoSupport();
+        const clientId = clientIdFor(req);
+        const decision = rateLimiter.take(clientId);
+        if (!decision.allowed) {
+            sendError(res, new RateLimitedError('Too many generation requests. Please slow down.', decision.retryAfterMs));
+            return;
+        }
+        // Someone else's operation is reported exactly like one that does not exist.
+        if (videoOwners.get(operationId) !== clientId) {
+            throw new InvalidInputError(`Unknown video operation "${operationId}".`);
+        }
+        const status = await getVideoOperation(operationId);
+        if (status.done) {
+            videoOwners.delete(operationId);
+        }
+        sendJson(res, 200, status);
+    };
+
+    return createServer(async (req, res) => {
+        const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+        if (allowedOrigin) {
+            res.setHeader('Access-Control-Allow-Origin', allowedOrigin);
+            res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+            res.setHeader('Access-Control-Expose-Headers', 'Retry-After');
+            if (req.method === 'OPTIONS') {
+                res.writeHead(204).end();
+                return;
+            }
+        }
+        try {
+            if (req.method === 'GET' && url.pathname === '/api/health') {
+                sendJson(res, 200, { ok: true, upstream: upstream.id });
+                return;
+            }
+            const match = url.pathname.match(/^\/api\/generate\/([a-z-]+)$/);
+            const operation = match?.[1] as GenerationOperation | undefined;
+            if (req.method === 'POST' && operation && OPERATIONS.includes(operation)) {
+                await handleGenerate(req, res, operation);
+                return;
+            }
+            const textMatch = url.pathname.match(/^\/api\/text\/([a-z-]+)$/);
+            const textOperation = textMatch?.[1] as TextGenerationOperation | undefined;
+            if (req.method === 'POST' && textOperation && TEXT_OPERATIONS.includes(textOperation)) {
+                await handleGenerateText(req, res, textOperation);
+                return;
+            }
+            if (req.method === 'POST' && url.pathname === '/api/video') {
+                await handleStartVideo(req, res);
+                return;
+            }
+            const videoOperation = url.pathname.match(/^\/api\/video\/operations\/(.+)$/);
+            if (req.method === 'GET' && videoOperation) {
+                await handleVideoOperation(req, res, decodeURIComponent(videoOperation[1]));
+                return;
+            }
+            sendJson(res, 404, { error: { kind: 'invalid-input', message: 'Not found.' } });
+        } catch (err) {
+            const error = toGenerationError(err);
+            if (res.headersSent || res.destroyed) return;
+            if (error instanceof GenerationError) {
+                sendError(res, error);
+            } else {
+                console.error('Unhandled error while generating:', err);
+                sendJson(res, 500, { error: { message: 'The generation service failed unexpectedly.' } });
+            }
+        }
+    });
+};
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+interface Bucket {
+    tokens: number;
+    updatedAt: number;
+}
+
+export interface RateLimitDecision {
+    allowed: boolean;
+    // When not allowed: how long until the next request would be.
+    retryAfterMs: number;
+}
+
+/**
+ * Per-client token bucket. Each client may burst up to `burst` requests and then
+ * refills at `requestsPerMinute`. Idle buckets are dropped to bound memory.
+ */
+export const createRateLimiter = (requestsPerMinute: number, burst: number) => {
+    const buckets = new Map<string, Bucket>();
+    const refillPerMs = requestsPerMinute / 60_000;
+
+    const prune = (now: number) => {
+        for (const [clientId, bucket] of buckets) {
+            if (bucket.tokens + (now - bucket.updatedAt) * refillPerMs >= burst) {
+                buckets.delete(clientId);
+            }
+        }
+    };
+
+    return {
+        take: (clientId: string, now = Date.now()): RateLimitDecision => {
+            if (buckets.size > 10_000) prune(now);
+            const bucket = buckets.get(clientId) ?? { tokens: burst, updatedAt: now };
+            bucket.tokens = Math.min(burst, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+            bucket.updatedAt = now;
+            buckets.set(clientId, bucket);
+
+            if (bucket.tokens >= 1) {
+                bucket.tokens -= 1;
+                return { allowed: true, retryAfterMs: 0 };
+            }
+            return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+        },
+    };
+};
@@ -0,0 +1,240 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { CatalogPrice, CatalogProduct, CatalogVariant, GarmentCategory, WardrobeItem } from "../types";
+import { GARMENT_CATEGORIES } from "./garmentTagging";
+import { parseSizeChart } from "./garmentFit";
+
+/**
+ * Retailer product feeds. A feed is JSON or CSV:
+ *
+ * - JSON: an array of products, or `{ "products": [...] }`. Each product has `id`, `name`,
+ *   `image` and optionally `category`, `price` (a number, with `currency`, or
+ *   `{ "amount", "currency" }`), `url`, `variants`: `[{ "id", "name", "image"?, "price"? }]` and
+ *   `size_chart`: `[{ "size", "chest"?, "waist"?, "hips"?, "height"?, "inseam"? }]` in cm.
+ * - CSV: a header row with the columns `id`, `name`, `image`, `category`, `price`, `currency`,
+ *   `url`, `size_chart`, `variant_id`, `variant_name`, `variant_image` and `variant_price` (only
+ *   the first three are required). A size chart cell reads `S: chest 88, waist 72; M: chest 96`.
+ *   Rows that share an `id` are variants of one product, whose other columns are taken from its
+ *   first row.
+ *
+ * Relative image and product URLs are resolved against the feed's URL. Products missing an id,
+ * name or image are skipped and counted.
+ */
+
+export interface ParsedCatalog {
+    products: CatalogProduct[];
+    skipped: number;
+}
+
+const CATALOG_STORAGE_KEY = 'virtual-try-on-catalog';
+
+// Feeds name categories in many ways; anything not listed here is left untagged.
+const CATEGORY_ALIASES: Record<string, GarmentCategory> = {
+    tops: 'top', shirt: 'top', shirts: 'top', blouse: 'top', sweater: 'top', knitwear: 'top', 't-shirt': 'top',
+    bottoms: 'bottom', pants: 'bottom', trousers: 'bottom', jeans: 'bottom', skirt: 'bottom', skirts: 'bottom', shorts: 'bottom',
+    dresses: 'dress',
+    jacket: 'outerwear', jackets: 'outerwear', coat: 'outerwear', coats: 'outerwear',
+    shoe: 'shoes', footwear: 'shoes', sneakers: 'shoes', boots: 'shoes',
+    accessories: 'accessory', bag: 'accessory', bags: 'accessory', hat: 'accessory', scarf: 'accessory', jewelry: 'accessory',
+};
+
+const parseCategory = (value: unknown): GarmentCategory | undefined => {
+    const name = typeof value === 'string' ? value.trim().toLowerCase() : '';
+    return GARMENT_CATEGORIES.includes(name as GarmentCategory) ? name as GarmentCategory : CATEGORY_ALIASES[name];
+};
+
+const text = (value: unknown): string => typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '';
+
+const resolveUrl = (value: unknown, baseUrl: string): string | undefined => {
+    const url = text(value);
+    if (!url) return undefined;
+    try {
+        return new URL(url, baseUrl).href;
+    } catch (e) {
+        return undefined;
+    }
+};
+
+const parsePrice = (value: unknown, currency: unknown): CatalogPrice | undefined => {
+    if (value && typeof value === 'object') {
+        const price = value as { amount?: unknown; currency?: unknown };
+        return parsePrice(price.amount, price.currency ?? currency);
+    }
+    const amount = typeof value === 'number' ? value : parseFloat(text(value));
+    return Number.isFinite(amount) ? { amount, currency: text(currency).toUpperCase() || 'USD' } : undefined;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+const parseJsonProducts = (json: unknown, baseUrl: string): ParsedCatalog => {
+    const entries = Array.isArray(json) ? json : (json as { products?: unknown })?.products;
+    if (!Array.isArray(entries)) {
+        throw new Error('A JSON catalog must be an array of products or an object with a "products" array.');
+    }
+    const products: CatalogProduct[] = [];
+    for (const entry of entries) {
+        if (!isRecord(entry)) continue;
+        const id = text(entry.id);
+        const name = text(entry.name);
+        const imageUrl = resolveUrl(entry.image, baseUrl);
+        if (!id || !name || !imageUrl) continue;
+        const variants: CatalogVariant[] = (Array.isArray(entry.variants) ? entry.variants : [])
+            .filter(isRecord)
+            .map((variant): CatalogVariant => ({
+                id: text(variant.id),
+                name: text(variant.name) || text(variant.id),
+                imageUrl: resolveUrl(variant.image, baseUrl),
+                price: parsePrice(variant.price, entry.currency),
+            }))
+            .filter(variant => variant.id);
+        products.push({
+            id,
+            name,
+            imageUrl,
+            category: parseCategory(entry.category),
+            variants,
+            price: parsePrice(entry.price, entry.currency),
+            productUrl: resolveUrl(entry.url, baseUrl),
+            sizeChart: parseSizeChart(entry.size_chart),
+        });
+    }
+    return { products, skipped: entries.length - products.length };
+};
+
+// A small RFC 4180 reader: quoted fields may contain commas, newlines and doubled quotes.
+const parseCsvRows = (csv: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    for (let i = 0; i < csv.length; i++) {
+        const char = csv[i];
+        if (inQuotes) {
+            if (char === '"' && csv[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && csv[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+const parseCsvProducts = (csv: string, baseUrl: string): ParsedCatalog => {
+    const [header, ...rows] = parseCsvRows(csv.replace(/^\uFEFF/, ''));
+    const columns = (header ?? []).map(name => name.trim().toLowerCase());
+    for (const required of ['id', 'name', 'image']) {
+        if (!columns.includes(required)) {
+            throw new Error(`The CSV catalog has no "${required}" column.`);
+        }
+    }
+    // Rows are regrouped into JSON-shaped products, so both formats share one validation path.
+    const byId = new Map<string, Record<string, unknown> & { variants: Record<string, unknown>[] }>();
+    for (const row of rows) {
+        const cells = Object.fromEntries(columns.map((column, index) => [column, row[index]?.trim() ?? '']));
+        const product = byId.get(cells.id) ?? { ...cells, variants: [] };
+        byId.set(cells.id, product);
+        if (cells.variant_id) {
+            product.variants.push({ id: cells.variant_id, name: cells.variant_name, image: cells.variant_image, price: cells.variant_price || undefined });
+        }
+    }
+    return parseJsonProducts([...byId.values()], baseUrl);
+};
+
+export const parseCatalog = (feed: string, format: 'json' | 'csv', baseUrl = window.location.href): ParsedCatalog => {
+    const parsed = format === 'json' ? parseJsonProducts(JSON.parse(feed), baseUrl) : parseCsvProducts(feed, baseUrl);
+    if (parsed.products.length === 0) {
+        throw new Error('The catalog has no usable products. Every product needs an id, a name and an image.');
+    }
+    return parsed;
+};
+
+// The format comes from the file extension or content type, falling back to sniffing the content.
+const detectFormat = (name: string, contentType: string, feed: string): 'json' | 'csv' => {
+    if (/\.json$/i.test(name) || contentType.includes('json')) return 'json';
+    if (/\.csv$/i.test(name) || contentType.includes('csv')) return 'csv';
+    return /^\s*[[{]/.test(feed) ? 'json' : 'csv';
+};
+
+export const loadCatalogFromFile = async (file: File): Promise<ParsedCatalog> => {
+    const feed = await file.text();
+    return parseCatalog(feed, detectFormat(file.name, file.type, feed));
+};
+
+export const loadCatalogFromUrl = async (url: string, signal?: AbortSignal): Promise<ParsedCatalog> => {
+    const feedUrl = new URL(url, window.location.href).href;
+    const response = await fetch(feedUrl, { signal });
+    if (!response.ok) {
+        throw new Error(`Could not download the catalog (${response.status}).`);
+    }
+    const feed = await response.text();
+    return parseCatalog(feed, detectFormat(new URL(feedUrl).pathname, response.headers.get('content-type') ?? '', feed), feedUrl);
+};
+
+// The catalog is kept in local storage so it is still there after a reload.
+export const getStoredCatalog = (): CatalogProduct[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(CATALOG_STORAGE_KEY) ?? '[]');
+        return Array.isArray(stored) ? stored : [];
+    } catch (e) {
+        return [];
+    }
+};
+
+export const storeCatalog = (products: CatalogProduct[]): void => {
+    try {
+        if (products.length > 0) {
+            localStorage.setItem(CATALOG_STORAGE_KEY, JSON.stringify(products));
+        } else {
+            localStorage.removeItem(CATALOG_STORAGE_KEY);
+        }
+    } catch (e) {
+        console.warn('Could not store the catalog; it will need to be imported again after a reload.', e);
+    }
+};
+
+/**
+ * The wardrobe item for a product (or one of its variants), so catalog products are tried on
+ * exactly like wardrobe garments. The id is stable, so trying a product on twice reuses its item.
+ */
+export const catalogProductToWardrobeItem = (product: CatalogProduct, variant?: CatalogVariant): WardrobeItem => ({
+    id: variant ? `catalog-${product.id}-${variant.id}` : `catalog-${product.id}`,
+    name: variant && product.variants.length > 1 ? `${product.name} (${variant.name})` : product.name,
+    url: variant?.imageUrl ?? product.imageUrl,
+    category: product.category,
+    catalogProductId: product.id,
+    productUrl: product.productUrl,
+    sizeChart: product.sizeChart,
+});
+
+export const formatPrice = ({ amount, currency }: CatalogPrice): string => {
+    try {
+        return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+    } catch (e) {
+        // Not a currency code Intl knows.
+        return `${amount.toFixed(2)} ${currency}`;
+    }
+};
@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type GenerationErrorKind =
+    | 'safety-blocked'
+    | 'no-image-returned'
+    | 'rate-limited'
+    | 'network'
+    | 'invalid-input'
+    | 'aborted';
+
+/**
+ * Base class for every failure surfaced by the generation service layer.
+ * `retryable` marks transient failures that are worth another attempt.
+ */
+export abstract class GenerationError extends Error {
+    abstract readonly kind: GenerationErrorKind;
+    readonly retryable: boolean = false;
+
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message);
+        this.name = new.target.name;
+        if (options?.cause !== undefined) {
+            (this as { cause?: unknown }).cause = options.cause;
+        }
+    }
+}
+
+// The prompt or the output was rejected by the model's safety filters.
+export class SafetyBlockedError extends GenerationError {
+    readonly kind = 'safety-blocked';
+
+    constructor(readonly blockReason: string, message?: string) {
+        super(message || `Request was blocked. Reason: ${blockReason}.`);
+    }
+}
+
+// The model answered, but without an image (often with an explanation in text).
+export class NoImageReturnedError extends GenerationError {
+    readonly kind = 'no-image-returned';
+
+    constructor(readonly modelText?: string, readonly finishReason?: string) {
+        super(`The AI model did not return an image.` + (modelText ? ` The model responded with text: "${modelText}"` : ''));
+    }
+}
+
+export class RateLimitedError extends GenerationError {
+    readonly kind = 'rate-limited';
+    readonly retryable = true;
+
+    // How long the backend asked us to wait, when it said so.
+    constructor(message: string, readonly retryAfterMs?: number, options?: { cause?: unknown }) {
+        super(message, options);
+    }
+}
+
+// The request never reached the backend, or the backend was temporarily unavailable.
+export class NetworkError extends GenerationError {
+    readonly kind = 'network';
+    readonly retryable = true;
+}
+
+// The inputs themselves are unusable (unsupported file type, malformed image, ...).
+export class InvalidInputError extends GenerationError {
+    readonly kind = 'invalid-input';
+}
+
+export class AbortedError extends GenerationError {
+    readonly kind = 'aborted';
+
+    constructor(message = 'The generation was cancelled.') {
+        super(message);
+    }
+}
+
+/**
+ * Normalizes anything thrown while generating into a GenerationError where the
+ * failure can be classified. Unrecognized errors are returned unchanged.
+ */
+export const toGenerationError = (error: unknown): unknown => {
+    if (error instanceof GenerationError) return error;
+    if (error instanceof Error) {
+        if (error.name === 'AbortError') return new AbortedError();
+        // fetch() rejects with a TypeError when the network is unreachable.
+        if (error instanceof TypeError && /fetch|network/i.test(error.message)) {
+            return new NetworkError('Could not reach the image generation service.', { cause: error });
+        }
+    }
+    return error;
+};
+
+// Wire format used by the generation proxy (see server/) to carry typed errors to the browser.
+export interface SerializedGenerationError {
+    kind: GenerationErrorKind;
+    message: string;
+    blockReason?: string;
+    modelText?: string;
+    finishReason?: string;
+    retryAfterMs?: number;
+}
+
+export const serializeGenerationError = (error: GenerationError): SerializedGenerationError => {
+    const serialized: SerializedGenerationError = { kind: error.kind, message: error.message };
+    if (error instanceof SafetyBlockedError) serialized.blockReason = error.blockReason;
+    if (error instanceof NoImageReturnedError) {
+        serialized.modelText = error.modelText;
+        serialized.finishReason = error.finishReason;
+    }
+    if (error instanceof RateLimitedError) serialized.retryAfterMs = error.retryAfterMs;
+    return serialized;
+};
+
+export const deserializeGenerationError = (payload: SerializedGenerationError | undefined, status: number): GenerationError => {
+    const message = payload?.message || `The generation service responded with HTTP ${status}.`;
+    switch (payload?.kind) {
+        case 'safety-blocked':
+            return new SafetyBlockedError(payload.blockReason ?? 'UNKNOWN', message);
+        case 'no-image-returned':
+            return new NoImageReturnedError(payload.modelText, payload.finishReason);
+        case 'rate-limited':
+            return new RateLimitedError(message, payload.retryAfterMs);
+        case 'invalid-input':
+            return new InvalidInputError(message);
+        case 'aborted':
+            return new AbortedError(message);
+        case 'network':
+            return new NetworkError(message);
+    }
+    // Unclassified failures: 429 and 5xx are worth retrying, anything else is the request's fault.
+    if (status === 429) return new RateLimitedError(message);
+    if (status >= 500) return new NetworkError(message);
+    return new InvalidInputError(message);
+};
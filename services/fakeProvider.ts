@@ -0,0 +1,193 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageGenerationProvider, ImageGenerationRequest, InlineImage, TextGenerationRequest, VideoGenerationRequest, VideoOperationStatus } from "./imageProvider";
+import { InvalidInputError } from "./errors";
+import { fakeFromSchema } from "./fakeStructuredOutput";
+
+const DEFAULT_LATENCY_MS = 800;
+const MAX_DIMENSION = 1024;
+const VIDEO_MAX_DIMENSION = 720;
+const VIDEO_CLIP_MS = 3000;
+const VIDEO_FPS = 30;
+
+// FNV-1a; stable across sessions so identical requests always render identical images.
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const loadImage = (image: InlineImage): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const element = new Image();
+        element.onload = () => resolve(element);
+        element.onerror = () => reject(new InvalidInputError('Fake provider could not decode an input image.'));
+        element.src = `data:${image.mimeType};base64,${image.data}`;
+    });
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timeout);
+        reject(signal.reason);
+    }, { once: true });
+});
+
+// Records a short Ken Burns style pan over the image: real video bytes, without a model.
+const recordFakeVideo = async (image: InlineImage, seed: number): Promise<string> => {
+    if (typeof MediaRecorder === 'undefined') {
+        throw new InvalidInputError('This browser cannot record video, which the fake provider needs for outfit videos.');
+    }
+    const still = await loadImage(image);
+    const scale = Math.min(1, VIDEO_MAX_DIMENSION / Math.max(still.naturalWidth, still.naturalHeight));
+    const canvas = document.createElement('canvas');
+    // Most encoders require even dimensions.
+    canvas.width = Math.round(still.naturalWidth * scale / 2) * 2;
+    canvas.height = Math.round(still.naturalHeight * scale / 2) * 2;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context.');
+    }
+
+    const drawFrame = (t: number) => {
+        const zoom = 1 + 0.15 * t;
+        const width = canvas.width * zoom;
+        const height = canvas.height * zoom;
+        ctx.drawImage(still, (canvas.width - width) / 2, (canvas.height - height) * t, width, height);
+        const fontSize = Math.max(14, Math.round(canvas.width / 24));
+        ctx.font = `600 ${fontSize}px Inter, sans-serif`;
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+        ctx.fillRect(0, canvas.height - fontSize * 2, canvas.width, fontSize * 2);
+        ctx.fillStyle = '#ffffff';
+        ctx.textBaseline = 'bottom';
+        ctx.fillText(`FAKE · video · #${seed.toString(16)}`, fontSize * 0.5, canvas.height - fontSize * 0.5);
+    };
+
+    drawFrame(0);
+    const recorder = new MediaRecorder(canvas.captureStream(VIDEO_FPS));
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = event => chunks.push(event.data);
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+    recorder.start();
+    const start = performance.now();
+    await new Promise<void>(resolve => {
+        const tick = () => {
+            const t = Math.min(1, (performance.now() - start) / VIDEO_CLIP_MS);
+            drawFrame(t);
+            if (t < 1) setTimeout(tick, 1000 / VIDEO_FPS);
+            else resolve();
+        };
+        tick();
+    });
+    recorder.stop();
+    await stopped;
+    return URL.createObjectURL(new Blob(chunks, { type: recorder.mimeType || 'video/webm' }));
+};
+
+/**
+ * An offline provider that synthesizes a deterministic image from the request:
+ * the first input image tinted with a colour derived from the prompt, the other
+ * input images (e.g. garments) inset in the corner, and a label naming the operation.
+ * It never touches the network, which makes it suitable for development, demos and tests.
+ * Outfit videos are recorded from the canvas with MediaRecorder.
+ */
+export const createFakeProvider = (): ImageGenerationProvider => {
+    const latency = Number(import.meta.env.VITE_FAKE_PROVIDER_LATENCY_MS ?? DEFAULT_LATENCY_MS);
+    // Video operations take several polls to finish, like the real long-running operation.
+    const videoDuration = Math.max(VIDEO_CLIP_MS, latency * 5);
+    const videoJobs = new Map<string, { startedAt: number; videoUrl: Promise<string> }>();
+
+    return {
+        id: 'fake',
+        generateImage: async ({ operation, images, prompt, variant = 0, signal }: ImageGenerationRequest) => {
+            signal?.throwIfAborted();
+            const seed = hashString([operation, prompt, variant, ...images.map(image => image.data)].join('|'));
+            const hue = seed % 360;
+
+            const [base, ...overlays] = await Promise.all(images.map(loadImage));
+            const scale = base ? Math.min(1, MAX_DIMENSION / Math.max(base.naturalWidth, base.naturalHeight)) : 1;
+            const canvas = document.createElement('canvas');
+            canvas.width = base ? Math.round(base.naturalWidth * scale) : 768;
+            canvas.height = base ? Math.round(base.naturalHeight * scale) : 1152;
+
+            const ctx = canvas.getContext('2d');
+            if (!ctx) {
+                throw new Error('Could not get canvas context.');
+            }
+
+            if (base) {
+                ctx.drawImage(base, 0, 0, canvas.width, canvas.height);
+            } else {
+                const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+                gradient.addColorStop(0, `hsl(${hue}, 60%, 85%)`);
+                gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 60%, 70%)`);
+                ctx.fillStyle = gradient;
+                ctx.fillRect(0, 0, canvas.width, canvas.height);
+            }
+
+            ctx.fillStyle = `hsla(${hue}, 70%, 50%, 0.25)`;
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+            // Outfits carry several garments; they are inset side by side.
+            const insetSize = Math.round(Math.min(canvas.width, canvas.height) * Math.min(0.3, 0.8 / Math.max(1, overlays.length)));
+            const padding = Math.round(insetSize * 0.1);
+            overlays.forEach((overlay, index) => {
+                const x = padding + index * (insetSize + padding);
+                ctx.fillStyle = '#ffffff';
+                ctx.fillRect(x - 4, padding - 4, insetSize + 8, insetSize + 8);
+                ctx.drawImage(overlay, x, padding, insetSize, insetSize);
+            });
+
+            const fontSize = Math.max(16, Math.round(canvas.width / 24));
+            ctx.font = `600 ${fontSize}px Inter, sans-serif`;
+            ctx.textAlign = 'left';
+            ctx.textBaseline = 'bottom';
+            ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+            ctx.fillRect(0, canvas.height - fontSize * 2, canvas.width, fontSize * 2);
+            ctx.fillStyle = '#ffffff';
+            ctx.fillText(`FAKE · ${operation} · #${seed.toString(16)}`, fontSize * 0.5, canvas.height - fontSize * 0.5);
+
+            if (latency > 0) {
+                await wait(latency, signal);
+            }
+            return canvas.toDataURL('image/png');
+        },
+        generateText: async ({ operation, images, prompt, responseSchema, signal }: TextGenerationRequest) => {
+            signal?.throwIfAborted();
+            const seed = hashString([operation, prompt, ...images.map(image => image.data)].join('|'));
+            if (latency > 0) {
+                await wait(latency, signal);
+            }
+            return responseSchema ? JSON.stringify(fakeFromSchema(responseSchema, seed)) : `FAKE ${operation} #${seed.toString(16)}`;
+        },
+        startVideoGeneration: async ({ image, prompt, signal }: VideoGenerationRequest) => {
+            signal?.throwIfAborted();
+            const seed = hashString(['video', prompt, image.data].join('|'));
+            const operationId = `fake-video-${seed.toString(16)}-${videoJobs.size}`;
+            const videoUrl = recordFakeVideo(image, seed);
+            // Failures surface when the operation is polled.
+            videoUrl.catch(() => {});
+            videoJobs.set(operationId, { startedAt: Date.now(), videoUrl });
+            return operationId;
+        },
+        getVideoOperation: async (operationId: string): Promise<VideoOperationStatus> => {
+            const job = videoJobs.get(operationId);
+            if (!job) {
+                throw new InvalidInputError(`Unknown video operation "${operationId}".`);
+            }
+            const progress = Math.min(1, (Date.now() - job.startedAt) / videoDuration);
+            if (progress < 1) {
+                return { done: false, progress };
+            }
+            videoJobs.delete(operationId);
+            return { done: true, progress, videoUrl: await job.videoUrl };
+        },
+    };
+};
@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { JsonSchema } from "./imageProvider";
+
+/**
+ * Builds a plausible, deterministic value for a JSON schema without a model: enums pick an
+ * option from the seed, strings name the property they fill. Used by the fake provider and
+ * the proxy's fake upstream so structured calls (like garment tagging) work offline.
+ */
+export const fakeFromSchema = (schema: JsonSchema, seed: number, name = 'value'): unknown => {
+    if (schema.enum?.length) {
+        return schema.enum[seed % schema.enum.length];
+    }
+    switch (schema.type) {
+        case 'object':
+            return Object.fromEntries(Object.entries(schema.properties ?? {}).map(([key, property], index) => (
+                [key, fakeFromSchema(property, seed + index * 7919, key)]
+            )));
+        case 'array':
+            return schema.items ? [fakeFromSchema(schema.items, seed, name)] : [];
+        case 'number':
+            return seed % 100;
+        case 'boolean':
+            return seed % 2 === 0;
+        default:
+            return `Fake ${name} ${(seed % 1000).toString(16)}`;
+    }
+};
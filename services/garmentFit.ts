@@ -0,0 +1,216 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { BodyMeasurement, BodyMeasurements, GarmentCategory, GarmentFit, GirthFit, LengthFit, OutfitLayer, SizeChartEntry, WardrobeItem } from "../types";
+
+/**
+ * Size and fit. The user enters their body measurements; a garment carries a size chart listing
+ * the body measurements each size is made for. Comparing the two for the selected size says
+ * where the garment will be snug or relaxed and whether it will look cropped, which is passed to
+ * the try-on prompts so results stop showing every garment fitting perfectly.
+ */
+
+export const BODY_MEASUREMENTS: readonly BodyMeasurement[] = ['height', 'chest', 'waist', 'hips', 'inseam'];
+
+export const BODY_MEASUREMENT_LABELS: Record<BodyMeasurement, string> = {
+    height: 'Height',
+    chest: 'Chest',
+    waist: 'Waist',
+    hips: 'Hips',
+    inseam: 'Inseam',
+};
+
+const MEASUREMENTS_STORAGE_KEY = 'virtual-try-on-measurements';
+
+// The girths a garment of each category is sized by, and the measurement that decides its length.
+const GIRTHS_BY_CATEGORY: Record<GarmentCategory, BodyMeasurement[]> = {
+    top: ['chest', 'waist'],
+    outerwear: ['chest', 'waist'],
+    dress: ['chest', 'waist', 'hips'],
+    bottom: ['waist', 'hips'],
+    shoes: [],
+    accessory: [],
+};
+const LENGTH_BY_CATEGORY: Partial<Record<GarmentCategory, BodyMeasurement>> = {
+    top: 'height',
+    outerwear: 'height',
+    dress: 'height',
+    bottom: 'inseam',
+};
+
+const DEFAULT_GIRTHS: BodyMeasurement[] = ['chest', 'waist', 'hips'];
+
+const getGirths = (category?: GarmentCategory): BodyMeasurement[] => category ? GIRTHS_BY_CATEGORY[category] : DEFAULT_GIRTHS;
+
+// The measurements a size chart for this category lists; empty for shoes and accessories, whose fit is not simulated.
+export const getSizeChartMeasurements = (category?: GarmentCategory): BodyMeasurement[] => {
+    const length = category ? LENGTH_BY_CATEGORY[category] : undefined;
+    return length ? [...getGirths(category), length] : getGirths(category);
+};
+
+// How far a length may be off, in cm, before the garment looks cropped or long.
+const LENGTH_TOLERANCE: Partial<Record<BodyMeasurement, number>> = { height: 5, inseam: 3 };
+
+// `difference` is how much bigger (positive) or smaller (negative) the size is made than the body, in cm.
+const girthFit = (difference: number): GirthFit => {
+    if (difference < -6) return 'tight';
+    if (difference < -2) return 'snug';
+    if (difference <= 3) return 'regular';
+    if (difference <= 10) return 'relaxed';
+    return 'oversized';
+};
+
+/**
+ * How the garment fits in its selected size. Null when it has no size selected or the size is
+ * not on its chart; girths and length the chart or the user lacks are left out.
+ */
+export const getGarmentFit = (item: WardrobeItem, measurements: BodyMeasurements): GarmentFit | null => {
+    const entry = item.selectedSize ? item.sizeChart?.find(row => row.size === item.selectedSize) : undefined;
+    if (!entry) return null;
+    const girths = getGirths(item.category)
+        .flatMap(measurement => {
+            const sized = entry.measurements[measurement];
+            const body = measurements[measurement];
+            return sized !== undefined && body !== undefined ? [{ measurement, fit: girthFit(sized - body) }] : [];
+        });
+    const lengthMeasurement = item.category ? LENGTH_BY_CATEGORY[item.category] : undefined;
+    let length: LengthFit | undefined;
+    if (lengthMeasurement) {
+        const sized = entry.measurements[lengthMeasurement];
+        const body = measurements[lengthMeasurement];
+        const tolerance = LENGTH_TOLERANCE[lengthMeasurement] ?? 3;
+        if (sized !== undefined && body !== undefined) {
+            length = sized - body < -tolerance ? 'cropped' : sized - body > tolerance ? 'long' : 'regular';
+        }
+    }
+    return { size: entry.size, girths, ...(length ? { length } : {}) };
+};
+
+// The fit the garment was last generated with in the stack.
+export const getLayerFit = (layers: OutfitLayer[], garmentId: string): GarmentFit | undefined => {
+    for (let i = layers.length - 1; i >= 0; i--) {
+        if (layers[i].garment?.id === garmentId) return layers[i].fit;
+    }
+    return undefined;
+};
+
+const GIRTH_AREAS: Partial<Record<BodyMeasurement, string>> = {
+    chest: 'across the chest',
+    waist: 'at the waist',
+    hips: 'at the hips',
+};
+
+const GIRTH_PROMPTS: Record<Exclude<GirthFit, 'regular'>, string> = {
+    tight: 'tight, visibly pulling',
+    snug: 'snug',
+    relaxed: 'relaxed, with some ease',
+    oversized: 'oversized, hanging loosely',
+};
+
+const LENGTH_PROMPTS: Record<Exclude<LengthFit, 'regular'>, string> = {
+    cropped: 'cropped, ending noticeably higher on the body than the garment was designed to',
+    long: 'long, extending noticeably lower than designed, with extra fabric bunching at the hems',
+};
+
+/**
+ * e.g. "size M: snug across the chest, relaxed, with some ease at the waist; cropped, ending ..."
+ * Undefined when nothing is known about the fit beyond the size.
+ */
+export const describeGarmentFit = (fit: GarmentFit): string | undefined => {
+    const girths = fit.girths.filter(girth => girth.fit !== 'regular');
+    const parts = girths.map(({ measurement, fit: girth }) => `${GIRTH_PROMPTS[girth as Exclude<GirthFit, 'regular'>]} ${GIRTH_AREAS[measurement] ?? ''}`.trim());
+    if (fit.length && fit.length !== 'regular') {
+        parts.push(LENGTH_PROMPTS[fit.length]);
+    }
+    if (parts.length > 0) return `size ${fit.size}: ${parts.join('; ')}`;
+    if (fit.girths.length > 0 || fit.length) return `size ${fit.size}: true to size, close to the body without pulling or bagging`;
+    return undefined;
+};
+
+const GIRTH_LABELS: Record<GirthFit, string> = {
+    tight: 'Tight',
+    snug: 'Snug',
+    regular: 'Regular',
+    relaxed: 'Relaxed',
+    oversized: 'Oversized',
+};
+
+// e.g. "Size M · Snug chest · Cropped", for the Outfit Stack.
+export const summarizeGarmentFit = (fit: GarmentFit): string => {
+    const notes = fit.girths
+        .filter(girth => girth.fit !== 'regular')
+        .map(({ measurement, fit: girth }) => `${GIRTH_LABELS[girth]} ${BODY_MEASUREMENT_LABELS[measurement].toLowerCase()}`);
+    if (fit.length === 'cropped') notes.push('Cropped');
+    if (fit.length === 'long') notes.push('Long');
+    if (notes.length === 0 && (fit.girths.length > 0 || fit.length)) notes.push('True to size');
+    return [`Size ${fit.size}`, ...notes].join(' · ');
+};
+
+export const isSameFit = (a: GarmentFit | null | undefined, b: GarmentFit | null | undefined): boolean =>
+    (a ? summarizeGarmentFit(a) : '') === (b ? summarizeGarmentFit(b) : '');
+
+// A measurement given as a number, "96" or a range such as "96-101" (its midpoint).
+const parseCentimetres = (value: unknown): number | undefined => {
+    if (typeof value === 'number') return Number.isFinite(value) && value > 0 ? value : undefined;
+    if (typeof value !== 'string') return undefined;
+    const numbers = value.match(/\d+(?:\.\d+)?/g)?.map(Number) ?? [];
+    if (numbers.length === 0) return undefined;
+    return numbers.length > 1 ? (numbers[0] + numbers[1]) / 2 : numbers[0];
+};
+
+const parseMeasurements = (values: Record<string, unknown>): BodyMeasurements =>
+    Object.fromEntries(BODY_MEASUREMENTS.flatMap(measurement => {
+        const value = parseCentimetres(values[measurement]);
+        return value !== undefined ? [[measurement, value]] : [];
+    }));
+
+/**
+ * Reads a size chart from a catalog feed. JSON feeds give an array such as
+ * `[{ "size": "M", "chest": "96-101", "waist": 84 }]`; CSV cells use the compact form
+ * `S: chest 88, waist 72; M: chest 96, waist 80`. Values are in centimetres.
+ */
+export const parseSizeChart = (value: unknown): SizeChartEntry[] | undefined => {
+    let rows: { size: string; values: Record<string, unknown> }[] = [];
+    if (Array.isArray(value)) {
+        rows = value
+            .filter(row => row && typeof row === 'object')
+            .map(row => ({ size: String(row.size ?? row.name ?? '').trim(), values: row }));
+    } else if (typeof value === 'string') {
+        rows = value.split(';').map(part => {
+            const [size, measurements = ''] = part.split(':');
+            const values = Object.fromEntries(measurements.split(',').map(pair => {
+                const [name, ...rest] = pair.trim().split(/[\s=]+/);
+                return [name.toLowerCase(), rest.join(' ')];
+            }));
+            return { size: size.trim(), values };
+        });
+    }
+    const chart = rows
+        .map(({ size, values }) => ({ size, measurements: parseMeasurements(values) }))
+        .filter(row => row.size && Object.keys(row.measurements).length > 0);
+    return chart.length > 0 ? chart : undefined;
+};
+
+// Measurements are kept on this device only, in local storage.
+export const getStoredMeasurements = (): BodyMeasurements => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(MEASUREMENTS_STORAGE_KEY) ?? '{}');
+        return stored && typeof stored === 'object' ? parseMeasurements(stored) : {};
+    } catch (e) {
+        return {};
+    }
+};
+
+export const storeMeasurements = (measurements: BodyMeasurements): void => {
+    try {
+        if (Object.keys(measurements).length > 0) {
+            localStorage.setItem(MEASUREMENTS_STORAGE_KEY, JSON.stringify(measurements));
+        } else {
+            localStorage.removeItem(MEASUREMENTS_STORAGE_KEY);
+        }
+    } catch (e) {
+        console.warn('Could not store the measurements; they will need to be entered again after a reload.', e);
+    }
+};
@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { GarmentCategory, GarmentTags, WardrobeItem } from "../types";
+import type { JsonSchema } from "./imageProvider";
+
+export const GARMENT_CATEGORIES: readonly GarmentCategory[] = ['top', 'bottom', 'dress', 'outerwear', 'shoes', 'accessory'];
+
+export const GARMENT_CATEGORY_LABELS: Record<GarmentCategory, string> = {
+    top: 'Top',
+    bottom: 'Bottom',
+    dress: 'Dress',
+    outerwear: 'Outerwear',
+    shoes: 'Shoes',
+    accessory: 'Accessory',
+};
+
+// The structured answer requested from the model when tagging a garment.
+export const GARMENT_TAGS_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        name: { type: 'string', description: 'Short human-readable product name.' },
+        category: { type: 'string', enum: [...GARMENT_CATEGORIES] },
+        colors: { type: 'array', items: { type: 'string' }, description: 'Dominant colors, most prominent first.' },
+        pattern: { type: 'string' },
+        material: { type: 'string' },
+    },
+    required: ['name', 'category', 'colors', 'pattern', 'material'],
+};
+
+// What the garment is, as the try-on prompts name it.
+export const getGarmentRole = (item: WardrobeItem): string => item.category ? GARMENT_CATEGORY_LABELS[item.category] : 'Clothing';
+
+const isCategory = (value: unknown): value is GarmentCategory => GARMENT_CATEGORIES.includes(value as GarmentCategory);
+
+const cleanText = (value: unknown): string => typeof value === 'string' ? value.trim().toLowerCase() : '';
+
+/**
+ * Validates the model's JSON answer. Throws if it is not JSON or has no usable category;
+ * anything else that is missing is filled with neutral defaults.
+ */
+export const parseGarmentTags = (text: string): GarmentTags => {
+    // Models occasionally wrap JSON in a markdown fence despite the response schema.
+    const json = JSON.parse(text.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+    const category = cleanText(json?.category);
+    if (!isCategory(category)) {
+        throw new Error(`Unrecognized garment category "${json?.category}".`);
+    }
+    const colors = Array.isArray(json.colors) ? json.colors.map(cleanText).filter(Boolean).slice(0, 3) : [];
+    return {
+        name: typeof json.name === 'string' && json.name.trim() ? json.name.trim() : GARMENT_CATEGORY_LABELS[category],
+        category,
+        colors,
+        pattern: cleanText(json.pattern) || 'solid',
+        material: cleanText(json.material) || 'unknown',
+    };
+};
+
+// e.g. "Top · navy, white · striped linen"
+export const describeGarmentTags = (item: WardrobeItem): string => {
+    const parts = [
+        item.category ? GARMENT_CATEGORY_LABELS[item.category] : null,
+        item.colors?.length ? item.colors.join(', ') : null,
+        [item.pattern, item.material].filter(part => part && part !== 'unknown').join(' ') || null,
+    ];
+    return parts.filter(Boolean).join(' · ');
+};
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { WardrobeItem } from "../types";
+import { fileToDataUrl, isAbortError } from "../lib/utils";
+import { getPreprocessedImage } from "./imagePreprocessing";
+import { computeImageHash, isNearDuplicate } from "./perceptualHash";
+import { GenerationOptions, isolateGarment } from "./geminiService";
+
+// Larger files are almost always camera RAW exports or videos picked by mistake.
+export const MAX_GARMENT_FILE_BYTES = 25 * 1024 * 1024;
+
+export const GARMENT_FILE_ACCEPT = 'image/png, image/jpeg, image/webp, image/avif, image/heic, image/heif';
+
+// Returns why a file cannot be a garment photo, or null when it can.
+export const validateGarmentFile = (file: File): string | null => {
+    if (!file.type.startsWith('image/') && !/\.hei[cf]$/i.test(file.name)) {
+        return 'Not an image file.';
+    }
+    if (file.size > MAX_GARMENT_FILE_BYTES) {
+        return `Larger than ${MAX_GARMENT_FILE_BYTES / (1024 * 1024)} MB.`;
+    }
+    return null;
+};
+
+// The perceptual hash of an upload, taken after preprocessing so it matches however the photo was saved.
+export const hashGarmentFile = async (garmentFile: File): Promise<string> => {
+    const { file } = await getPreprocessedImage(garmentFile);
+    return computeImageHash(file);
+};
+
+// The wardrobe garment an uploaded photo looks like, if any. Only uploads carry a hash to compare.
+export const findDuplicateGarment = (imageHash: string, wardrobe: WardrobeItem[]): WardrobeItem | undefined =>
+    wardrobe.find(item => item.imageHash && isNearDuplicate(item.imageHash, imageHash));
+
+export interface PreparedGarment {
+    item: WardrobeItem;
+    // Set when no cutout could be made; the item then uses the photo as uploaded.
+    isolationError?: unknown;
+}
+
+/**
+ * Turns an uploaded photo into a wardrobe item. The garment is isolated from its background
+ * and the cutout is used for try-on; the original photo stays on the item so the choice can be
+ * reviewed later. If isolation fails, the original photo is used.
+ */
+export const prepareWardrobeItem = async (garmentFile: File, options: Pick<GenerationOptions, 'signal'> = {}): Promise<PreparedGarment> => {
+    const { file } = await getPreprocessedImage(garmentFile);
+    const originalUrl = await fileToDataUrl(file);
+    const item: WardrobeItem = {
+        id: `custom-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        name: garmentFile.name,
+        url: originalUrl,
+        addedAt: Date.now(),
+        imageHash: await hashGarmentFile(garmentFile),
+    };
+    try {
+        const { imageUrl } = await isolateGarment(garmentFile, options);
+        return { item: { ...item, url: imageUrl, originalUrl, isolatedUrl: imageUrl } };
+    } catch (err) {
+        if (isAbortError(err)) throw err;
+        return { item, isolationError: err };
+    }
+};
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { WardrobeItem } from "../types";
+import { urlToFile } from "../lib/utils";
+import { generateGarmentVariant, GarmentVariantChange, GenerationOptions } from "./geminiService";
+
+// A few colors shoppers ask for most, offered as one-click choices.
+export const SUGGESTED_VARIANT_COLORS = ['Black', 'White', 'Navy', 'Beige', 'Olive', 'Burgundy'];
+
+/**
+ * The id shared by a garment and all its variants. Variants always point at the garment the first
+ * variant was made from, so a variant of a variant joins the same group, and the group holds
+ * together even if that garment is deleted.
+ */
+export const getVariantGroupId = (item: WardrobeItem): string => item.variantOf ?? item.id;
+
+// A garment's group, the garment it was made from first and variants in the order they were added.
+export const getVariantGroup = (items: WardrobeItem[], item: WardrobeItem): WardrobeItem[] => {
+    const groupId = getVariantGroupId(item);
+    return items
+        .filter(other => getVariantGroupId(other) === groupId)
+        .sort((a, b) => Number(!!a.variantOf) - Number(!!b.variantOf) || (a.addedAt ?? 0) - (b.addedAt ?? 0));
+};
+
+// Keeps the first item of each variant group, so a group takes up a single wardrobe card.
+export const collapseVariantGroups = (items: WardrobeItem[]): WardrobeItem[] => {
+    const seen = new Set<string>();
+    return items.filter(item => {
+        const groupId = getVariantGroupId(item);
+        if (seen.has(groupId)) return false;
+        seen.add(groupId);
+        return true;
+    });
+};
+
+/**
+ * Generates a color or fabric variant of a wardrobe garment, as it is tried on (with its crop),
+ * and returns it as a new wardrobe item in the garment's variant group. Tags other than the
+ * category are left for re-tagging, since the colors and pattern have changed.
+ */
+export const createGarmentVariant = async (item: WardrobeItem, change: GarmentVariantChange, options: Pick<GenerationOptions, 'signal'> = {}): Promise<WardrobeItem> => {
+    const garmentFile = await urlToFile(item.url, item.name, item.crop);
+    const { imageUrl } = await generateGarmentVariant(garmentFile, change, options);
+    const label = 'color' in change ? change.color : 'Swatch';
+    return {
+        id: `variant-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        name: `${item.name} (${label})`,
+        url: imageUrl,
+        category: item.category,
+        collectionIds: item.collectionIds,
+        addedAt: Date.now(),
+        variantOf: getVariantGroupId(item),
+        variantLabel: label,
+    };
+};
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { GarmentView, WardrobeItem } from "../types";
+import { urlToFile } from "../lib/utils";
+import { MAX_POSE_REFERENCES, PoseReference } from "./geminiService";
+
+/**
+ * Extra reference photos of a garment. A try-on only shows the front of each garment, so poses
+ * from behind or the side would otherwise have to invent the back of a print or where a zipper
+ * runs. Those poses are generated with the worn garments' back and detail photos.
+ */
+
+export type PoseAngle = 'front' | 'side' | 'back';
+
+export const GARMENT_VIEWS: readonly GarmentView[] = ['back', 'detail'];
+
+export const GARMENT_VIEW_LABELS: Record<GarmentView, string> = {
+    back: 'Back',
+    detail: 'Detail',
+};
+
+const VIEW_FIELDS: Record<GarmentView, 'backUrl' | 'detailUrl'> = {
+    back: 'backUrl',
+    detail: 'detailUrl',
+};
+
+export const getGarmentViewUrl = (item: WardrobeItem, view: GarmentView): string | undefined => item[VIEW_FIELDS[view]];
+
+export const setGarmentViewUrl = (item: WardrobeItem, view: GarmentView, url: string | undefined): WardrobeItem =>
+    ({ ...item, [VIEW_FIELDS[view]]: url });
+
+// The views that help at each angle, most useful first. Front poses only need the try-on photo.
+const VIEWS_BY_ANGLE: Record<PoseAngle, GarmentView[]> = {
+    front: [],
+    side: ['back', 'detail'],
+    back: ['back', 'detail'],
+};
+
+/**
+ * The reference photos to send with a pose at `angle`, as files. Every garment's back view comes
+ * before any detail view, since a request can only carry MAX_POSE_REFERENCES of them.
+ */
+export const getPoseReferences = async (garments: WardrobeItem[], angle: PoseAngle): Promise<PoseReference[]> => {
+    const references = VIEWS_BY_ANGLE[angle]
+        .flatMap(view => garments.flatMap(garment => {
+            const url = getGarmentViewUrl(garment, view);
+            return url ? [{ garment, view, url }] : [];
+        }))
+        .slice(0, MAX_POSE_REFERENCES);
+    return Promise.all(references.map(async ({ garment, view, url }) => ({
+        file: await urlToFile(url, `${garment.name} (${GARMENT_VIEW_LABELS[view].toLowerCase()})`),
+        garment: garment.name,
+        view,
+    })));
+};
@@ -4,161 +4,338 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { GoogleGenAI, GenerateContentResponse, Modality } from "@google/genai";
-import { addWatermark } from "../lib/utils";
+import { getImageProvider, ImageGenerationRequest, InlineImage } from "./imageProvider";
+import { AbortedError, InvalidInputError, NetworkError } from "./errors";
+import { sleep, withRetry } from "./retry";
+import { getCachedImage, hashKey, isGenerationCacheEnabled, putCachedImage } from "./generationCache";
+import { OutfitVideoStyle, renderPrompt, STUDIO_BACKGROUND } from "./prompts";
+import { getPreprocessedImage, PreprocessingChange } from "./imagePreprocessing";
+import { runPostProcessing } from "./postProcessing";
+import { GARMENT_CATEGORIES, GARMENT_TAGS_SCHEMA, parseGarmentTags } from "./garmentTagging";
+import { describeStylingHints } from "./outfitSlots";
+import { describeGarmentFit } from "./garmentFit";
+import type { GarmentFit, GarmentTags, GarmentView, StylingHint } from "../types";
 
-const fileToPart = async (file: File) => {
+export interface GenerationOptions {
+    // Aborting cancels the generation; the returned promise rejects with an AbortedError.
+    signal?: AbortSignal;
+    // Skip the cache lookup (when caching is enabled) and store the fresh result instead.
+    bypassCache?: boolean;
+    // Distinguishes parallel candidates of the same request (see generateCandidates).
+    variant?: number;
+}
+
+export interface GenerationResult {
+    imageUrl: string;
+    // The prompt template that produced the image, e.g. "try-on@1" (see prompts.ts).
+    promptVersion: string;
+    // What preprocessing changed about the user-supplied file before it was sent (see imagePreprocessing.ts).
+    inputChanges?: PreprocessingChange[];
+}
+
+const fileToPart = async (file: File): Promise<InlineImage> => {
     const dataUrl = await new Promise<string>((resolve, reject) => {
         const reader = new FileReader();
         reader.readAsDataURL(file);
         reader.onload = () => resolve(reader.result as string);
-        reader.onerror = error => reject(error);
+        reader.onerror = () => reject(new InvalidInputError(`Could not read the file "${file.name}".`));
     });
-    const { mimeType, data } = dataUrlToParts(dataUrl);
-    return { inlineData: { mimeType, data } };
+    return dataUrlToPart(dataUrl);
 };
 
-const dataUrlToParts = (dataUrl: string) => {
+const dataUrlToPart = (dataUrl: string): InlineImage => {
     const arr = dataUrl.split(',');
-    if (arr.length < 2) throw new Error("Invalid data URL");
+    if (arr.length < 2) throw new InvalidInputError("Invalid data URL");
     const mimeMatch = arr[0].match(/:(.*?);/);
-    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
+    if (!mimeMatch || !mimeMatch[1]) throw new InvalidInputError("Could not parse MIME type from data URL");
     return { mimeType: mimeMatch[1], data: arr[1] };
 }
 
-const dataUrlToPart = (dataUrl: string) => {
-    const { mimeType, data } = dataUrlToParts(dataUrl);
-    return { inlineData: { mimeType, data } };
-}
+// Rejects as soon as the signal aborts, even if the underlying work cannot be interrupted.
+const raceWithAbort = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+    if (!signal) return promise;
+    if (signal.aborted) return Promise.reject(new AbortedError());
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(new AbortedError());
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+};
+
+// The rendered prompt embeds every parameter (pose, background, instruction...), so together with
+// the template version, provider, operation and input bytes it fully determines the request.
+const cacheKeyFor = (providerId: string, { operation, images, prompt, promptVersion = '', variant = 0 }: ImageGenerationRequest) => {
+    return hashKey([providerId, operation, promptVersion, String(variant), prompt, ...images.flatMap(image => [image.mimeType, image.data])]);
+};
 
-const handleApiResponse = async (response: GenerateContentResponse): Promise<string> => {
-    if (response.promptFeedback?.blockReason) {
-        const { blockReason, blockReasonMessage } = response.promptFeedback;
-        const errorMessage = `Request was blocked. Reason: ${blockReason}. ${blockReasonMessage || ''}`;
-        throw new Error(errorMessage);
+// Cache failures (quota, private mode...) must never fail a generation.
+const tryCache = async <T>(action: () => Promise<T>, fallback: T): Promise<T> => {
+    try {
+        return await action();
+    } catch (e) {
+        console.warn('Generation cache unavailable:', e);
+        return fallback;
     }
+};
 
-    // Find the first image part in any candidate
-    for (const candidate of response.candidates ?? []) {
-        const imagePart = candidate.content?.parts?.find(part => part.inlineData);
-        if (imagePart?.inlineData) {
-            const { mimeType, data } = imagePart.inlineData;
-            const originalImageUrl = `data:${mimeType};base64,${data}`;
-            return await addWatermark(originalImageUrl);
+// Every operation goes through the active provider (see imageProvider.ts), retrying transient
+// failures and consulting the opt-in cache. The cache holds raw results; post-processing
+// (watermark, format...) runs afterwards so configuration changes also apply to cached images.
+// Intermediate assets that are fed back into the model (e.g. garment cutouts) skip it.
+const generate = async (baseRequest: ImageGenerationRequest & { promptVersion: string }, options: GenerationOptions, postProcess = true): Promise<GenerationResult> => {
+    const { signal, bypassCache = false, variant } = options;
+    const request: ImageGenerationRequest = { ...baseRequest, variant, signal };
+    const provider = getImageProvider();
+    const useCache = isGenerationCacheEnabled();
+    const cacheKey = useCache ? await tryCache(() => cacheKeyFor(provider.id, request), null) : null;
+
+    let imageUrl = cacheKey && !bypassCache ? await tryCache(() => getCachedImage(cacheKey), null) : null;
+    if (!imageUrl) {
+        imageUrl = await raceWithAbort(
+            withRetry(() => provider.generateImage(request), { signal }),
+            signal,
+        );
+        if (cacheKey) {
+            await tryCache(() => putCachedImage(cacheKey, imageUrl as string), undefined);
         }
     }
-
-    const finishReason = response.candidates?.[0]?.finishReason;
-    if (finishReason && finishReason !== 'STOP') {
-        const errorMessage = `Image generation stopped unexpectedly. Reason: ${finishReason}. This often relates to safety settings.`;
-        throw new Error(errorMessage);
+    if (!postProcess) {
+        return { imageUrl, promptVersion: baseRequest.promptVersion };
     }
-    const textFeedback = response.text?.trim();
-    const errorMessage = `The AI model did not return an image. ` + (textFeedback ? `The model responded with text: "${textFeedback}"` : "This can happen due to safety filters or if the request is too complex. Please try a different image.");
-    throw new Error(errorMessage);
-};
-
-const ai = new GoogleGenAI({ apiKey: import.meta.env.VITE_API_KEY! });
-// Using gemini-2.5-flash-image for general image generation and editing tasks
-const model = 'gemini-2.5-flash-image';
-
-export const generateModelImage = async (userImage: File): Promise<string> => {
-    const userImagePart = await fileToPart(userImage);
-    const prompt = "You are an expert fashion photographer AI. Transform the person in this image into a full-body fashion model photo suitable for an e-commerce website. The background must be an elegant, high-end studio setting featuring a white fluted column, soft sheer white fabric drapes, and a floral arrangement with white and peach flowers on a pedestal. The lighting should be soft, diffused, and flattering, creating a luxurious and airy atmosphere with a clean white floor. The person should have a neutral, professional model expression. Preserve the person's identity, unique features, and body type, but place them in a standard, relaxed standing model pose. The final image must be photorealistic and contain no text, logos, or watermarks. Return ONLY the final image.";
-    const response = await ai.models.generateContent({
-        model,
-        contents: { parts: [userImagePart, { text: prompt }] },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
+    return {
+        imageUrl: await raceWithAbort(runPostProcessing(imageUrl, { operation: request.operation, promptVersion: baseRequest.promptVersion, providerId: provider.id }), signal),
+        promptVersion: baseRequest.promptVersion,
+    };
+};
+
+export const generateModelImage = async (userImage: File, options: GenerationOptions = {}): Promise<GenerationResult> => {
+    const { file, changes } = await raceWithAbort(getPreprocessedImage(userImage), options.signal);
+    const userImagePart = await fileToPart(file);
+    const prompt = renderPrompt('model', { background: STUDIO_BACKGROUND });
+    const result = await generate({ operation: 'model', images: [userImagePart], prompt: prompt.text, promptVersion: prompt.version }, options);
+    return { ...result, inputChanges: changes };
+};
+
+export interface OutfitGarment {
+    file: File;
+    // What the garment is, e.g. "Top" or "Outerwear".
+    role: string;
+    styling?: StylingHint[];
+    // How the garment fits in its selected size (see garmentFit.ts).
+    fit?: GarmentFit;
+}
+
+export const generateVirtualTryOnImage = async (modelImageUrl: string, garment: OutfitGarment, backgroundDescription?: string, options: GenerationOptions = {}): Promise<GenerationResult> => {
+    const { role, styling = [], fit } = garment;
+    const modelImagePart = dataUrlToPart(modelImageUrl);
+    const { file, changes } = await raceWithAbort(getPreprocessedImage(garment.file), options.signal);
+    const garmentImagePart = await fileToPart(file);
+    const prompt = renderPrompt('try-on', {
+        background: backgroundDescription,
+        garmentRole: role,
+        styling: describeStylingHints(styling),
+        fit: fit && describeGarmentFit(fit),
     });
-    return await handleApiResponse(response);
+    const result = await generate({ operation: 'try-on', images: [modelImagePart, garmentImagePart], prompt: prompt.text, promptVersion: prompt.version }, options);
+    return { ...result, inputChanges: changes };
 };
 
-export const generateVirtualTryOnImage = async (modelImageUrl: string, garmentImage: File, backgroundDescription?: string): Promise<string> => {
+// The model image plus this many garments is the most a single request may carry (MAX_IMAGES in server/proxyServer.ts).
+export const MAX_OUTFIT_GARMENTS = 5;
+
+/**
+ * Dresses the model in several garments with a single generation rather than one try-on each,
+ * which is faster and avoids the identity and background drift every extra pass introduces.
+ * Garments are listed in the order they are layered.
+ */
+export const applyOutfit = async (modelImageUrl: string, garments: OutfitGarment[], backgroundDescription?: string, options: GenerationOptions = {}): Promise<GenerationResult> => {
+    if (garments.length === 0 || garments.length > MAX_OUTFIT_GARMENTS) {
+        throw new InvalidInputError(`An outfit can combine between 1 and ${MAX_OUTFIT_GARMENTS} garments.`);
+    }
     const modelImagePart = dataUrlToPart(modelImageUrl);
-    const garmentImagePart = await fileToPart(garmentImage);
-    
-    const backgroundInstruction = backgroundDescription 
-        ? `5. **Background Consistency:** The background MUST be: ${backgroundDescription}.` 
-        : '5. **Background Consistency:** Keep the background consistent with the input image.';
-
-    // Explicitly defining input roles and strict requirements to improve wardrobe accuracy
-    const prompt = `You are an expert virtual try-on AI.
-The FIRST image provided is the PERSON (Model).
-The SECOND image provided is the GARMENT (Clothing).
-
-TASK:
-Replace the person's current outfit with the NEW GARMENT from the second image.
-
-CRITICAL INSTRUCTIONS:
-1. **FULL REPLACEMENT:** You must COMPLETELY remove and replace the person's existing clothing in the area where the new garment is worn. The old outfit must NOT be visible under, over, or blended with the new garment.
-2. **Garment Fidelity:** The new garment on the model must look exactly like the reference garment in image 2 (same color, pattern, texture, shape, logos).
-3. **Identity Preservation:** Keep the person's face, hair, body shape, and pose exactly as they are in image 1.
-4. **Natural Fit:** The garment should drape realistically on the body, respecting the pose.
-${backgroundInstruction}
-
-Return ONLY the generated image.`;
-
-    const response = await ai.models.generateContent({
-        model,
-        contents: { parts: [modelImagePart, garmentImagePart, { text: prompt }] },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
+    const preprocessed = await raceWithAbort(Promise.all(garments.map(garment => getPreprocessedImage(garment.file))), options.signal);
+    const garmentParts = await Promise.all(preprocessed.map(({ file }) => fileToPart(file)));
+    const prompt = renderPrompt('outfit', {
+        background: backgroundDescription,
+        garments: garments.map(({ role, styling = [], fit }) => ({ role, styling: describeStylingHints(styling), fit: fit && describeGarmentFit(fit) })),
     });
-    return await handleApiResponse(response);
+    const result = await generate({ operation: 'outfit', images: [modelImagePart, ...garmentParts], prompt: prompt.text, promptVersion: prompt.version }, options);
+    return { ...result, inputChanges: preprocessed.flatMap(({ changes }) => changes) };
 };
 
-export const generatePoseVariation = async (tryOnImageUrl: string, poseInstruction: string, backgroundDescription?: string): Promise<string> => {
+// A photo of a worn garment from another side, or of a detail, for poses that show it (see garmentViews.ts).
+export interface PoseReference {
+    file: File;
+    // The garment's name, e.g. "Navy Linen Shirt".
+    garment: string;
+    view: GarmentView;
+}
+
+// The try-on image plus this many references is the most a single request may carry.
+export const MAX_POSE_REFERENCES = MAX_OUTFIT_GARMENTS;
+
+export const generatePoseVariation = async (tryOnImageUrl: string, poseInstruction: string, backgroundDescription?: string, references: PoseReference[] = [], options: GenerationOptions = {}): Promise<GenerationResult> => {
+    if (references.length > MAX_POSE_REFERENCES) {
+        throw new InvalidInputError(`A pose can use at most ${MAX_POSE_REFERENCES} garment references.`);
+    }
     const tryOnImagePart = dataUrlToPart(tryOnImageUrl);
-    const backgroundInstruction = backgroundDescription 
-        ? `The background MUST be: ${backgroundDescription}.` 
-        : 'The background style must remain consistent with the input image.';
-
-    const prompt = `You are an expert fashion photographer AI. 
-    
-INPUT: An image of a model wearing specific clothing.
-TASK: Regenerate this image from a different perspective based on the instruction below.
-INSTRUCTION: "${poseInstruction}"
-
-REQUIREMENTS:
-1. **Identity & Clothing Persistence:** The person and the CLOTHING they are wearing must remain IDENTICAL to the input image. Do not change the outfit.
-2. **Background:** ${backgroundInstruction}
-3. **Photorealism:** The output must be a high-quality, photorealistic image.
-
-Return ONLY the final image.`;
-
-    const response = await ai.models.generateContent({
-        model,
-        contents: { parts: [tryOnImagePart, { text: prompt }] },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
+    const preprocessed = await raceWithAbort(Promise.all(references.map(reference => getPreprocessedImage(reference.file))), options.signal);
+    const referenceParts = await Promise.all(preprocessed.map(({ file }) => fileToPart(file)));
+    const prompt = renderPrompt('pose', {
+        pose: poseInstruction,
+        background: backgroundDescription,
+        references: references.map(({ garment, view }) => ({ garment, view })),
     });
-    return await handleApiResponse(response);
+    return await generate({ operation: 'pose', images: [tryOnImagePart, ...referenceParts], prompt: prompt.text, promptVersion: prompt.version }, options);
 };
 
-export const editImageWithPrompt = async (baseImageUrl: string, prompt: string): Promise<string> => {
+export const editImageWithPrompt = async (baseImageUrl: string, instruction: string, options: GenerationOptions = {}): Promise<GenerationResult> => {
     const baseImagePart = dataUrlToPart(baseImageUrl);
-    const editPrompt = `You are an expert photo editing AI. 
-    
-INPUT: An image.
-INSTRUCTION: "${prompt}"
-
-TASK: Edit the image according to the instruction.
-- Maintain photorealism.
-- Preserve the model's identity and unaffected clothing details unless the prompt specifically asks to change them.
-- Ensure the edit blends seamlessly.
-
-Return ONLY the final, edited image.`;
-
-    const response = await ai.models.generateContent({
-        model,
-        contents: { parts: [baseImagePart, { text: editPrompt }] },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
-    });
-    return await handleApiResponse(response);
+    const prompt = renderPrompt('edit', { instruction });
+    return await generate({ operation: 'edit', images: [baseImagePart], prompt: prompt.text, promptVersion: prompt.version }, options);
+};
+
+export const changeBackground = async (baseImageUrl: string, backgroundDescription: string, options: GenerationOptions = {}): Promise<GenerationResult> => {
+    const baseImagePart = dataUrlToPart(baseImageUrl);
+    const prompt = renderPrompt('background-change', { background: backgroundDescription });
+    return await generate({ operation: 'edit', images: [baseImagePart], prompt: prompt.text, promptVersion: prompt.version }, options);
+};
+
+/**
+ * Produces a clean garment-on-white cutout from a raw garment photo, so the try-on model
+ * is not confused by backgrounds or by a person already wearing the item.
+ */
+export const isolateGarment = async (garmentImage: File, options: GenerationOptions = {}): Promise<GenerationResult> => {
+    const { file, changes } = await raceWithAbort(getPreprocessedImage(garmentImage), options.signal);
+    const garmentImagePart = await fileToPart(file);
+    const prompt = renderPrompt('isolate', {});
+    const result = await generate({ operation: 'isolate', images: [garmentImagePart], prompt: prompt.text, promptVersion: prompt.version }, options, false);
+    return { ...result, inputChanges: changes };
+};
+
+// The change a garment variant makes: a new color, or the fabric or pattern of a swatch photo.
+export type GarmentVariantChange = { color: string } | { swatch: File };
+
+/**
+ * Generates a variant of a garment cutout in another color or fabric. Like isolation, the result
+ * is fed back into try-ons, so it skips post-processing.
+ */
+export const generateGarmentVariant = async (garmentImage: File, change: GarmentVariantChange, options: GenerationOptions = {}): Promise<GenerationResult> => {
+    const files = 'swatch' in change ? [garmentImage, change.swatch] : [garmentImage];
+    const preprocessed = await raceWithAbort(Promise.all(files.map(file => getPreprocessedImage(file))), options.signal);
+    const parts = await Promise.all(preprocessed.map(({ file }) => fileToPart(file)));
+    const prompt = renderPrompt('garment-variant', 'color' in change ? { color: change.color } : {});
+    const result = await generate({ operation: 'edit', images: parts, prompt: prompt.text, promptVersion: prompt.version }, options, false);
+    return { ...result, inputChanges: preprocessed.flatMap(({ changes }) => changes) };
+};
+
+export interface GarmentTaggingResult {
+    tags: GarmentTags;
+    promptVersion: string;
+}
+
+/**
+ * Reads a garment's category, colors, pattern, material and a readable name from its image
+ * with a text-mode (JSON) call. Rejects if the provider cannot analyze images or the answer
+ * cannot be parsed; callers treat tags as optional.
+ */
+export const tagGarment = async (garmentImageUrl: string, options: Pick<GenerationOptions, 'signal'> = {}): Promise<GarmentTaggingResult> => {
+    const { signal } = options;
+    const provider = getImageProvider();
+    const { generateText } = provider;
+    if (!generateText) {
+        throw new InvalidInputError(`The "${provider.id}" provider cannot analyze images.`);
+    }
+    const prompt = renderPrompt('tag', { categories: GARMENT_CATEGORIES });
+    const text = await raceWithAbort(
+        withRetry(() => generateText({
+            operation: 'tag',
+            images: [dataUrlToPart(garmentImageUrl)],
+            prompt: prompt.text,
+            promptVersion: prompt.version,
+            responseSchema: GARMENT_TAGS_SCHEMA,
+            signal,
+        }), { signal }),
+        signal,
+    );
+    return { tags: parseGarmentTags(text), promptVersion: prompt.version };
+};
+
+/**
+ * Runs `count` variants of the same generation in parallel and resolves with every one
+ * that succeeded, in variant order. Rejects only if all of them fail (or on abort).
+ */
+export const generateCandidates = async (
+    count: number,
+    generateOne: (options: GenerationOptions) => Promise<GenerationResult>,
+    options: GenerationOptions = {},
+): Promise<GenerationResult[]> => {
+    const settled = await Promise.allSettled(
+        Array.from({ length: count }, (_, variant) => generateOne({ ...options, variant })),
+    );
+    if (options.signal?.aborted) throw new AbortedError();
+    const results = settled.flatMap(outcome => outcome.status === 'fulfilled' ? [outcome.value] : []);
+    if (results.length === 0) {
+        throw (settled[0] as PromiseRejectedResult).reason;
+    }
+    return results;
+};
+
+export interface VideoGenerationOptions {
+    signal?: AbortSignal;
+    // Called with the fraction complete (0-1) while the video is being generated.
+    onProgress?: (progress: number) => void;
+    pollIntervalMs?: number;
+}
+
+export interface VideoGenerationResult {
+    // An object URL of the clip, suitable for <video> and downloads.
+    videoUrl: string;
+    promptVersion: string;
+}
+
+const VIDEO_POLL_INTERVAL_MS = 5000;
+// Veo does not report progress; clips typically take about a minute, so progress is estimated from that.
+const EXPECTED_VIDEO_DURATION_MS = 60000;
+
+const toObjectUrl = async (url: string) => {
+    if (!url.startsWith('data:')) return url;
+    const blob = await (await fetch(url)).blob();
+    return URL.createObjectURL(blob);
+};
+
+/**
+ * Animates a try-on image into a short runway or turnaround clip. Video generation is a
+ * long-running operation: it is started once and then polled until done, reporting progress.
+ */
+export const generateOutfitVideo = async (tryOnImageUrl: string, style: OutfitVideoStyle, options: VideoGenerationOptions = {}): Promise<VideoGenerationResult> => {
+    const { signal, onProgress, pollIntervalMs = VIDEO_POLL_INTERVAL_MS } = options;
+    const provider = getImageProvider();
+    const { startVideoGeneration, getVideoOperation } = provider;
+    if (!startVideoGeneration || !getVideoOperation) {
+        throw new InvalidInputError(`The "${provider.id}" provider cannot generate videos.`);
+    }
+
+    const image = dataUrlToPart(tryOnImageUrl);
+    const prompt = renderPrompt('video', { style });
+    const operationId = await raceWithAbort(
+        withRetry(() => startVideoGeneration({ image, prompt: prompt.text, promptVersion: prompt.version, signal }), { signal }),
+        signal,
+    );
+
+    const startedAt = Date.now();
+    onProgress?.(0);
+    for (;;) {
+        await sleep(pollIntervalMs, signal);
+        const status = await raceWithAbort(withRetry(() => getVideoOperation(operationId, signal), { signal }), signal);
+        if (status.done) {
+            if (!status.videoUrl) {
+                throw new NetworkError('The video generation finished without a video.');
+            }
+            onProgress?.(1);
+            return { videoUrl: await toObjectUrl(status.videoUrl), promptVersion: prompt.version };
+        }
+        // Never report completion before the operation says so.
+        onProgress?.(status.progress ?? Math.min(0.95, (Date.now() - startedAt) / EXPECTED_VIDEO_DURATION_MS));
+    }
 };
@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createDatabase, requestToPromise, transactionDone } from "../lib/indexedDb";
+
+/**
+ * An opt-in, content-addressed cache of generated images, stored in IndexedDB.
+ * Entries are keyed by a SHA-256 hash of everything that determines the output
+ * (provider, operation, prompt template version, parameters and input image bytes)
+ * and evicted least-recently-used first once the total size exceeds the cap.
+ */
+
+// Bookkeeping is kept apart from the (large) image data so eviction never has to load images.
+interface CacheEntryMeta {
+    key: string;
+    size: number;
+    createdAt: number;
+    lastAccessed: number;
+}
+
+interface CacheEntryImage {
+    key: string;
+    imageUrl: string;
+}
+
+export interface CacheStats {
+    entries: number;
+    totalBytes: number;
+    maxBytes: number;
+}
+
+const META_STORE = 'meta';
+const IMAGE_STORE = 'images';
+const ENABLED_STORAGE_KEY = 'virtual-try-on-cache-enabled';
+const DEFAULT_MAX_BYTES = 100 * 1024 * 1024;
+
+const openCache = createDatabase('virtual-try-on-generation-cache', 1, (db) => {
+    db.createObjectStore(IMAGE_STORE, { keyPath: 'key' });
+    db.createObjectStore(META_STORE, { keyPath: 'key' }).createIndex('lastAccessed', 'lastAccessed');
+});
+
+let maxBytes = Number(import.meta.env.VITE_GENERATION_CACHE_MAX_BYTES ?? DEFAULT_MAX_BYTES);
+
+export const isGenerationCacheEnabled = (): boolean => {
+    try {
+        return localStorage.getItem(ENABLED_STORAGE_KEY) === 'true';
+    } catch (e) {
+        return false;
+    }
+};
+
+export const setGenerationCacheEnabled = (enabled: boolean) => {
+    try {
+        localStorage.setItem(ENABLED_STORAGE_KEY, String(enabled));
+    } catch (e) {
+        console.warn('Could not persist the generation cache setting.', e);
+    }
+};
+
+export const setGenerationCacheMaxBytes = (bytes: number) => {
+    maxBytes = bytes;
+};
+
+/**
+ * Hashes the given key parts into a hex string. Parts are length-prefixed so that
+ * e.g. ['ab', 'c'] and ['a', 'bc'] never collide.
+ */
+export const hashKey = async (parts: string[]): Promise<string> => {
+    const encoded = new TextEncoder().encode(parts.map(part => `${part.length}:${part}`).join('|'));
+    const digest = await crypto.subtle.digest('SHA-256', encoded);
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const getCachedImage = async (key: string): Promise<string | null> => {
+    const db = await openCache();
+    const transaction = db.transaction([META_STORE, IMAGE_STORE], 'readwrite');
+    const metaStore = transaction.objectStore(META_STORE);
+    const [meta, image] = await Promise.all([
+        requestToPromise<CacheEntryMeta | undefined>(metaStore.get(key)),
+        requestToPromise<CacheEntryImage | undefined>(transaction.objectStore(IMAGE_STORE).get(key)),
+    ]);
+    if (meta && image) {
+        metaStore.put({ ...meta, lastAccessed: Date.now() } satisfies CacheEntryMeta);
+    }
+    await transactionDone(transaction);
+    return meta && image ? image.imageUrl : null;
+};
+
+// Removes least-recently-used entries until the cache fits within maxBytes.
+const evict = async (db: IDBDatabase) => {
+    const transaction = db.transaction([META_STORE, IMAGE_STORE], 'readwrite');
+    const metaStore = transaction.objectStore(META_STORE);
+    const imageStore = transaction.objectStore(IMAGE_STORE);
+    const entries = await requestToPromise<CacheEntryMeta[]>(metaStore.index('lastAccessed').getAll());
+    let totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+    for (const entry of entries) {
+        if (totalBytes <= maxBytes) break;
+        metaStore.delete(entry.key);
+        imageStore.delete(entry.key);
+        totalBytes -= entry.size;
+    }
+    await transactionDone(transaction);
+};
+
+export const putCachedImage = async (key: string, imageUrl: string): Promise<void> => {
+    const size = imageUrl.length;
+    if (size > maxBytes) return;
+    const db = await openCache();
+    const now = Date.now();
+    const transaction = db.transaction([META_STORE, IMAGE_STORE], 'readwrite');
+    transaction.objectStore(IMAGE_STORE).put({ key, imageUrl } satisfies CacheEntryImage);
+    transaction.objectStore(META_STORE).put({ key, size, createdAt: now, lastAccessed: now } satisfies CacheEntryMeta);
+    await transactionDone(transaction);
+    await evict(db);
+};
+
+export const getGenerationCacheStats = async (): Promise<CacheStats> => {
+    const db = await openCache();
+    const entries = await requestToPromise<CacheEntryMeta[]>(db.transaction(META_STORE).objectStore(META_STORE).getAll());
+    return {
+        entries: entries.length,
+        totalBytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+        maxBytes,
+    };
+};
+
+export const clearGenerationCache = async (): Promise<void> => {
+    const db = await openCache();
+    const transaction = db.transaction([META_STORE, IMAGE_STORE], 'readwrite');
+    transaction.objectStore(META_STORE).clear();
+    transaction.objectStore(IMAGE_STORE).clear();
+    await transactionDone(transaction);
+};
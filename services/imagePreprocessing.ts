@@ -0,0 +1,250 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { InvalidInputError } from "./errors";
+
+/**
+ * Normalizes user-supplied photos before they are sent to the model: EXIF orientation is
+ * baked into the pixels, formats the model does not accept are converted to PNG or JPEG,
+ * oversized images are downscaled, and EXIF metadata (GPS position, camera serials...) is
+ * dropped by re-encoding (WebP is re-encoded as PNG). Files that need none of this are passed
+ * through untouched.
+ */
+
+export type PreprocessingChange =
+    | { kind: 'orientation'; orientation: number }
+    | { kind: 'converted'; from: string; to: string }
+    | { kind: 'resized'; from: ImageSize; to: ImageSize }
+    | { kind: 'metadata-stripped' };
+
+export interface ImageSize {
+    width: number;
+    height: number;
+}
+
+export interface PreprocessedImage {
+    file: File;
+    // Empty when the original file was sent as-is.
+    changes: PreprocessingChange[];
+}
+
+export interface PreprocessingOptions {
+    // Longest side, in pixels, of the image sent to the model.
+    maxDimension?: number;
+    // Quality used when the output is JPEG, between 0 and 1.
+    jpegQuality?: number;
+}
+
+const DEFAULT_MAX_DIMENSION = 2048;
+const DEFAULT_JPEG_QUALITY = 0.92;
+// Formats the model accepts directly; anything else is re-encoded.
+const PASSTHROUGH_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+const HEIC_TYPES = ['image/heic', 'image/heif'];
+const ORIENTATION_TAG = 0x0112;
+
+const defaultOptions: Required<PreprocessingOptions> = {
+    maxDimension: Number(import.meta.env.VITE_INPUT_MAX_DIMENSION ?? DEFAULT_MAX_DIMENSION),
+    jpegQuality: DEFAULT_JPEG_QUALITY,
+};
+
+interface ExifInfo {
+    hasExif: boolean;
+    // 1 means upright; 2-8 are the EXIF mirror/rotate variants.
+    orientation: number;
+}
+
+// Reads the orientation tag from IFD0 of a TIFF structure (the payload of an EXIF block).
+const readTiffOrientation = (view: DataView, start: number): number => {
+    if (start + 8 > view.byteLength) return 1;
+    const littleEndian = view.getUint16(start) === 0x4949;
+    const ifdOffset = start + view.getUint32(start + 4, littleEndian);
+    if (ifdOffset + 2 > view.byteLength) return 1;
+    const entries = view.getUint16(ifdOffset, littleEndian);
+    for (let i = 0; i < entries; i++) {
+        const entry = ifdOffset + 2 + i * 12;
+        if (entry + 12 > view.byteLength) break;
+        if (view.getUint16(entry, littleEndian) === ORIENTATION_TAG) {
+            return view.getUint16(entry + 8, littleEndian);
+        }
+    }
+    return 1;
+};
+
+const hasExifHeader = (view: DataView, offset: number) =>
+    offset + 6 <= view.byteLength && view.getUint32(offset) === 0x45786966 && view.getUint16(offset + 4) === 0;
+
+const readJpegExif = (view: DataView): ExifInfo => {
+    let offset = 2;
+    while (offset + 4 <= view.byteLength && view.getUint8(offset) === 0xff) {
+        const marker = view.getUint8(offset + 1);
+        // Start of scan: no metadata segments follow.
+        if (marker === 0xda) break;
+        const length = view.getUint16(offset + 2);
+        if (marker === 0xe1 && hasExifHeader(view, offset + 4)) {
+            return { hasExif: true, orientation: readTiffOrientation(view, offset + 10) };
+        }
+        offset += 2 + length;
+    }
+    return { hasExif: false, orientation: 1 };
+};
+
+const readPngExif = (view: DataView): ExifInfo => {
+    let offset = 8;
+    while (offset + 8 <= view.byteLength) {
+        const length = view.getUint32(offset);
+        const type = view.getUint32(offset + 4);
+        // 'eXIf'
+        if (type === 0x65584966) {
+            return { hasExif: true, orientation: readTiffOrientation(view, offset + 8) };
+        }
+        // 'IDAT': metadata chunks come before the image data.
+        if (type === 0x49444154) break;
+        offset += 12 + length;
+    }
+    return { hasExif: false, orientation: 1 };
+};
+
+const readWebpExif = (view: DataView): ExifInfo => {
+    let offset = 12;
+    while (offset + 8 <= view.byteLength) {
+        const fourCC = view.getUint32(offset);
+        const size = view.getUint32(offset + 4, true);
+        // 'EXIF'
+        if (fourCC === 0x45584946) {
+            const tiffStart = hasExifHeader(view, offset + 8) ? offset + 14 : offset + 8;
+            return { hasExif: true, orientation: readTiffOrientation(view, tiffStart) };
+        }
+        offset += 8 + size + (size % 2);
+    }
+    return { hasExif: false, orientation: 1 };
+};
+
+const readExif = async (file: File): Promise<ExifInfo> => {
+    // Metadata lives near the start of the file; no need to read 20 MB to find it.
+    const view = new DataView(await file.slice(0, 256 * 1024).arrayBuffer());
+    try {
+        if (file.type === 'image/jpeg') return readJpegExif(view);
+        if (file.type === 'image/png') return readPngExif(view);
+        if (file.type === 'image/webp') return readWebpExif(view);
+    } catch (e) {
+        // A truncated or malformed header only means we cannot tell; re-encoding below handles the rest.
+    }
+    return { hasExif: false, orientation: 1 };
+};
+
+// Browsers other than Safari cannot decode HEIC, so those files go through a WASM decoder first.
+const decodeHeic = async (file: File): Promise<Blob> => {
+    const { default: heic2any } = await import('heic2any');
+    const converted = await heic2any({ blob: file, toType: 'image/jpeg', quality: DEFAULT_JPEG_QUALITY });
+    return Array.isArray(converted) ? converted[0] : converted;
+};
+
+// createImageBitmap applies the EXIF orientation itself, so the decoded pixels are already upright.
+const decode = async (file: File): Promise<ImageBitmap> => {
+    try {
+        return await createImageBitmap(file, { imageOrientation: 'from-image' });
+    } catch (e) {
+        if (!HEIC_TYPES.includes(file.type) && !/\.hei[cf]$/i.test(file.name)) {
+            throw new InvalidInputError(`Could not read the image "${file.name}". Please use a PNG, JPEG or WebP file.`, { cause: e });
+        }
+    }
+    try {
+        return await createImageBitmap(await decodeHeic(file));
+    } catch (e) {
+        throw new InvalidInputError(`Could not convert the HEIC image "${file.name}". Please export it as JPEG and try again.`, { cause: e });
+    }
+};
+
+const encode = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> => {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new InvalidInputError('Could not re-encode the image.')), type, quality);
+    });
+};
+
+const renameForType = (name: string, type: string) => {
+    const extension = type === 'image/jpeg' ? 'jpg' : 'png';
+    return /\.[^.]+$/.test(name) ? name.replace(/\.[^.]+$/, `.${extension}`) : `${name}.${extension}`;
+};
+
+export const preprocessImage = async (file: File, options: PreprocessingOptions = {}): Promise<PreprocessedImage> => {
+    const { maxDimension, jpegQuality } = { ...defaultOptions, ...options };
+    const exif = await readExif(file);
+    const needsConversion = !PASSTHROUGH_TYPES.includes(file.type);
+    const bitmap = await decode(file);
+    const original = { width: bitmap.width, height: bitmap.height };
+    const scale = Math.min(1, maxDimension / Math.max(original.width, original.height));
+
+    if (!needsConversion && !exif.hasExif && scale === 1) {
+        bitmap.close();
+        return { file, changes: [] };
+    }
+
+    const size = { width: Math.round(original.width * scale), height: Math.round(original.height * scale) };
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width;
+    canvas.height = size.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        bitmap.close();
+        throw new Error('Could not get canvas context.');
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, size.width, size.height);
+    bitmap.close();
+
+    // Photos stay JPEG; everything else becomes PNG so transparent garment cut-outs survive.
+    // WebP too: not every browser can encode it, and toBlob would quietly fall back to PNG anyway.
+    const isPhoto = file.type === 'image/jpeg' || HEIC_TYPES.includes(file.type);
+    const outputType = isPhoto ? 'image/jpeg' : 'image/png';
+    const blob = await encode(canvas, outputType, jpegQuality);
+
+    const changes: PreprocessingChange[] = [];
+    if (exif.orientation > 1) changes.push({ kind: 'orientation', orientation: exif.orientation });
+    if (outputType !== file.type) changes.push({ kind: 'converted', from: file.type || (file.name.split('.').pop() ?? 'unknown'), to: outputType });
+    if (scale < 1) changes.push({ kind: 'resized', from: original, to: size });
+    if (exif.hasExif) changes.push({ kind: 'metadata-stripped' });
+
+    const name = outputType === file.type ? file.name : renameForType(file.name, outputType);
+    return { file: new File([blob], name, { type: outputType, lastModified: file.lastModified }), changes };
+};
+
+const preprocessed = new WeakMap<File, Promise<PreprocessedImage>>();
+
+/**
+ * `preprocessImage` with the default options, memoized per File: candidates, retries and a
+ * preview shown before generating all share one decode and re-encode of the same upload.
+ */
+export const getPreprocessedImage = (file: File): Promise<PreprocessedImage> => {
+    let result = preprocessed.get(file);
+    if (!result) {
+        result = preprocessImage(file);
+        preprocessed.set(file, result);
+        result.catch(() => preprocessed.delete(file));
+    }
+    return result;
+};
+
+const formatName = (mimeType: string) => mimeType.replace(/^image\//, '').toUpperCase();
+
+export const describePreprocessingChange = (change: PreprocessingChange): string => {
+    switch (change.kind) {
+        case 'orientation':
+            return 'rotated upright';
+        case 'converted':
+            return `converted from ${formatName(change.from)} to ${formatName(change.to)}`;
+        case 'resized':
+            return `resized from ${change.from.width}×${change.from.height} to ${change.to.width}×${change.to.height}`;
+        case 'metadata-stripped':
+            return 'stripped of its metadata (location, camera details)';
+    }
+};
+
+// e.g. "Your photo was rotated upright and resized from 4032×3024 to 2048×1536."
+export const describePreprocessingChanges = (changes: PreprocessingChange[], subject = 'Your photo'): string | null => {
+    if (changes.length === 0) return null;
+    const parts = changes.map(describePreprocessingChange);
+    const list = parts.length > 1 ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}` : parts[0];
+    return `${subject} was ${list}.`;
+};
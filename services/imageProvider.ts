@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createProxyProvider } from "./proxyProvider";
+import { createFakeProvider } from "./fakeProvider";
+
+export type GenerationOperation = 'model' | 'try-on' | 'outfit' | 'pose' | 'edit' | 'isolate';
+
+// A base64 encoded image, in the same shape the Gemini API uses for inline data (and the proxy accepts).
+export interface InlineImage {
+    mimeType: string;
+    data: string;
+}
+
+export interface ImageGenerationRequest {
+    operation: GenerationOperation;
+    // Input images in the order the prompt refers to them.
+    images: InlineImage[];
+    prompt: string;
+    // Identifies the prompt template that rendered `prompt`, e.g. "try-on@1".
+    promptVersion?: string;
+    // Index of this request among parallel candidates; providers should vary their output by it.
+    variant?: number;
+    // Aborting rejects the pending generation with an AbortError.
+    signal?: AbortSignal;
+}
+
+export type TextGenerationOperation = 'tag';
+
+// The subset of JSON Schema used to request structured (JSON) answers.
+export interface JsonSchema {
+    type: 'object' | 'array' | 'string' | 'number' | 'boolean';
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    items?: JsonSchema;
+    enum?: string[];
+}
+
+export interface TextGenerationRequest {
+    operation: TextGenerationOperation;
+    images: InlineImage[];
+    prompt: string;
+    promptVersion?: string;
+    // When set, the provider resolves with JSON text conforming to this schema.
+    responseSchema?: JsonSchema;
+    signal?: AbortSignal;
+}
+
+export interface VideoGenerationRequest {
+    // The still the clip is animated from.
+    image: InlineImage;
+    prompt: string;
+    promptVersion?: string;
+    signal?: AbortSignal;
+}
+
+export interface VideoOperationStatus {
+    done: boolean;
+    // Fraction complete (0-1), when the backend reports it.
+    progress?: number;
+    // URL (data: or blob:) of the finished clip; set once `done`.
+    videoUrl?: string;
+}
+
+/**
+ * A backend capable of turning input images and a prompt into a new image.
+ * Implementations resolve with a data URL of the generated image.
+ *
+ * `generateText` answers questions about images (e.g. garment tagging) in text or JSON.
+ * Video generation is optional and long-running: `startVideoGeneration` resolves with an
+ * operation id as soon as the job is accepted, and `getVideoOperation` is polled until done.
+ */
+export interface ImageGenerationProvider {
+    readonly id: string;
+    generateImage: (request: ImageGenerationRequest) => Promise<string>;
+    generateText?: (request: TextGenerationRequest) => Promise<string>;
+    startVideoGeneration?: (request: VideoGenerationRequest) => Promise<string>;
+    getVideoOperation?: (operationId: string, signal?: AbortSignal) => Promise<VideoOperationStatus>;
+}
+
+type ProviderFactory = () => ImageGenerationProvider;
+
+const PROVIDER_STORAGE_KEY = 'virtual-try-on-provider';
+const PROVIDER_QUERY_PARAM = 'provider';
+const DEFAULT_PROVIDER_ID = 'proxy';
+
+const providerFactories: Record<string, ProviderFactory> = {
+    proxy: createProxyProvider,
+    fake: createFakeProvider,
+};
+
+let activeProvider: ImageGenerationProvider | null = null;
+
+export const registerImageProvider = (id: string, factory: ProviderFactory) => {
+    providerFactories[id] = factory;
+};
+
+export const getAvailableProviderIds = (): string[] => Object.keys(providerFactories);
+
+/**
+ * Resolves the provider id from, in order of precedence: the `?provider=` query
+ * parameter (which is remembered for later visits), a previously stored choice,
+ * the `VITE_IMAGE_PROVIDER` env variable, and finally the server proxy default.
+ */
+const resolveProviderId = (): string => {
+    try {
+        const fromQuery = new URLSearchParams(window.location.search).get(PROVIDER_QUERY_PARAM);
+        if (fromQuery && providerFactories[fromQuery]) {
+            localStorage.setItem(PROVIDER_STORAGE_KEY, fromQuery);
+            return fromQuery;
+        }
+        const fromStorage = localStorage.getItem(PROVIDER_STORAGE_KEY);
+        if (fromStorage && providerFactories[fromStorage]) {
+            return fromStorage;
+        }
+    } catch (e) {
+        // Storage can be unavailable (e.g. private mode). Fall through to the env default.
+    }
+    const fromEnv = import.meta.env.VITE_IMAGE_PROVIDER;
+    if (fromEnv && providerFactories[fromEnv]) {
+        return fromEnv;
+    }
+    return DEFAULT_PROVIDER_ID;
+};
+
+export const getImageProvider = (): ImageGenerationProvider => {
+    if (!activeProvider) {
+        activeProvider = providerFactories[resolveProviderId()]();
+    }
+    return activeProvider;
+};
+
+/**
+ * Switches the active provider at runtime. Accepts either a registered provider id,
+ * which is persisted for later visits, or a provider instance (useful in tests).
+ */
+export const setImageProvider = (provider: string | ImageGenerationProvider) => {
+    if (typeof provider !== 'string') {
+        activeProvider = provider;
+        return;
+    }
+    const factory = providerFactories[provider];
+    if (!factory) {
+        throw new Error(`Unknown image provider "${provider}". Available providers: ${getAvailableProviderIds().join(', ')}.`);
+    }
+    try {
+        localStorage.setItem(PROVIDER_STORAGE_KEY, provider);
+    } catch (e) {
+        // Persisting is best effort; the switch still applies to this session.
+    }
+    activeProvider = factory();
+};
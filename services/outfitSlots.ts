@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { GarmentCategory, OutfitLayer, OutfitSlot, StylingHint, WardrobeItem } from "../types";
+
+export const OUTFIT_SLOTS: readonly OutfitSlot[] = ['top', 'bottom', 'outer', 'footwear', 'accessories'];
+
+export const OUTFIT_SLOT_LABELS: Record<OutfitSlot, string> = {
+    top: 'Top',
+    bottom: 'Bottom',
+    outer: 'Outerwear',
+    footwear: 'Footwear',
+    accessories: 'Accessories',
+};
+
+// A dress fills both the top and the bottom slot.
+const SLOTS_BY_CATEGORY: Record<GarmentCategory, OutfitSlot[]> = {
+    top: ['top'],
+    bottom: ['bottom'],
+    dress: ['top', 'bottom'],
+    outerwear: ['outer'],
+    shoes: ['footwear'],
+    accessory: ['accessories'],
+};
+
+// Slots that take any number of garments: a new accessory is added, not swapped in.
+const STACKING_SLOTS: readonly OutfitSlot[] = ['accessories'];
+
+// Garments are slotted by their tagged category; untagged ones have no slot and are simply layered on top.
+export const getGarmentSlots = (garment: WardrobeItem): OutfitSlot[] => {
+    return garment.category ? SLOTS_BY_CATEGORY[garment.category] : [];
+};
+
+// The garments worn in a stack of layers, in the order they were put on. Edit layers repeat
+// the garment of the layer below them, so each garment is listed once.
+export const getWornGarments = (layers: OutfitLayer[]): WardrobeItem[] => {
+    const garments: WardrobeItem[] = [];
+    for (const { garment } of layers) {
+        if (garment && !garments.some(worn => worn.id === garment.id)) {
+            garments.push(garment);
+        }
+    }
+    return garments;
+};
+
+// An edit or background change adds a layer that repeats the garment of the layer it was applied
+// to, worn and fitted the same way, with the edited image for one pose.
+export const editLayer = (layer: OutfitLayer, poseInstruction: string, imageUrl: string): OutfitLayer => ({
+    garment: layer.garment,
+    styling: layer.styling,
+    fit: layer.fit,
+    poseImages: {
+        ...layer.poseImages,
+        [poseInstruction]: imageUrl,
+    },
+});
+
+// The worn garments that `garment` would replace because it needs a slot they occupy.
+export const findReplacedGarments = (worn: WardrobeItem[], garment: WardrobeItem): WardrobeItem[] => {
+    const slots = getGarmentSlots(garment).filter(slot => !STACKING_SLOTS.includes(slot));
+    return worn.filter(item => item.id !== garment.id && getGarmentSlots(item).some(slot => slots.includes(slot)));
+};
+
+// The outfit after putting `garment` on: it takes the place of the first garment it replaces
+// (by default, those in its slots), or goes on top if it replaces none.
+export const putOnGarment = (worn: WardrobeItem[], garment: WardrobeItem, replacedIds = findReplacedGarments(worn, garment).map(item => item.id)): WardrobeItem[] => {
+    const firstReplaced = worn.find(item => replacedIds.includes(item.id));
+    if (!firstReplaced) return [...worn, garment];
+    return worn.flatMap(item => item === firstReplaced ? [garment] : replacedIds.includes(item.id) ? [] : [item]);
+};
+
+export interface OutfitSlotGroup {
+    // null collects garments that are not tagged yet.
+    slot: OutfitSlot | null;
+    garments: WardrobeItem[];
+}
+
+// Worn garments grouped by slot, in slot order. A garment spanning several slots is listed under its first one.
+export const groupGarmentsBySlot = (garments: WardrobeItem[]): OutfitSlotGroup[] => {
+    const groups: OutfitSlotGroup[] = [...OUTFIT_SLOTS, null].map(slot => ({
+        slot,
+        garments: garments.filter(garment => (getGarmentSlots(garment)[0] ?? null) === slot),
+    }));
+    return groups.filter(group => group.garments.length > 0);
+};
+
+export const STYLING_HINT_LABELS: Record<StylingHint, string> = {
+    'tucked': 'Tucked in',
+    'open': 'Worn open',
+    'sleeves-rolled': 'Sleeves rolled',
+};
+
+// How each hint is phrased in the try-on prompt.
+const STYLING_HINT_INSTRUCTIONS: Record<StylingHint, string> = {
+    'tucked': 'tucked into the bottoms',
+    'open': 'worn open (unbuttoned or unzipped), showing the layer underneath',
+    'sleeves-rolled': 'with the sleeves rolled up to the forearms',
+};
+
+const HINTS_BY_CATEGORY: Record<GarmentCategory, StylingHint[]> = {
+    top: ['tucked', 'open', 'sleeves-rolled'],
+    bottom: [],
+    dress: ['sleeves-rolled'],
+    outerwear: ['open', 'sleeves-rolled'],
+    shoes: [],
+    accessory: [],
+};
+
+// The hints that make sense for a garment; untagged garments are offered all of them.
+export const getStylingHints = (garment: WardrobeItem): StylingHint[] => {
+    return garment.category ? HINTS_BY_CATEGORY[garment.category] : ['tucked', 'open', 'sleeves-rolled'];
+};
+
+// The styling of a garment in a stack: that of the topmost layer wearing it.
+export const getGarmentStyling = (layers: OutfitLayer[], garmentId: string): StylingHint[] => {
+    for (let i = layers.length - 1; i >= 0; i--) {
+        if (layers[i].garment?.id === garmentId) return layers[i].styling ?? [];
+    }
+    return [];
+};
+
+// e.g. "tucked into the bottoms, with the sleeves rolled up to the forearms"
+export const describeStylingHints = (hints: StylingHint[]): string | undefined => {
+    return hints.length > 0 ? hints.map(hint => STYLING_HINT_INSTRUCTIONS[hint]).join(', ') : undefined;
+};
@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Perceptual image hashes, computed locally. Unlike a hash of the bytes, a perceptual hash barely
+ * changes when an image is re-encoded, resized or slightly retouched, so near-identical images
+ * can be found by comparing hashes.
+ *
+ * This is a difference hash (dHash): the image is shrunk to 9×8 grayscale pixels and each bit
+ * records whether a pixel is brighter than its right-hand neighbour, giving 64 bits.
+ */
+
+const HASH_WIDTH = 8;
+const HASH_HEIGHT = 8;
+
+// Hashes this many bits apart or fewer are treated as the same picture.
+export const NEAR_DUPLICATE_DISTANCE = 6;
+
+const toBitmap = async (image: Blob | string): Promise<ImageBitmap> => {
+    const blob = typeof image === 'string' ? await (await fetch(image)).blob() : image;
+    return createImageBitmap(blob, { imageOrientation: 'from-image' });
+};
+
+// Resolves with the hash as 16 hex digits.
+export const computeImageHash = async (image: Blob | string): Promise<string> => {
+    const bitmap = await toBitmap(image);
+    const canvas = document.createElement('canvas');
+    canvas.width = HASH_WIDTH + 1;
+    canvas.height = HASH_HEIGHT;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        bitmap.close();
+        throw new Error('Could not get canvas context.');
+    }
+    // Transparent cutouts are hashed as if on white, the way they are shown.
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const luminance = (x: number, y: number) => {
+        const offset = (y * canvas.width + x) * 4;
+        return 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+    };
+    let hash = '';
+    for (let y = 0; y < HASH_HEIGHT; y++) {
+        // Each row gives 8 bits, two hex digits.
+        let row = 0;
+        for (let x = 0; x < HASH_WIDTH; x++) {
+            row = (row << 1) | (luminance(x, y) > luminance(x + 1, y) ? 1 : 0);
+        }
+        hash += row.toString(16).padStart(2, '0');
+    }
+    return hash;
+};
+
+// The number of bits in which two hashes differ.
+export const hashDistance = (a: string, b: string): number => {
+    let distance = 0;
+    for (let i = 0; i < a.length; i += 2) {
+        let bits = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+        while (bits) {
+            distance += bits & 1;
+            bits >>= 1;
+        }
+    }
+    return distance;
+};
+
+export const isNearDuplicate = (a: string, b: string): boolean => hashDistance(a, b) <= NEAR_DUPLICATE_DISTANCE;
+
+/**
+ * Groups items whose images are near-identical, keeping their order: each group starts with its
+ * first item, and later near-duplicates of it join that group. Items without a hash stay alone.
+ */
+export const groupNearDuplicates = <T>(items: T[], getHash: (item: T) => string | undefined): T[][] => {
+    const groups: { hash?: string; items: T[] }[] = [];
+    for (const item of items) {
+        const hash = getHash(item);
+        const group = hash ? groups.find(candidate => candidate.hash && isNearDuplicate(candidate.hash, hash)) : undefined;
+        if (group) {
+            group.items.push(item);
+        } else {
+            groups.push({ hash, items: [item] });
+        }
+    }
+    return groups.map(group => group.items);
+};
@@ -0,0 +1,272 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { GenerationOperation } from "./imageProvider";
+
+/**
+ * Post-processing applied to every generated image before it reaches the UI, as a pipeline
+ * of composable steps (resize, watermark, format conversion, metadata embedding) built from
+ * configuration. The defaults come from VITE_* env variables so each build (e.g. a retail
+ * partner's, or an internal QA build without a watermark) can brand its output differently;
+ * `setPostProcessingConfig` adjusts them at runtime.
+ */
+
+export interface PostProcessingContext {
+    operation: GenerationOperation;
+    promptVersion: string;
+    providerId: string;
+}
+
+// A step receives and returns a data URL. Steps must not fail the generation for cosmetic reasons.
+export type PostProcessingStep = (imageUrl: string, context: PostProcessingContext) => Promise<string>;
+
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
+
+export interface WatermarkConfig {
+    // A logo image URL (data URL, same-origin or CORS-enabled). Falls back to `text` if it cannot be loaded.
+    logoUrl?: string;
+    text: string;
+    position: WatermarkPosition;
+    // 0 (invisible) to 1 (opaque).
+    opacity: number;
+    // Width of the watermark as a fraction of the image width.
+    size: number;
+}
+
+export interface PostProcessingConfig {
+    // `false` disables the watermark entirely.
+    watermark: WatermarkConfig | false;
+    // Longest side of the output in pixels; larger results are downscaled.
+    maxDimension?: number;
+    format: 'image/png' | 'image/jpeg' | 'image/webp';
+    // Quality for lossy formats, between 0 and 1.
+    quality: number;
+    // Embed provenance (operation, prompt version, provider, time) as PNG text chunks / a JPEG comment.
+    embedMetadata: boolean;
+}
+
+const OUTPUT_FORMATS: PostProcessingConfig['format'][] = ['image/png', 'image/jpeg', 'image/webp'];
+const WATERMARK_POSITIONS: WatermarkPosition[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right', 'center'];
+
+const env = import.meta.env;
+
+const defaultWatermark: WatermarkConfig = {
+    logoUrl: env.VITE_WATERMARK_LOGO_URL || undefined,
+    text: env.VITE_WATERMARK_TEXT || 'Virtual U AR',
+    position: WATERMARK_POSITIONS.find(position => position === env.VITE_WATERMARK_POSITION) ?? 'bottom-right',
+    opacity: Number(env.VITE_WATERMARK_OPACITY ?? 0.75),
+    size: Number(env.VITE_WATERMARK_SIZE ?? 0.16),
+};
+
+let config: PostProcessingConfig = {
+    watermark: env.VITE_WATERMARK === 'off' ? false : defaultWatermark,
+    maxDimension: env.VITE_OUTPUT_MAX_DIMENSION ? Number(env.VITE_OUTPUT_MAX_DIMENSION) : undefined,
+    format: OUTPUT_FORMATS.find(format => format === env.VITE_OUTPUT_FORMAT) ?? 'image/png',
+    quality: Number(env.VITE_OUTPUT_QUALITY ?? 0.92),
+    embedMetadata: env.VITE_OUTPUT_METADATA !== 'off',
+};
+
+export const getPostProcessingConfig = (): PostProcessingConfig => config;
+
+export const setPostProcessingConfig = (changes: Partial<PostProcessingConfig>) => {
+    config = { ...config, ...changes };
+};
+
+const loadImage = (url: string, crossOrigin = false): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        if (crossOrigin) image.crossOrigin = 'anonymous';
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error(`Could not load image ${url.slice(0, 64)}`));
+        image.src = url;
+    });
+};
+
+const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context.');
+    }
+    return { canvas, ctx };
+};
+
+const mimeTypeOf = (dataUrl: string) => dataUrl.slice(5, dataUrl.indexOf(';'));
+
+// Intermediate steps keep the input's type; only the format step changes it.
+const INTERMEDIATE_QUALITY = 0.95;
+const toDataUrl = (canvas: HTMLCanvasElement, type: string) => canvas.toDataURL(type, INTERMEDIATE_QUALITY);
+
+export const resizeStep = (maxDimension: number): PostProcessingStep => async (imageUrl) => {
+    const image = await loadImage(imageUrl);
+    const scale = maxDimension / Math.max(image.naturalWidth, image.naturalHeight);
+    if (scale >= 1) return imageUrl;
+    const { canvas, ctx } = createCanvas(Math.round(image.naturalWidth * scale), Math.round(image.naturalHeight * scale));
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return toDataUrl(canvas, mimeTypeOf(imageUrl));
+};
+
+const placeWatermark = (position: WatermarkPosition, canvas: HTMLCanvasElement, width: number, height: number) => {
+    const margin = Math.round(canvas.width * 0.02);
+    const x = position.endsWith('left') ? margin
+        : position.endsWith('right') ? canvas.width - width - margin
+        : (canvas.width - width) / 2;
+    const y = position.startsWith('top') ? margin
+        : position.startsWith('bottom') ? canvas.height - height - margin
+        : (canvas.height - height) / 2;
+    return { x, y };
+};
+
+export const watermarkStep = (watermark: WatermarkConfig): PostProcessingStep => async (imageUrl) => {
+    const image = await loadImage(imageUrl);
+    const { canvas, ctx } = createCanvas(image.naturalWidth, image.naturalHeight);
+    ctx.drawImage(image, 0, 0);
+    ctx.globalAlpha = Math.min(1, Math.max(0, watermark.opacity));
+    const targetWidth = canvas.width * watermark.size;
+
+    const logo = watermark.logoUrl
+        ? await loadImage(watermark.logoUrl, true).catch(e => {
+            console.warn('Could not load the watermark logo, using the text watermark instead.', e);
+            return null;
+        })
+        : null;
+
+    if (logo) {
+        const height = targetWidth * (logo.naturalHeight / logo.naturalWidth);
+        const { x, y } = placeWatermark(watermark.position, canvas, targetWidth, height);
+        ctx.drawImage(logo, x, y, targetWidth, height);
+    } else {
+        // Scale the font so the text spans the configured width.
+        ctx.font = '600 100px Inter, sans-serif';
+        const fontSize = Math.max(12, 100 * targetWidth / ctx.measureText(watermark.text).width);
+        ctx.font = `600 ${fontSize}px Inter, sans-serif`;
+        const width = ctx.measureText(watermark.text).width;
+        const { x, y } = placeWatermark(watermark.position, canvas, width, fontSize);
+        // A subtle shadow keeps the text readable on any background.
+        ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+        ctx.shadowBlur = 6;
+        ctx.shadowOffsetX = 1;
+        ctx.shadowOffsetY = 2;
+        ctx.fillStyle = '#ffffff';
+        ctx.textBaseline = 'top';
+        ctx.fillText(watermark.text, x, y);
+    }
+    return toDataUrl(canvas, mimeTypeOf(imageUrl));
+};
+
+export const formatStep = (format: PostProcessingConfig['format'], quality: number): PostProcessingStep => async (imageUrl) => {
+    if (mimeTypeOf(imageUrl) === format) return imageUrl;
+    const image = await loadImage(imageUrl);
+    const { canvas, ctx } = createCanvas(image.naturalWidth, image.naturalHeight);
+    if (format === 'image/jpeg') {
+        // JPEG has no alpha; flatten onto white rather than black.
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    ctx.drawImage(image, 0, 0);
+    return canvas.toDataURL(format, quality);
+};
+
+const base64ToBytes = (base64: string) => Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+
+const bytesToBase64 = (bytes: Uint8Array) => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+    let crc = 0xffffffff;
+    for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const latin1 = (text: string) => Uint8Array.from(text, char => Math.min(char.charCodeAt(0), 0xff));
+
+const pngTextChunk = (keyword: string, text: string) => {
+    const data = latin1(`${keyword}\0${text}`);
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set(latin1('tEXt'), 4);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+};
+
+const concatBytes = (parts: Uint8Array[]) => {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    parts.reduce((offset, part) => (result.set(part, offset), offset + part.length), 0);
+    return result;
+};
+
+// Adds tEXt chunks after IHDR (PNG) or a COM segment after SOI (JPEG). Other formats are left alone.
+const embedMetadata = (imageUrl: string, fields: Record<string, string>): string => {
+    const type = mimeTypeOf(imageUrl);
+    const bytes = base64ToBytes(imageUrl.slice(imageUrl.indexOf(',') + 1));
+    let output: Uint8Array;
+    if (type === 'image/png') {
+        // 8-byte signature + 25-byte IHDR chunk.
+        const chunks = Object.entries(fields).map(([key, value]) => pngTextChunk(key, value));
+        output = concatBytes([bytes.subarray(0, 33), ...chunks, bytes.subarray(33)]);
+    } else if (type === 'image/jpeg') {
+        const comment = latin1(Object.entries(fields).map(([key, value]) => `${key}: ${value}`).join('\n'));
+        const segment = new Uint8Array(4 + comment.length);
+        new DataView(segment.buffer).setUint16(0, 0xfffe);
+        new DataView(segment.buffer).setUint16(2, comment.length + 2);
+        segment.set(comment, 4);
+        output = concatBytes([bytes.subarray(0, 2), segment, bytes.subarray(2)]);
+    } else {
+        return imageUrl;
+    }
+    return `data:${type};base64,${bytesToBase64(output)}`;
+};
+
+export const metadataStep = (): PostProcessingStep => async (imageUrl, context) => {
+    return embedMetadata(imageUrl, {
+        Software: 'Virtual U AR',
+        Operation: context.operation,
+        'Prompt Version': context.promptVersion,
+        Provider: context.providerId,
+        'Creation Time': new Date().toISOString(),
+    });
+};
+
+// Metadata comes last because any re-encoding step would drop it.
+export const buildPostProcessingPipeline = (pipelineConfig: PostProcessingConfig = config): PostProcessingStep[] => {
+    const steps: PostProcessingStep[] = [];
+    if (pipelineConfig.maxDimension) steps.push(resizeStep(pipelineConfig.maxDimension));
+    if (pipelineConfig.watermark) steps.push(watermarkStep(pipelineConfig.watermark));
+    steps.push(formatStep(pipelineConfig.format, pipelineConfig.quality));
+    if (pipelineConfig.embedMetadata) steps.push(metadataStep());
+    return steps;
+};
+
+/**
+ * Runs the configured pipeline. A failing step is logged and skipped so that a cosmetic
+ * problem (e.g. an undecodable logo) never costs the user a generation.
+ */
+export const runPostProcessing = async (imageUrl: string, context: PostProcessingContext, steps = buildPostProcessingPipeline()): Promise<string> => {
+    let result = imageUrl;
+    for (const step of steps) {
+        try {
+            result = await step(result, context);
+        } catch (e) {
+            console.error('Post-processing step failed; continuing without it.', e);
+        }
+    }
+    return result;
+};
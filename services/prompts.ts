@@ -0,0 +1,270 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Registry of named, versioned prompt templates. Every generation renders its prompt
+ * through here and records the resulting `id@version`, so results can be traced back
+ * to the exact prompt that produced them. Bump `version` whenever a template's wording
+ * changes. Templates can be overridden at runtime, e.g. to A/B test a new wording.
+ */
+
+// The default studio backdrop, shared by model creation, the initial session background and the "Studio" preset.
+export const STUDIO_BACKGROUND = "an elegant, high-end studio setting featuring a white fluted column, soft sheer white fabric drapes, and a floral arrangement with white and peach flowers on a pedestal, with a clean white floor";
+
+export interface PromptVariables {
+    'model': { background: string };
+    'try-on': { background?: string; garmentRole?: string; styling?: string; fit?: string };
+    'outfit': { background?: string; garments: { role: string; styling?: string; fit?: string }[] };
+    // References are extra garment photos, sent after the try-on image in this order.
+    'pose': { pose: string; background?: string; references?: { garment: string; view: 'back' | 'detail' }[] };
+    'edit': { instruction: string };
+    'background-change': { background: string };
+    'video': { style: OutfitVideoStyle };
+    'isolate': Record<string, never>;
+    // Without a color, the second image is a fabric or pattern swatch to apply.
+    'garment-variant': { color?: string };
+    'tag': { categories: readonly string[] };
+}
+
+export type OutfitVideoStyle = 'runway' | 'turnaround';
+
+export type PromptTemplateId = keyof PromptVariables;
+
+export interface PromptTemplate<Id extends PromptTemplateId = PromptTemplateId> {
+    id: Id;
+    version: number;
+    // Variables the wording cannot do without; rendering throws if one is missing.
+    required?: readonly (keyof PromptVariables[Id])[];
+    render: (variables: PromptVariables[Id]) => string;
+}
+
+export interface RenderedPrompt {
+    text: string;
+    // e.g. "try-on@1"
+    version: string;
+}
+
+const modelTemplate: PromptTemplate<'model'> = {
+    id: 'model',
+    version: 1,
+    required: ['background'],
+    render: ({ background }) => `You are an expert fashion photographer AI. Transform the person in this image into a full-body fashion model photo suitable for an e-commerce website. The background must be ${background}. The lighting should be soft, diffused, and flattering, creating a luxurious and airy atmosphere. The person should have a neutral, professional model expression. Preserve the person's identity, unique features, and body type, but place them in a standard, relaxed standing model pose. The final image must be photorealistic and contain no text, logos, or watermarks. Return ONLY the final image.`,
+};
+
+const tryOnTemplate: PromptTemplate<'try-on'> = {
+    id: 'try-on',
+    version: 3,
+    // Explicitly defining input roles and strict requirements to improve wardrobe accuracy
+    render: ({ background, garmentRole = 'Clothing', styling, fit }) => `You are an expert virtual try-on AI.
+The FIRST image provided is the PERSON (Model).
+The SECOND image provided is the GARMENT (${garmentRole}).
+
+TASK:
+Replace the person's current outfit with the NEW GARMENT from the second image.
+
+CRITICAL INSTRUCTIONS:
+1. **FULL REPLACEMENT:** You must COMPLETELY remove and replace the person's existing clothing in the area where the new garment is worn. The old outfit must NOT be visible under, over, or blended with the new garment.
+2. **Garment Fidelity:** The new garment on the model must look exactly like the reference garment in image 2 (same color, pattern, texture, shape, logos).
+3. **Identity Preservation:** Keep the person's face, hair, body shape, and pose exactly as they are in image 1.
+${fit
+    ? `4. **Fit:** The garment is worn in ${fit}. Show exactly this fit on the person's body, respecting the pose; do NOT make it fit perfectly.`
+    : '4. **Natural Fit:** The garment should drape realistically on the body, respecting the pose.'}
+${background
+    ? `5. **Background Consistency:** The background MUST be: ${background}.`
+    : '5. **Background Consistency:** Keep the background consistent with the input image.'}
+${styling ? `6. **Styling:** Wear the new garment ${styling}.\n` : ''}
+Return ONLY the generated image.`,
+};
+
+// Dresses the person in several garments at once, listed in the order they are layered.
+const outfitTemplate: PromptTemplate<'outfit'> = {
+    id: 'outfit',
+    version: 2,
+    required: ['garments'],
+    render: ({ background, garments }) => `You are an expert virtual try-on AI.
+The FIRST image provided is the PERSON (Model).
+${garments.map((garment, index) => `Image ${index + 2} is a GARMENT (${garment.role})${garment.styling ? `, to be worn ${garment.styling}` : ''}${garment.fit ? `, worn in ${garment.fit}` : ''}.`).join('\n')}
+
+TASK:
+Dress the person in ALL of the garments above at once, as one complete outfit. They are listed in the order they are put on: later garments are layered over earlier ones where they overlap.
+
+CRITICAL INSTRUCTIONS:
+1. **FULL REPLACEMENT:** Wherever one of the new garments is worn, COMPLETELY remove the person's existing clothing. Clothing in areas no new garment covers stays as it is.
+2. **Garment Fidelity:** Each garment on the model must look exactly like its reference image (same color, pattern, texture, shape, logos). Do not merge or mix up garments.
+3. **Identity Preservation:** Keep the person's face, hair, body shape, and pose exactly as they are in image 1.
+4. **Natural Fit:** The garments should drape and layer realistically on the body, respecting the pose. Where a garment's fit is given, show exactly that fit; do NOT make it fit perfectly.
+${background
+    ? `5. **Background Consistency:** The background MUST be: ${background}.`
+    : '5. **Background Consistency:** Keep the background consistent with the input image.'}
+
+Return ONLY the generated image.`,
+};
+
+const POSE_REFERENCE_VIEWS = { back: 'the BACK of', detail: 'a close-up DETAIL of' };
+
+const poseTemplate: PromptTemplate<'pose'> = {
+    id: 'pose',
+    version: 2,
+    required: ['pose'],
+    // Reference photos keep garments accurate where the new perspective shows what the input image cannot.
+    render: ({ pose, background, references = [] }) => `You are an expert fashion photographer AI.
+
+INPUT: An image of a model wearing specific clothing.
+${references.length > 0 ? `REFERENCES: The following images are product photos of garments the model is wearing:
+${references.map((reference, index) => `Image ${index + 2} shows ${POSE_REFERENCE_VIEWS[reference.view]} the ${reference.garment}.`).join('\n')}
+` : ''}TASK: Regenerate this image from a different perspective based on the instruction below.
+INSTRUCTION: "${pose}"
+
+REQUIREMENTS:
+1. **Identity & Clothing Persistence:** The person and the CLOTHING they are wearing must remain IDENTICAL to the input image. Do not change the outfit.
+2. **Background:** ${background
+    ? `The background MUST be: ${background}.`
+    : 'The background style must remain consistent with the input image.'}
+3. **Photorealism:** The output must be a high-quality, photorealistic image.
+${references.length > 0 ? `4. **Garment Accuracy:** Wherever the new perspective shows a part of a garment that has a reference photo, reproduce it exactly from that photo: prints, zippers, seams, pockets and labels. Do not invent details the references do not show.
+` : ''}
+Return ONLY the final image.`,
+};
+
+const editTemplate: PromptTemplate<'edit'> = {
+    id: 'edit',
+    version: 1,
+    required: ['instruction'],
+    render: ({ instruction }) => `You are an expert photo editing AI.
+
+INPUT: An image.
+INSTRUCTION: "${instruction}"
+
+TASK: Edit the image according to the instruction.
+- Maintain photorealism.
+- Preserve the model's identity and unaffected clothing details unless the prompt specifically asks to change them.
+- Ensure the edit blends seamlessly.
+
+Return ONLY the final, edited image.`,
+};
+
+// Used when the user picks a new background; sent through the edit operation.
+const backgroundChangeTemplate: PromptTemplate<'background-change'> = {
+    id: 'background-change',
+    version: 2,
+    required: ['background'],
+    render: ({ background }) => `You are an expert photo editing AI.
+
+INPUT: An image.
+INSTRUCTION: "Change the background to ${background}. The subject should be perfectly preserved."
+
+TASK: Edit the image according to the instruction.
+- Maintain photorealism.
+- Preserve the model's identity and clothing details exactly.
+- Ensure the edit blends seamlessly.
+
+Return ONLY the final, edited image.`,
+};
+
+// Turns a raw garment photo (flat-lay on a bed, worn by someone...) into a clean product cutout.
+const isolateTemplate: PromptTemplate<'isolate'> = {
+    id: 'isolate',
+    version: 1,
+    render: () => `You are an expert e-commerce product photo retoucher AI.
+
+INPUT: A photo containing a single garment or accessory. It may be laid flat on a bed or floor, hung up, or worn by a person.
+TASK: Isolate the garment and present it as a clean product photo.
+
+REQUIREMENTS:
+1. **Garment Only:** Remove everything that is not the garment: the background, surfaces, hangers, and any person wearing it (including skin, hair and other clothing).
+2. **Fidelity:** Keep the garment's exact color, pattern, texture, shape, logos and details. Do not restyle or redesign it.
+3. **Presentation:** Show the whole garment, centered, front facing and neatly laid out, on a pure white (#FFFFFF) background with soft, even lighting.
+
+Return ONLY the final image.`,
+};
+
+// Recolors a garment cutout, or re-covers it with the fabric or pattern of a swatch image.
+const garmentVariantTemplate: PromptTemplate<'garment-variant'> = {
+    id: 'garment-variant',
+    version: 1,
+    render: ({ color }) => `You are an expert e-commerce product photo retoucher AI.
+
+The FIRST image provided is a product photo of a GARMENT.
+${color
+    ? `TASK: Show the same garment in the color "${color}".`
+    : 'The SECOND image provided is a fabric or pattern SWATCH.\nTASK: Show the same garment made from the fabric in the swatch, with its color, pattern and texture.'}
+
+REQUIREMENTS:
+1. **Same Garment:** Keep the garment's exact shape, cut, seams, proportions, fold lines and details such as buttons, zippers and stitching.
+2. **Only the Fabric Changes:** ${color
+    ? 'Recolor the fabric evenly, keeping its pattern, texture, shading and highlights. Hardware and trims keep their own colors.'
+    : 'Apply the swatch at a realistic scale, following the garment\'s folds and seams. Hardware and trims keep their own colors.'}
+3. **Presentation:** Keep the framing, background and lighting of the first image.
+
+Return ONLY the final image.`,
+};
+
+const tagTemplate: PromptTemplate<'tag'> = {
+    id: 'tag',
+    version: 1,
+    required: ['categories'],
+    render: ({ categories }) => `You are a fashion merchandising expert. Describe the single garment or accessory in this image for an online wardrobe.
+
+- **name:** A short, human-readable product name (2-5 words), e.g. "Navy Striped Linen Shirt". Do not use file names or brand guesses.
+- **category:** Exactly one of: ${categories.join(', ')}.
+- **colors:** The dominant colors as plain color names, most prominent first (at most 3).
+- **pattern:** e.g. solid, striped, checked, floral, graphic print.
+- **material:** Your best guess of the fabric or material, e.g. denim, cotton jersey, leather.
+
+Ignore the background and any person wearing the garment.`,
+};
+
+const VIDEO_MOTION: Record<OutfitVideoStyle, string> = {
+    'runway': 'walks confidently toward the camera down a fashion runway, with natural arm swing and fabric moving with each step',
+    'turnaround': 'slowly turns 360 degrees in place, so the outfit is shown from the front, the sides and the back',
+};
+
+const videoTemplate: PromptTemplate<'video'> = {
+    id: 'video',
+    version: 1,
+    required: ['style'],
+    render: ({ style }) => `A short, photorealistic fashion clip animated from the provided image. The person ${VIDEO_MOTION[style]}.
+Keep the person's face, hair, body shape and every garment exactly as in the image: same colors, patterns, fit and details. Keep the background and lighting of the image. Smooth, steady camera. No text, logos or watermarks.`,
+};
+
+const defaultTemplates: { [Id in PromptTemplateId]: PromptTemplate<Id> } = {
+    'model': modelTemplate,
+    'try-on': tryOnTemplate,
+    'outfit': outfitTemplate,
+    'pose': poseTemplate,
+    'edit': editTemplate,
+    'background-change': backgroundChangeTemplate,
+    'video': videoTemplate,
+    'isolate': isolateTemplate,
+    'garment-variant': garmentVariantTemplate,
+    'tag': tagTemplate,
+};
+
+const overrides: Partial<Record<PromptTemplateId, unknown>> = {};
+
+export const getPromptTemplate = <Id extends PromptTemplateId>(id: Id): PromptTemplate<Id> => {
+    return (overrides[id] ?? defaultTemplates[id]) as PromptTemplate<Id>;
+};
+
+export const renderPrompt = <Id extends PromptTemplateId>(id: Id, variables: PromptVariables[Id]): RenderedPrompt => {
+    const template = getPromptTemplate(id);
+    const missing = template.required?.find(name => variables?.[name] == null);
+    if (missing !== undefined) {
+        throw new Error(`Prompt "${template.id}@${template.version}" is missing the variable "${String(missing)}".`);
+    }
+    return { text: template.render(variables), version: `${template.id}@${template.version}` };
+};
+
+/**
+ * Replaces a template for the rest of the session. Give the override a version that
+ * differs from the default so results generated with it can be told apart.
+ */
+export const overridePromptTemplate = <Id extends PromptTemplateId>(template: PromptTemplate<Id>) => {
+    overrides[template.id] = template;
+};
+
+export const resetPromptTemplate = (id: PromptTemplateId) => {
+    delete overrides[id];
+};
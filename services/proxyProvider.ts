@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageGenerationProvider, ImageGenerationRequest, TextGenerationRequest, VideoGenerationRequest, VideoOperationStatus } from "./imageProvider";
+import { deserializeGenerationError, NetworkError, SerializedGenerationError, toGenerationError } from "./errors";
+
+interface ProxyResponse extends Partial<VideoOperationStatus> {
+    imageUrl?: string;
+    text?: string;
+    operationId?: string;
+    error?: SerializedGenerationError;
+}
+
+// Performs a request against the proxy, turning transport failures and error payloads into typed errors.
+const request = async (url: string, init: RequestInit): Promise<ProxyResponse> => {
+    let response: Response;
+    try {
+        response = await fetch(url, init);
+    } catch (e) {
+        throw toGenerationError(e);
+    }
+    const payload: ProxyResponse | null = await response.json().catch(() => null);
+    if (!response.ok) {
+        throw deserializeGenerationError(payload?.error, response.status);
+    }
+    if (!payload) {
+        throw new NetworkError('The generation service returned an unexpected response.');
+    }
+    return payload;
+};
+
+const postJson = (url: string, body: unknown, signal?: AbortSignal) => request(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+});
+
+/**
+ * Sends generations to the proxy in server/, which holds the API key and forwards them to
+ * Gemini. Typed errors raised on the server are rebuilt here, so retries and remediation
+ * behave exactly as if the model had been called directly.
+ */
+export const createProxyProvider = (): ImageGenerationProvider => {
+    // Empty means same origin: the Vite dev server forwards /api to the proxy.
+    const baseUrl = import.meta.env.VITE_API_BASE_URL ?? '';
+
+    return {
+        id: 'proxy',
+        generateImage: async ({ operation, images, prompt, promptVersion, variant, signal }: ImageGenerationRequest) => {
+            const { imageUrl } = await postJson(`${baseUrl}/api/generate/${operation}`, { images, prompt, promptVersion, variant }, signal);
+            if (!imageUrl) {
+                throw new NetworkError('The generation service returned an unexpected response.');
+            }
+            return imageUrl;
+        },
+        generateText: async ({ operation, images, prompt, promptVersion, responseSchema, signal }: TextGenerationRequest) => {
+            const { text } = await postJson(`${baseUrl}/api/text/${operation}`, { images, prompt, promptVersion, responseSchema }, signal);
+            if (typeof text !== 'string') {
+                throw new NetworkError('The generation service returned an unexpected response.');
+            }
+            return text;
+        },
+        startVideoGeneration: async ({ image, prompt, promptVersion, signal }: VideoGenerationRequest) => {
+            const { operationId } = await postJson(`${baseUrl}/api/video`, { image, prompt, promptVersion }, signal);
+            if (!operationId) {
+                throw new NetworkError('The generation service returned an unexpected response.');
+            }
+            return operationId;
+        },
+        getVideoOperation: async (operationId: string, signal?: AbortSignal) => {
+            const { done = false, progress, videoUrl } = await request(`${baseUrl}/api/video/operations/${encodeURIComponent(operationId)}`, { signal });
+            return { done, progress, videoUrl };
+        },
+    };
+};
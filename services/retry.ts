@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AbortedError, GenerationError, RateLimitedError, toGenerationError } from "./errors";
+
+export interface RetryOptions {
+    maxAttempts?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    signal?: AbortSignal;
+    onRetry?: (attempt: number, error: GenerationError, delayMs: number) => void;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 10000;
+
+// Resolves after `ms`, or rejects with an AbortedError as soon as the signal aborts.
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new AbortedError());
+    const timeout = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timeout);
+        reject(new AbortedError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Exponential backoff with "full jitter": a random delay in [0, min(max, base * 2^attempt)).
+const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number) => {
+    return Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+};
+
+/**
+ * Runs `operation`, retrying transient (retryable) GenerationErrors with exponential
+ * backoff and jitter. A server-provided retry delay on RateLimitedError takes precedence.
+ * Errors are normalized through toGenerationError before being rethrown.
+ */
+export const withRetry = async <T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+    const {
+        maxAttempts = DEFAULT_MAX_ATTEMPTS,
+        baseDelayMs = DEFAULT_BASE_DELAY_MS,
+        maxDelayMs = DEFAULT_MAX_DELAY_MS,
+        signal,
+        onRetry,
+    } = options;
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await operation();
+        } catch (err) {
+            const error = toGenerationError(err);
+            if (signal?.aborted) throw new AbortedError();
+            if (!(error instanceof GenerationError) || !error.retryable || attempt >= maxAttempts) {
+                throw error;
+            }
+            const delayMs = error instanceof RateLimitedError && error.retryAfterMs !== undefined
+                ? Math.min(error.retryAfterMs, maxDelayMs)
+                : backoffDelay(attempt - 1, baseDelayMs, maxDelayMs);
+            onRetry?.(attempt, error, delayMs);
+            await sleep(delayMs, signal);
+        }
+    }
+};
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { GarmentCategory, WardrobeItem } from "../types";
+import { GARMENT_CATEGORIES, GARMENT_CATEGORY_LABELS } from "./garmentTagging";
+
+export type WardrobeSort = 'recently-used' | 'recently-added' | 'name';
+
+export const WARDROBE_SORT_LABELS: Record<WardrobeSort, string> = {
+    'recently-used': 'Recently used',
+    'recently-added': 'Recently added',
+    name: 'Name',
+};
+
+// Null filters match everything. `collection` is 'favorites' or the id of a user collection.
+export interface WardrobeQuery {
+    search: string;
+    category: GarmentCategory | null;
+    color: string | null;
+    collection: string | null;
+    sort: WardrobeSort;
+}
+
+export const EMPTY_WARDROBE_QUERY: WardrobeQuery = { search: '', category: null, color: null, collection: null, sort: 'recently-added' };
+
+// Everything a search can match: the name and every tag.
+const searchableText = (item: WardrobeItem): string => [
+    item.name,
+    item.category && GARMENT_CATEGORY_LABELS[item.category],
+    ...(item.colors ?? []),
+    item.pattern,
+    item.material,
+].filter(Boolean).join(' ').toLowerCase();
+
+const compareItems: Record<WardrobeSort, (a: WardrobeItem, b: WardrobeItem) => number> = {
+    // Never-used items follow the used ones, newest first.
+    'recently-used': (a, b) => (b.lastUsedAt ?? 0) - (a.lastUsedAt ?? 0) || (b.addedAt ?? 0) - (a.addedAt ?? 0),
+    'recently-added': (a, b) => (b.addedAt ?? 0) - (a.addedAt ?? 0),
+    name: (a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }),
+};
+
+/**
+ * Applies a query to the wardrobe. Every word of the search must appear somewhere in the
+ * item's name or tags, so "blue linen" finds a blue linen shirt.
+ */
+export const queryWardrobe = (items: WardrobeItem[], query: WardrobeQuery): WardrobeItem[] => {
+    const words = query.search.toLowerCase().split(/\s+/).filter(Boolean);
+    return items
+        .filter(item => {
+            if (query.category && item.category !== query.category) return false;
+            if (query.color && !item.colors?.includes(query.color)) return false;
+            if (query.collection === 'favorites' && !item.favorite) return false;
+            if (query.collection && query.collection !== 'favorites' && !item.collectionIds?.includes(query.collection)) return false;
+            if (words.length === 0) return true;
+            const text = searchableText(item);
+            return words.every(word => text.includes(word));
+        })
+        .sort(compareItems[query.sort]);
+};
+
+// The categories present in the wardrobe, in their usual order.
+export const getWardrobeCategories = (items: WardrobeItem[]): GarmentCategory[] =>
+    GARMENT_CATEGORIES.filter(category => items.some(item => item.category === category));
+
+// The most common colors in the wardrobe, most common first.
+export const getWardrobeColors = (items: WardrobeItem[], limit = 8): string[] => {
+    const counts = new Map<string, number>();
+    items.forEach(item => item.colors?.forEach(color => counts.set(color, (counts.get(color) ?? 0) + 1)));
+    return [...counts.entries()]
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, limit)
+        .map(([color]) => color);
+};
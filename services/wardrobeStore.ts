@@ -0,0 +1,161 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createDatabase, requestToPromise, transactionDone } from "../lib/indexedDb";
+import type { WardrobeCollection, WardrobeItem } from "../types";
+
+/**
+ * The user's wardrobe, persisted in IndexedDB so it survives reloads and is independent of
+ * any try-on session. Item metadata and image bytes live in separate stores: renaming,
+ * tagging or favoriting an item never rewrites its images. Loaded items get object URLs
+ * for their images.
+ */
+
+type ImageField = 'url' | 'originalUrl' | 'isolatedUrl' | 'backUrl' | 'detailUrl';
+
+const IMAGE_FIELDS: ImageField[] = ['url', 'originalUrl', 'isolatedUrl', 'backUrl', 'detailUrl'];
+
+// The item without its image URLs; `images` maps each image field to a key in the image store.
+interface StoredWardrobeItem extends Omit<WardrobeItem, ImageField> {
+    images: Partial<Record<ImageField, string>>;
+}
+
+interface StoredImage {
+    key: string;
+    blob: Blob;
+}
+
+const ITEM_STORE = 'items';
+const IMAGE_STORE = 'images';
+const COLLECTION_STORE = 'collections';
+
+const openWardrobe = createDatabase('virtual-try-on-wardrobe', 1, (db) => {
+    db.createObjectStore(ITEM_STORE, { keyPath: 'id' });
+    db.createObjectStore(IMAGE_STORE, { keyPath: 'key' });
+    db.createObjectStore(COLLECTION_STORE, { keyPath: 'id' });
+});
+
+// Writes run one at a time, in call order, so e.g. tags saved right after an upload are not
+// applied before the item itself has been stored.
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+const queueWrite = (write: () => Promise<void>): Promise<void> => {
+    const result = pendingWrite.then(write);
+    pendingWrite = result.catch(() => undefined);
+    return result;
+};
+
+const fetchBlob = async (url: string): Promise<Blob> => {
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Could not read wardrobe image (${response.status}).`);
+    }
+    return response.blob();
+};
+
+export const loadWardrobe = async (): Promise<{ items: WardrobeItem[]; collections: WardrobeCollection[] }> => {
+    const db = await openWardrobe();
+    const transaction = db.transaction([ITEM_STORE, IMAGE_STORE, COLLECTION_STORE]);
+    const [storedItems, images, collections] = await Promise.all([
+        requestToPromise<StoredWardrobeItem[]>(transaction.objectStore(ITEM_STORE).getAll()),
+        requestToPromise<StoredImage[]>(transaction.objectStore(IMAGE_STORE).getAll()),
+        requestToPromise<WardrobeCollection[]>(transaction.objectStore(COLLECTION_STORE).getAll()),
+    ]);
+    const blobs = new Map(images.map(image => [image.key, image.blob]));
+
+    const items = storedItems.flatMap(({ images: imageKeys, ...item }): WardrobeItem[] => {
+        const urlsByKey = new Map<string, string>();
+        const urls: Partial<Record<ImageField, string>> = {};
+        for (const field of IMAGE_FIELDS) {
+            const key = imageKeys[field];
+            const blob = key ? blobs.get(key) : undefined;
+            if (!key || !blob) continue;
+            if (!urlsByKey.has(key)) urlsByKey.set(key, URL.createObjectURL(blob));
+            urls[field] = urlsByKey.get(key);
+        }
+        // An item whose try-on image is missing cannot be used; skip it rather than show a broken tile.
+        return urls.url ? [{ ...item, ...urls, url: urls.url }] : [];
+    });
+    items.sort((a, b) => (a.addedAt ?? 0) - (b.addedAt ?? 0));
+    collections.sort((a, b) => a.createdAt - b.createdAt);
+    return { items, collections };
+};
+
+/**
+ * Stores an item together with its images. Fields that share a URL (the try-on image is
+ * always the original photo or its cutout) share one stored image.
+ */
+export const saveWardrobeItem = (item: WardrobeItem): Promise<void> => queueWrite(async () => {
+    const imageKeys: Partial<Record<ImageField, string>> = {};
+    const keysByUrl = new Map<string, string>();
+    const newImages: StoredImage[] = [];
+    for (const field of IMAGE_FIELDS) {
+        const url = item[field];
+        if (!url) continue;
+        if (!keysByUrl.has(url)) {
+            const key = `${item.id}/${field}`;
+            keysByUrl.set(url, key);
+            // Read every image before the transaction opens: it would commit while a fetch is pending.
+            newImages.push({ key, blob: await fetchBlob(url) });
+        }
+        imageKeys[field] = keysByUrl.get(url);
+    }
+    const { url, originalUrl, isolatedUrl, ...metadata } = item;
+
+    const db = await openWardrobe();
+    const transaction = db.transaction([ITEM_STORE, IMAGE_STORE], 'readwrite');
+    const imageStore = transaction.objectStore(IMAGE_STORE);
+    for (const field of IMAGE_FIELDS) {
+        imageStore.delete(`${item.id}/${field}`);
+    }
+    newImages.forEach(image => imageStore.put(image));
+    transaction.objectStore(ITEM_STORE).put({ ...metadata, images: imageKeys } satisfies StoredWardrobeItem);
+    await transactionDone(transaction);
+});
+
+// Updates an item's metadata (name, tags, favorite, collections...) without touching its images.
+export const updateWardrobeItem = (id: string, changes: Partial<Omit<WardrobeItem, 'id' | ImageField>>): Promise<void> => queueWrite(async () => {
+    const db = await openWardrobe();
+    const transaction = db.transaction(ITEM_STORE, 'readwrite');
+    const store = transaction.objectStore(ITEM_STORE);
+    const stored = await requestToPromise<StoredWardrobeItem | undefined>(store.get(id));
+    if (stored) {
+        store.put({ ...stored, ...changes });
+    }
+    await transactionDone(transaction);
+});
+
+export const deleteWardrobeItem = (id: string): Promise<void> => queueWrite(async () => {
+    const db = await openWardrobe();
+    const transaction = db.transaction([ITEM_STORE, IMAGE_STORE], 'readwrite');
+    transaction.objectStore(ITEM_STORE).delete(id);
+    for (const field of IMAGE_FIELDS) {
+        transaction.objectStore(IMAGE_STORE).delete(`${id}/${field}`);
+    }
+    // The item's object URLs are not revoked: an outfit may still show the garment.
+    await transactionDone(transaction);
+});
+
+export const saveWardrobeCollection = (collection: WardrobeCollection): Promise<void> => queueWrite(async () => {
+    const db = await openWardrobe();
+    const transaction = db.transaction(COLLECTION_STORE, 'readwrite');
+    transaction.objectStore(COLLECTION_STORE).put(collection);
+    await transactionDone(transaction);
+});
+
+// Deletes a collection and takes its items out of it; the items themselves stay.
+export const deleteWardrobeCollection = (id: string): Promise<void> => queueWrite(async () => {
+    const db = await openWardrobe();
+    const transaction = db.transaction([COLLECTION_STORE, ITEM_STORE], 'readwrite');
+    transaction.objectStore(COLLECTION_STORE).delete(id);
+    const itemStore = transaction.objectStore(ITEM_STORE);
+    const items = await requestToPromise<StoredWardrobeItem[]>(itemStore.getAll());
+    for (const item of items) {
+        if (item.collectionIds?.includes(id)) {
+            itemStore.put({ ...item, collectionIds: item.collectionIds.filter(collectionId => collectionId !== id) });
+        }
+    }
+    await transactionDone(transaction);
+});
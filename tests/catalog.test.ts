@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { catalogProductToWardrobeItem, parseCatalog } from '../services/catalog';
+
+const FEED_URL = 'https://shop.example.com/feeds/catalog.json';
+
+describe('Catalog parsing', () => {
+  it('should read a JSON feed with prices, variants and a size chart', () => {
+    const { products, skipped } = parseCatalog(JSON.stringify({
+      products: [{
+        id: 'SKU-1042',
+        name: 'Linen Camp Shirt',
+        image: '/img/sku-1042.jpg',
+        category: 'shirts',
+        price: { amount: 59.9, currency: 'eur' },
+        url: 'https://shop.example.com/p/sku-1042',
+        variants: [
+          { id: 'navy', name: 'Navy', image: 'sku-1042-navy.jpg' },
+          { id: 'sand', price: 64.9 },
+        ],
+        size_chart: [{ size: 'M', chest: '96-101', waist: 84 }],
+      }],
+    }), 'json', FEED_URL);
+
+    expect(skipped).toBe(0);
+    expect(products).toEqual([{
+      id: 'SKU-1042',
+      name: 'Linen Camp Shirt',
+      imageUrl: 'https://shop.example.com/img/sku-1042.jpg',
+      category: 'top',
+      price: { amount: 59.9, currency: 'EUR' },
+      productUrl: 'https://shop.example.com/p/sku-1042',
+      variants: [
+        { id: 'navy', name: 'Navy', imageUrl: 'https://shop.example.com/feeds/sku-1042-navy.jpg', price: undefined },
+        { id: 'sand', name: 'sand', imageUrl: undefined, price: { amount: 64.9, currency: 'USD' } },
+      ],
+      sizeChart: [{ size: 'M', measurements: { chest: 98.5, waist: 84 } }],
+    }]);
+  });
+
+  it('should accept a bare array and skip products without an id, name or image', () => {
+    const { products, skipped } = parseCatalog(JSON.stringify([
+      { id: '1', name: 'Tee', image: 'tee.png', category: 'unknown' },
+      { id: '2', name: 'No image' },
+      { name: 'No id', image: 'x.png' },
+      'not a product',
+    ]), 'json', FEED_URL);
+
+    expect(products.map(product => product.id)).toEqual(['1']);
+    expect(products[0].category).toBeUndefined();
+    expect(skipped).toBe(3);
+  });
+
+  it('should group CSV rows that share an id into one product with variants', () => {
+    const csv = [
+      'id,name,image,category,price,currency,size_chart,variant_id,variant_name,variant_image',
+      'P1,"Denim Jacket, washed",jacket.jpg,jackets,89,GBP,"S: chest 92; M: chest 100",blue,Blue,blue.jpg',
+      'P1,,,,,,,black,Black,black.jpg',
+      'P2,Chinos,chinos.jpg,trousers,,,,,,',
+    ].join('\r\n');
+    const { products } = parseCatalog(csv, 'csv', FEED_URL);
+
+    expect(products).toHaveLength(2);
+    expect(products[0]).toMatchObject({
+      id: 'P1',
+      name: 'Denim Jacket, washed',
+      category: 'outerwear',
+      price: { amount: 89, currency: 'GBP' },
+      sizeChart: [{ size: 'S', measurements: { chest: 92 } }, { size: 'M', measurements: { chest: 100 } }],
+    });
+    expect(products[0].variants.map(variant => variant.name)).toEqual(['Blue', 'Black']);
+    expect(products[1]).toMatchObject({ id: 'P2', category: 'bottom', variants: [], price: undefined });
+  });
+
+  it('should reject a CSV feed without the required columns, or a feed with no usable products', () => {
+    expect(() => parseCatalog('id,name\n1,Tee', 'csv', FEED_URL)).toThrow('no "image" column');
+    expect(() => parseCatalog('[]', 'json', FEED_URL)).toThrow('no usable products');
+    expect(() => parseCatalog('{"items": []}', 'json', FEED_URL)).toThrow('"products" array');
+  });
+
+  it('should turn a product variant into a wardrobe item carrying its size chart', () => {
+    const [product] = parseCatalog(JSON.stringify([{
+      id: 'P1',
+      name: 'Tee',
+      image: 'tee.png',
+      variants: [{ id: 'red', name: 'Red', image: 'red.png' }, { id: 'blue', name: 'Blue' }],
+      size_chart: 'M: chest 100',
+    }]), 'json', FEED_URL).products;
+
+    expect(catalogProductToWardrobeItem(product, product.variants[0])).toMatchObject({
+      id: 'catalog-P1-red',
+      name: 'Tee (Red)',
+      url: 'https://shop.example.com/feeds/red.png',
+      catalogProductId: 'P1',
+      sizeChart: [{ size: 'M', measurements: { chest: 100 } }],
+    });
+    expect(catalogProductToWardrobeItem(product, product.variants[1]).url).toBe('https://shop.example.com/feeds/tee.png');
+  });
+});
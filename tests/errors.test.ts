@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AbortedError,
+  deserializeGenerationError,
+  GenerationError,
+  InvalidInputError,
+  NetworkError,
+  NoImageReturnedError,
+  RateLimitedError,
+  SafetyBlockedError,
+  serializeGenerationError,
+  toGenerationError,
+} from '../services/errors';
+
+// What the browser gets back after the proxy serialized `error` into a JSON response.
+const roundTrip = (error: GenerationError, status = 400) =>
+  deserializeGenerationError(JSON.parse(JSON.stringify(serializeGenerationError(error))), status);
+
+describe('Generation error serialization', () => {
+  it('should keep the block reason of a safety block', () => {
+    const error = roundTrip(new SafetyBlockedError('PROHIBITED_CONTENT', 'Blocked.'), 422);
+    expect(error).toBeInstanceOf(SafetyBlockedError);
+    expect((error as SafetyBlockedError).blockReason).toBe('PROHIBITED_CONTENT');
+    expect(error.message).toBe('Blocked.');
+  });
+
+  it('should keep the model text and finish reason when no image was returned', () => {
+    const error = roundTrip(new NoImageReturnedError('I cannot do that.', 'STOP'), 422);
+    expect(error).toBeInstanceOf(NoImageReturnedError);
+    expect((error as NoImageReturnedError).modelText).toBe('I cannot do that.');
+    expect((error as NoImageReturnedError).finishReason).toBe('STOP');
+  });
+
+  it('should keep the retry delay of a rate limit', () => {
+    const error = roundTrip(new RateLimitedError('Too many requests.', 3000), 429);
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect((error as RateLimitedError).retryAfterMs).toBe(3000);
+    expect(error.retryable).toBe(true);
+  });
+
+  it('should restore the class and message of every other kind', () => {
+    for (const original of [new InvalidInputError('Bad image.'), new NetworkError('Unavailable.'), new AbortedError('Cancelled.')]) {
+      const error = roundTrip(original);
+      expect(error).toBeInstanceOf(original.constructor);
+      expect(error.message).toBe(original.message);
+      expect(error.retryable).toBe(original.retryable);
+    }
+  });
+
+  it('should classify an unrecognized payload by its HTTP status', () => {
+    expect(deserializeGenerationError(undefined, 429)).toBeInstanceOf(RateLimitedError);
+    expect(deserializeGenerationError(undefined, 502)).toBeInstanceOf(NetworkError);
+    expect(deserializeGenerationError(undefined, 404)).toBeInstanceOf(InvalidInputError);
+    expect(deserializeGenerationError(undefined, 500).message).toBe('The generation service responded with HTTP 500.');
+  });
+});
+
+describe('toGenerationError', () => {
+  it('should map an AbortError to AbortedError', () => {
+    expect(toGenerationError(new DOMException('aborted', 'AbortError'))).toBeInstanceOf(AbortedError);
+  });
+
+  it('should map a failed fetch to a retryable NetworkError', () => {
+    const error = toGenerationError(new TypeError('Failed to fetch'));
+    expect(error).toBeInstanceOf(NetworkError);
+    expect((error as NetworkError).retryable).toBe(true);
+  });
+
+  it('should return unrecognized errors unchanged', () => {
+    const error = new Error('Something else');
+    expect(toGenerationError(error)).toBe(error);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import type { WardrobeItem } from '../types';
+import { describeGarmentFit, getGarmentFit, isSameFit, parseSizeChart, summarizeGarmentFit } from '../services/garmentFit';
+
+const shirt: WardrobeItem = {
+  id: 'shirt',
+  name: 'Shirt',
+  url: 'shirt.png',
+  category: 'top',
+  sizeChart: [
+    { size: 'S', measurements: { chest: 88, waist: 72, height: 165 } },
+    { size: 'M', measurements: { chest: 98, waist: 84, height: 175 } },
+  ],
+  selectedSize: 'S',
+};
+
+describe('parseSizeChart', () => {
+  it('should read a JSON chart, taking the midpoint of ranges', () => {
+    expect(parseSizeChart([{ size: 'M', chest: '96-101', waist: 84 }])).toEqual([
+      { size: 'M', measurements: { chest: 98.5, waist: 84 } },
+    ]);
+  });
+
+  it('should read the compact CSV form', () => {
+    expect(parseSizeChart('S: chest 88, waist 72; M: chest 96, inseam 80')).toEqual([
+      { size: 'S', measurements: { chest: 88, waist: 72 } },
+      { size: 'M', measurements: { chest: 96, inseam: 80 } },
+    ]);
+  });
+
+  it('should skip rows without a size or measurements, and give undefined for an empty chart', () => {
+    expect(parseSizeChart([{ name: 'L' }, { chest: 100 }, 'XL', null])).toBeUndefined();
+    expect(parseSizeChart('')).toBeUndefined();
+    expect(parseSizeChart(42)).toBeUndefined();
+  });
+});
+
+describe('getGarmentFit', () => {
+  it('should be null without a selected size on the chart', () => {
+    expect(getGarmentFit({ ...shirt, selectedSize: undefined }, { chest: 90 })).toBeNull();
+    expect(getGarmentFit({ ...shirt, selectedSize: 'XL' }, { chest: 90 })).toBeNull();
+  });
+
+  it('should rate each girth by how much bigger or smaller the size is made', () => {
+    const fit = (chest: number) => getGarmentFit({ ...shirt, selectedSize: 'M' }, { chest })?.girths[0].fit;
+    expect(fit(108)).toBe('tight');
+    expect(fit(102)).toBe('snug');
+    expect(fit(98)).toBe('regular');
+    expect(fit(92)).toBe('relaxed');
+    expect(fit(80)).toBe('oversized');
+  });
+
+  it('should call a garment cropped or long from the height', () => {
+    expect(getGarmentFit(shirt, { height: 180 })?.length).toBe('cropped');
+    expect(getGarmentFit(shirt, { height: 166 })?.length).toBe('regular');
+    expect(getGarmentFit(shirt, { height: 150 })?.length).toBe('long');
+  });
+
+  it('should only rate what both the chart and the user have', () => {
+    expect(getGarmentFit(shirt, { chest: 88 })).toEqual({ size: 'S', girths: [{ measurement: 'chest', fit: 'regular' }] });
+  });
+
+  it('should not rate the fit of shoes', () => {
+    const boots: WardrobeItem = { ...shirt, category: 'shoes' };
+    expect(getGarmentFit(boots, { chest: 100, height: 180 })).toEqual({ size: 'S', girths: [] });
+  });
+
+  it('should describe the fit for the prompt and summarize it for the stack', () => {
+    const fit = getGarmentFit(shirt, { chest: 96, waist: 72, height: 178 })!;
+    expect(summarizeGarmentFit(fit)).toBe('Size S · Tight chest · Cropped');
+    expect(describeGarmentFit(fit)).toMatch(/^size S: tight, visibly pulling across the chest; cropped/);
+
+    const trueToSize = getGarmentFit(shirt, { chest: 88, waist: 72 })!;
+    expect(summarizeGarmentFit(trueToSize)).toBe('Size S · True to size');
+    expect(describeGarmentFit({ size: 'S', girths: [] })).toBeUndefined();
+  });
+
+  it('should compare fits by what they say', () => {
+    const fit = getGarmentFit(shirt, { chest: 96 });
+    expect(isSameFit(fit, getGarmentFit(shirt, { chest: 97 }))).toBe(true);
+    expect(isSameFit(fit, getGarmentFit(shirt, { chest: 88 }))).toBe(false);
+    expect(isSameFit(undefined, null)).toBe(true);
+  });
+});
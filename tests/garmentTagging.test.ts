@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { parseGarmentTags } from '../services/garmentTagging';
+
+describe('parseGarmentTags', () => {
+  it('should read a complete answer, even inside a markdown fence', () => {
+    const answer = '```json\n{"name": " Striped Tee ", "category": "top", "colors": ["Navy", "white"], "pattern": "Striped", "material": "Cotton"}\n```';
+    expect(parseGarmentTags(answer)).toEqual({
+      name: 'Striped Tee',
+      category: 'top',
+      colors: ['navy', 'white'],
+      pattern: 'striped',
+      material: 'cotton',
+    });
+  });
+
+  it('should throw on an answer that is not JSON', () => {
+    expect(() => parseGarmentTags('A navy striped tee.')).toThrow(SyntaxError);
+    expect(() => parseGarmentTags('{"category": "top"')).toThrow(SyntaxError);
+  });
+
+  it('should throw on a missing or unknown category, but accept one in another case', () => {
+    expect(() => parseGarmentTags('{"name": "Tee"}')).toThrow('Unrecognized garment category "undefined"');
+    expect(() => parseGarmentTags('{"name": "Hat", "category": "headwear"}')).toThrow('Unrecognized garment category "headwear"');
+    expect(() => parseGarmentTags('null')).toThrow('Unrecognized garment category');
+    expect(parseGarmentTags('{"category": " Dress "}').category).toBe('dress');
+  });
+
+  it('should lowercase and trim colors, dropping empty or non-text ones and keeping the first three', () => {
+    const { colors } = parseGarmentTags(JSON.stringify({
+      category: 'bottom',
+      colors: [' Olive ', '', 42, 'BEIGE', null, 'Black', 'red'],
+    }));
+    expect(colors).toEqual(['olive', 'beige', 'black']);
+  });
+
+  it('should fill missing fields with neutral defaults', () => {
+    expect(parseGarmentTags('{"category": "shoes", "name": "  ", "colors": "red"}')).toEqual({
+      name: 'Shoes',
+      category: 'shoes',
+      colors: [],
+      pattern: 'solid',
+      material: 'unknown',
+    });
+  });
+});
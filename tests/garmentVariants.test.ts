@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import type { WardrobeItem } from '../types';
+import { collapseVariantGroups, getVariantGroup, getVariantGroupId } from '../services/garmentVariants';
+
+const item = (id: string, fields: Partial<WardrobeItem> = {}): WardrobeItem => ({ id, name: id, url: `${id}.png`, ...fields });
+
+const shirt = item('shirt', { addedAt: 1 });
+const navy = item('navy', { variantOf: 'shirt', variantLabel: 'Navy', addedAt: 3 });
+const olive = item('olive', { variantOf: 'shirt', variantLabel: 'Olive', addedAt: 2 });
+const jeans = item('jeans', { addedAt: 4 });
+
+describe('Garment variants', () => {
+  it('should group variants under the garment they were made from', () => {
+    expect(getVariantGroupId(shirt)).toBe('shirt');
+    expect(getVariantGroupId(navy)).toBe('shirt');
+    expect(getVariantGroupId(jeans)).toBe('jeans');
+  });
+
+  it('should list the original first, then its variants in the order they were added', () => {
+    const wardrobe = [navy, jeans, olive, shirt];
+    expect(getVariantGroup(wardrobe, navy)).toEqual([shirt, olive, navy]);
+    expect(getVariantGroup(wardrobe, shirt)).toEqual([shirt, olive, navy]);
+    expect(getVariantGroup(wardrobe, jeans)).toEqual([jeans]);
+  });
+
+  it('should keep the variants together after the original is deleted', () => {
+    const wardrobe = [jeans, navy, olive];
+    expect(getVariantGroup(wardrobe, navy)).toEqual([olive, navy]);
+    expect(collapseVariantGroups(wardrobe)).toEqual([jeans, navy]);
+  });
+
+  it('should collapse each group to its first item in wardrobe order', () => {
+    expect(collapseVariantGroups([navy, jeans, shirt, olive])).toEqual([navy, jeans]);
+    expect(collapseVariantGroups([shirt, navy, olive, jeans])).toEqual([shirt, jeans]);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { hashKey } from '../services/generationCache';
+
+describe('Generation cache keys', () => {
+  it('should give the same key for the same parts', async () => {
+    const parts = ['fake', 'try-on', 'try-on@2', '0', 'prompt', 'image/png', 'AAAA'];
+    expect(await hashKey(parts)).toBe(await hashKey([...parts]));
+  });
+
+  it('should be a SHA-256 hex digest', async () => {
+    expect(await hashKey(['anything'])).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should change when any part changes, e.g. the prompt template version', async () => {
+    const key = await hashKey(['fake', 'try-on', 'try-on@2', 'prompt']);
+    expect(await hashKey(['fake', 'try-on', 'try-on@3', 'prompt'])).not.toBe(key);
+    expect(await hashKey(['proxy', 'try-on', 'try-on@2', 'prompt'])).not.toBe(key);
+  });
+
+  it('should not collide when the same text is split differently between parts', async () => {
+    expect(await hashKey(['ab', 'c'])).not.toBe(await hashKey(['a', 'bc']));
+    expect(await hashKey(['a|b'])).not.toBe(await hashKey(['a', 'b']));
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import type { GarmentCategory, OutfitLayer, WardrobeItem } from '../types';
+import { getLayerFit } from '../services/garmentFit';
+import {
+  describeStylingHints,
+  editLayer,
+  findReplacedGarments,
+  getGarmentStyling,
+  getWornGarments,
+  groupGarmentsBySlot,
+  putOnGarment,
+} from '../services/outfitSlots';
+
+const garment = (id: string, category?: GarmentCategory): WardrobeItem => ({ id, name: id, url: `${id}.png`, category });
+
+const tee = garment('tee', 'top');
+const jeans = garment('jeans', 'bottom');
+const coat = garment('coat', 'outerwear');
+const scarf = garment('scarf', 'accessory');
+
+describe('Outfit slots', () => {
+  it('should list each worn garment once, in the order it was put on', () => {
+    const layers: OutfitLayer[] = [
+      { garment: null, poseImages: {} },
+      { garment: tee, poseImages: {} },
+      { garment: jeans, poseImages: {} },
+      // An edit layer repeats the garment below it.
+      { garment: jeans, poseImages: {} },
+    ];
+    expect(getWornGarments(layers)).toEqual([tee, jeans]);
+  });
+
+  it('should replace the garment in the same slot, keeping its place', () => {
+    const shirt = garment('shirt', 'top');
+    expect(findReplacedGarments([tee, jeans, coat], shirt)).toEqual([tee]);
+    expect(putOnGarment([tee, jeans, coat], shirt)).toEqual([shirt, jeans, coat]);
+  });
+
+  it('should let a dress replace both the top and the bottom', () => {
+    const dress = garment('dress', 'dress');
+    expect(putOnGarment([tee, jeans, coat], dress)).toEqual([dress, coat]);
+  });
+
+  it('should stack accessories and untagged garments on top', () => {
+    const belt = garment('belt', 'accessory');
+    const mystery = garment('mystery');
+    expect(putOnGarment([tee, scarf], belt)).toEqual([tee, scarf, belt]);
+    expect(putOnGarment([tee], mystery)).toEqual([tee, mystery]);
+  });
+
+  it('should group garments by slot in slot order, untagged last', () => {
+    const mystery = garment('mystery');
+    const groups = groupGarmentsBySlot([scarf, mystery, coat, tee]);
+    expect(groups.map(group => group.slot)).toEqual(['top', 'outer', 'accessories', null]);
+  });
+
+  it('should read a garment\'s styling from the topmost layer wearing it', () => {
+    const layers: OutfitLayer[] = [
+      { garment: tee, poseImages: {}, styling: ['tucked'] },
+      { garment: tee, poseImages: {}, styling: ['tucked', 'sleeves-rolled'] },
+    ];
+    expect(getGarmentStyling(layers, 'tee')).toEqual(['tucked', 'sleeves-rolled']);
+    expect(getGarmentStyling(layers, 'jeans')).toEqual([]);
+    expect(describeStylingHints(['tucked', 'sleeves-rolled'])).toBe('tucked into the bottoms, with the sleeves rolled up to the forearms');
+    expect(describeStylingHints([])).toBeUndefined();
+  });
+
+  it('should keep the garment, styling and fit of the layer an edit is applied to', () => {
+    const fit = { size: 'S', girths: [{ measurement: 'chest' as const, fit: 'snug' as const }] };
+    const layer: OutfitLayer = { garment: tee, poseImages: { front: 'tee-front.png', side: 'tee-side.png' }, styling: ['tucked'], fit };
+    const edited = editLayer(layer, 'front', 'edited-front.png');
+
+    expect(edited).toEqual({
+      garment: tee,
+      styling: ['tucked'],
+      fit,
+      poseImages: { front: 'edited-front.png', side: 'tee-side.png' },
+    });
+    expect(getLayerFit([layer, edited], 'tee')).toBe(fit);
+  });
+});
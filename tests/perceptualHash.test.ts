@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { groupNearDuplicates, hashDistance, isNearDuplicate } from '../services/perceptualHash';
+
+describe('Perceptual hash distance', () => {
+  it('should be zero for identical hashes', () => {
+    expect(hashDistance('f0e1d2c3b4a59687', 'f0e1d2c3b4a59687')).toBe(0);
+  });
+
+  it('should count the differing bits', () => {
+    expect(hashDistance('0000000000000000', 'ffffffffffffffff')).toBe(64);
+    expect(hashDistance('0000000000000000', '0000000000000001')).toBe(1);
+    // 0x0f vs 0xf0 differs in every bit of one byte; 0x01 vs 0x03 in one.
+    expect(hashDistance('0f00000000000001', 'f000000000000003')).toBe(9);
+  });
+
+  it('should treat hashes up to 6 bits apart as near-duplicates', () => {
+    expect(isNearDuplicate('0000000000000000', '000000000000003f')).toBe(true);
+    expect(isNearDuplicate('0000000000000000', '00000000000000ff')).toBe(false);
+  });
+});
+
+describe('groupNearDuplicates', () => {
+  it('should group near-duplicates under the first item, keeping the order', () => {
+    const items = [
+      { id: 'a', hash: '0000000000000000' },
+      { id: 'b', hash: 'ffffffffffffffff' },
+      { id: 'c', hash: '0000000000000003' },
+      { id: 'd' },
+      { id: 'e', hash: 'fffffffffffffffe' },
+    ];
+    const groups = groupNearDuplicates(items, item => item.hash);
+    expect(groups.map(group => group.map(item => item.id))).toEqual([['a', 'c'], ['b', 'e'], ['d']]);
+  });
+
+  it('should keep items without a hash on their own', () => {
+    const groups = groupNearDuplicates([{ id: 'a' }, { id: 'b' }], () => undefined);
+    expect(groups).toHaveLength(2);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { metadataStep, type PostProcessingContext } from '../services/postProcessing';
+
+// A 1×1 PNG and a 1×1 JPEG; only their structure matters here.
+const PNG = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
+const JPEG = 'data:image/jpeg;base64,/9j/4AAQSkZJRgABAQEASABIAAD/2wBDAP//////////////////////////////////////////////////////////////////////////////////////wgALCAABAAEBAREA/8QAFBABAAAAAAAAAAAAAAAAAAAAAP/aAAgBAQABPxA=';
+
+const context: PostProcessingContext = { operation: 'try-on', promptVersion: 'try-on@3', providerId: 'fake' };
+
+const expectedFields = {
+  Software: 'Virtual U AR',
+  Operation: 'try-on',
+  'Prompt Version': 'try-on@3',
+  Provider: 'fake',
+  'Creation Time': '2026-01-02T03:04:05.000Z',
+};
+
+const bytesOf = (dataUrl: string) => new Uint8Array(Buffer.from(dataUrl.slice(dataUrl.indexOf(',') + 1), 'base64'));
+const text = (bytes: Uint8Array) => Buffer.from(bytes).toString('latin1');
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Splits a PNG into its chunks, checking each one's CRC.
+const readPngChunks = (bytes: Uint8Array) => {
+  expect(text(bytes.subarray(0, 8))).toBe('\x89PNG\r\n\x1a\n');
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const chunks: { type: string; data: Uint8Array; raw: Uint8Array }[] = [];
+  for (let offset = 8; offset < bytes.length;) {
+    const length = view.getUint32(offset);
+    const raw = bytes.subarray(offset, offset + 12 + length);
+    expect(view.getUint32(offset + 8 + length)).toBe(crc32(raw.subarray(4, 8 + length)));
+    chunks.push({ type: text(raw.subarray(4, 8)), data: raw.subarray(8, 8 + length), raw });
+    offset += raw.length;
+  }
+  return chunks;
+};
+
+// Splits a JPEG into its marker segments up to the start of the scan, which is kept whole.
+const readJpegSegments = (bytes: Uint8Array) => {
+  expect([bytes[0], bytes[1]]).toEqual([0xff, 0xd8]);
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const segments: { marker: number; raw: Uint8Array }[] = [];
+  for (let offset = 2; offset < bytes.length;) {
+    const marker = view.getUint16(offset);
+    const end = marker === 0xffda ? bytes.length : offset + 2 + view.getUint16(offset + 2);
+    segments.push({ marker, raw: bytes.subarray(offset, end) });
+    offset = end;
+  }
+  return segments;
+};
+
+describe('Metadata embedding', () => {
+  beforeAll(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(expectedFields['Creation Time']));
+  });
+
+  afterAll(() => {
+    vi.useRealTimers();
+  });
+
+  it('should write the fields as PNG text chunks right after the header, leaving the image chunks intact', async () => {
+    const output = readPngChunks(bytesOf(await metadataStep()(PNG, context)));
+    const original = readPngChunks(bytesOf(PNG));
+
+    expect(output.map(chunk => chunk.type)).toEqual(['IHDR', 'tEXt', 'tEXt', 'tEXt', 'tEXt', 'tEXt', 'IDAT', 'IEND']);
+    const fields = Object.fromEntries(output.filter(chunk => chunk.type === 'tEXt').map(chunk => text(chunk.data).split('\0')));
+    expect(fields).toEqual(expectedFields);
+    expect(output.filter(chunk => chunk.type !== 'tEXt').map(chunk => chunk.raw)).toEqual(original.map(chunk => chunk.raw));
+  });
+
+  it('should write the fields as a JPEG comment right after the start marker, leaving the other segments intact', async () => {
+    const output = readJpegSegments(bytesOf(await metadataStep()(JPEG, context)));
+    const original = readJpegSegments(bytesOf(JPEG));
+
+    expect(output[0].marker).toBe(0xfffe);
+    const fields = Object.fromEntries(text(output[0].raw.subarray(4)).split('\n').map(line => line.split(': ')));
+    expect(fields).toEqual(expectedFields);
+    expect(output.slice(1)).toEqual(original);
+  });
+
+  it('should leave other formats untouched', async () => {
+    const webp = 'data:image/webp;base64,UklGRhoAAABXRUJQVlA4TA0AAAAvAAAAEAcQERGIiP4HAA==';
+    expect(await metadataStep()(webp, context)).toBe(webp);
+  });
+});
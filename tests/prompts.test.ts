@@ -0,0 +1,39 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { overridePromptTemplate, renderPrompt, resetPromptTemplate, type PromptVariables } from '../services/prompts';
+
+describe('Prompt registry', () => {
+  afterEach(() => {
+    resetPromptTemplate('edit');
+  });
+
+  it('should substitute variables and record the template version', () => {
+    const { text, version } = renderPrompt('background-change', { background: 'a sunny beach' });
+    expect(text).toContain('Change the background to a sunny beach.');
+    expect(version).toBe('background-change@2');
+  });
+
+  it('should leave out optional sections whose variables are not given', () => {
+    const plain = renderPrompt('try-on', {}).text;
+    expect(plain).toContain('The SECOND image provided is the GARMENT (Clothing).');
+    expect(plain).not.toContain('**Styling:**');
+
+    const styled = renderPrompt('try-on', { garmentRole: 'Top', styling: 'tucked into the bottoms', fit: 'size M, snug across the chest' }).text;
+    expect(styled).toContain('The SECOND image provided is the GARMENT (Top).');
+    expect(styled).toContain('Wear the new garment tucked into the bottoms.');
+    expect(styled).toContain('The garment is worn in size M, snug across the chest.');
+  });
+
+  it('should fail on a missing required variable instead of rendering "undefined"', () => {
+    expect(() => renderPrompt('edit', {} as PromptVariables['edit'])).toThrow('Prompt "edit@1" is missing the variable "instruction".');
+    expect(() => renderPrompt('outfit', { garments: null } as unknown as PromptVariables['outfit'])).toThrow('"garments"');
+  });
+
+  it('should render an overriding template until it is reset', () => {
+    overridePromptTemplate({ id: 'edit', version: 7, required: ['instruction'], render: ({ instruction }) => `Edit: ${instruction}` });
+    expect(renderPrompt('edit', { instruction: 'add a hat' })).toEqual({ text: 'Edit: add a hat', version: 'edit@7' });
+    expect(() => renderPrompt('edit', {} as PromptVariables['edit'])).toThrow('Prompt "edit@7" is missing the variable "instruction".');
+
+    resetPromptTemplate('edit');
+    expect(renderPrompt('edit', { instruction: 'add a hat' }).version).toBe('edit@1');
+  });
+});
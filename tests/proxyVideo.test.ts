@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { createProxyServer } from '../server/proxyServer';
+import { createFakeUpstream } from '../server/fakeUpstream';
+import { createRateLimiter } from '../server/rateLimiter';
+import { createProxyProvider } from '../services/proxyProvider';
+import { setImageProvider } from '../services/imageProvider';
+import { generateOutfitVideo } from '../services/geminiService';
+import { InvalidInputError } from '../services/errors';
+
+// A 1×1 PNG; the fake upstream never looks at the pixels.
+const TRY_ON_IMAGE = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
+
+describe('Outfit videos through the proxy', () => {
+  let server: Server;
+
+  beforeAll(async () => {
+    // Five polls' worth of latency, so the operation reports progress before it is done.
+    server = createProxyServer(createFakeUpstream(20), { rateLimiter: createRateLimiter(600, 10) });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    vi.stubEnv('VITE_API_BASE_URL', `http://127.0.0.1:${port}`);
+    setImageProvider(createProxyProvider());
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should start the operation, poll it and return the finished clip', async () => {
+    const progress: number[] = [];
+    const { videoUrl, promptVersion } = await generateOutfitVideo(TRY_ON_IMAGE, 'runway', {
+      pollIntervalMs: 10,
+      onProgress: value => progress.push(value),
+    });
+
+    expect(promptVersion).toMatch(/^video@\d+$/);
+    expect(progress[0]).toBe(0);
+    expect(progress[progress.length - 1]).toBe(1);
+    expect(progress.some(value => value > 0 && value < 1)).toBe(true);
+
+    const clip = await (await fetch(videoUrl)).blob();
+    expect(clip.type).toBe('video/mp4');
+    // An MP4 starts with its "ftyp" box.
+    expect(new TextDecoder().decode((await clip.slice(4, 8).arrayBuffer()))).toBe('ftyp');
+    URL.revokeObjectURL(videoUrl);
+  });
+
+  it('should reject polling an unknown operation as invalid input', async () => {
+    await expect(createProxyProvider().getVideoOperation!('fake-video-unknown')).rejects.toBeInstanceOf(InvalidInputError);
+  });
+});
+
+describe('Video operations on the proxy', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  const startVideo = async (client: string) => {
+    const response = await fetch(`${baseUrl}/api/video`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': client },
+      body: JSON.stringify({ image: { mimeType: 'image/png', data: TRY_ON_IMAGE.split(',')[1] }, prompt: 'Walk the runway.' }),
+    });
+    return (await response.json()).operationId as string;
+  };
+
+  const poll = (operationId: string, client: string) =>
+    fetch(`${baseUrl}/api/video/operations/${encodeURIComponent(operationId)}`, { headers: { 'X-Forwarded-For': client } });
+
+  beforeAll(async () => {
+    // Three requests per client, with no refill to speak of during the test.
+    server = createProxyServer(createFakeUpstream(1000), { rateLimiter: createRateLimiter(1, 3), trustProxy: true });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should only let the client that started an operation poll it', async () => {
+    const operationId = await startVideo('203.0.113.1');
+
+    const stranger = await poll(operationId, '203.0.113.2');
+    expect(stranger.status).toBe(400);
+    expect((await stranger.json()).error.message).toBe(`Unknown video operation "${operationId}".`);
+
+    const owner = await poll(operationId, '203.0.113.1');
+    expect(owner.status).toBe(200);
+    expect(await owner.json()).toMatchObject({ done: false });
+  });
+
+  it('should count polls against the rate limit', async () => {
+    const operationId = await startVideo('203.0.113.3');
+    expect((await poll(operationId, '203.0.113.3')).status).toBe(200);
+    expect((await poll(operationId, '203.0.113.3')).status).toBe(200);
+
+    const limited = await poll(operationId, '203.0.113.3');
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('Retry-After')).not.toBeNull();
+  });
+});
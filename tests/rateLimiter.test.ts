@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { createRateLimiter } from '../server/rateLimiter';
+
+describe('Rate limiter', () => {
+  it('should allow a burst and then refuse, saying when to retry', () => {
+    const limiter = createRateLimiter(60, 3);
+    const now = 1_000_000;
+    expect([1, 2, 3].map(() => limiter.take('client', now).allowed)).toEqual([true, true, true]);
+
+    const refused = limiter.take('client', now);
+    expect(refused.allowed).toBe(false);
+    // One request per second.
+    expect(refused.retryAfterMs).toBe(1000);
+  });
+
+  it('should refill over time at the sustained rate', () => {
+    const limiter = createRateLimiter(60, 1);
+    expect(limiter.take('client', 0).allowed).toBe(true);
+    expect(limiter.take('client', 500).allowed).toBe(false);
+    expect(limiter.take('client', 1000).allowed).toBe(true);
+  });
+
+  it('should never store more than the burst', () => {
+    const limiter = createRateLimiter(60, 2);
+    const later = 60 * 60 * 1000;
+    expect(limiter.take('client', later).allowed).toBe(true);
+    expect(limiter.take('client', later).allowed).toBe(true);
+    expect(limiter.take('client', later).allowed).toBe(false);
+  });
+
+  it('should keep a separate bucket per client', () => {
+    const limiter = createRateLimiter(60, 1);
+    expect(limiter.take('a', 0).allowed).toBe(true);
+    expect(limiter.take('a', 0).allowed).toBe(false);
+    expect(limiter.take('b', 0).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,74 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { withRetry } from '../services/retry';
+import { AbortedError, InvalidInputError, NetworkError, RateLimitedError } from '../services/errors';
+
+// Fails with each of `errors` in turn, then resolves with 'done'.
+const failingWith = (...errors: unknown[]) => vi.fn(async () => {
+  const error = errors.shift();
+  if (error) throw error;
+  return 'done';
+});
+
+describe('withRetry', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should retry a retryable error and resolve once the operation succeeds', async () => {
+    const operation = failingWith(new NetworkError('offline'));
+    const onRetry = vi.fn();
+
+    await expect(withRetry(operation, { baseDelayMs: 1, onRetry })).resolves.toBe('done');
+    expect(operation).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith(1, expect.any(NetworkError), expect.any(Number));
+  });
+
+  it('should not retry an error that is not retryable', async () => {
+    const operation = failingWith(new InvalidInputError('bad image'));
+
+    await expect(withRetry(operation, { baseDelayMs: 1 })).rejects.toBeInstanceOf(InvalidInputError);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give up after maxAttempts and rethrow the last error', async () => {
+    const last = new NetworkError('still offline');
+    const operation = failingWith(new NetworkError('offline'), new NetworkError('offline'), last);
+
+    await expect(withRetry(operation, { maxAttempts: 3, baseDelayMs: 1 })).rejects.toBe(last);
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('should back off exponentially with jitter, capped at maxDelayMs', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const operation = failingWith(new NetworkError('1'), new NetworkError('2'), new NetworkError('3'), new NetworkError('4'));
+    const delays: number[] = [];
+
+    await withRetry(operation, { maxAttempts: 5, baseDelayMs: 2, maxDelayMs: 6, onRetry: (_attempt, _error, delayMs) => delays.push(delayMs) });
+    // Half of 2, 4, 8 (capped to 6) and 16 (capped to 6).
+    expect(delays).toEqual([1, 2, 3, 3]);
+  });
+
+  it('should wait as long as a rate limit asks, up to maxDelayMs', async () => {
+    const operation = failingWith(new RateLimitedError('slow down', 5), new RateLimitedError('slow down', 60_000));
+    const delays: number[] = [];
+
+    await withRetry(operation, { baseDelayMs: 1, maxDelayMs: 20, onRetry: (_attempt, _error, delayMs) => delays.push(delayMs) });
+    expect(delays).toEqual([5, 20]);
+  });
+
+  it('should treat a failed fetch as a retryable network error', async () => {
+    const operation = failingWith(new TypeError('Failed to fetch'));
+
+    await expect(withRetry(operation, { baseDelayMs: 1 })).resolves.toBe('done');
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop waiting and reject with AbortedError when aborted between attempts', async () => {
+    const controller = new AbortController();
+    const operation = failingWith(new NetworkError('offline'));
+
+    const result = withRetry(operation, { baseDelayMs: 60_000, signal: controller.signal, onRetry: () => controller.abort() });
+    await expect(result).rejects.toBeInstanceOf(AbortedError);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import type { WardrobeItem } from '../types';
+import { EMPTY_WARDROBE_QUERY, getWardrobeColors, queryWardrobe, type WardrobeQuery } from '../services/wardrobeSearch';
+
+const item = (id: string, fields: Partial<WardrobeItem> = {}): WardrobeItem => ({ id, name: id, url: `${id}.png`, ...fields });
+
+const linenShirt = item('shirt', { name: 'Camp Shirt', category: 'top', colors: ['blue', 'white'], pattern: 'striped', material: 'linen', addedAt: 3, favorite: true });
+const jeans = item('jeans', { name: 'Straight Jeans', category: 'bottom', colors: ['blue'], pattern: 'solid', material: 'denim', addedAt: 2, collectionIds: ['weekend'] });
+const coat = item('coat', { name: 'Wool Coat', category: 'outerwear', colors: ['camel'], material: 'wool', addedAt: 1, collectionIds: ['work', 'weekend'] });
+const wardrobe = [jeans, coat, linenShirt];
+
+const ids = (query: Partial<WardrobeQuery>, items = wardrobe) =>
+  queryWardrobe(items, { ...EMPTY_WARDROBE_QUERY, ...query }).map(result => result.id);
+
+describe('queryWardrobe', () => {
+  it('should need every search word to appear in the name or a tag, in any case', () => {
+    expect(ids({ search: 'blue linen' })).toEqual(['shirt']);
+    expect(ids({ search: '  BLUE  ' })).toEqual(['shirt', 'jeans']);
+    expect(ids({ search: 'jeans' })).toEqual(['jeans']);
+    expect(ids({ search: 'outerwear camel' })).toEqual(['coat']);
+    expect(ids({ search: 'striped denim' })).toEqual([]);
+  });
+
+  it('should filter by category and color', () => {
+    expect(ids({ category: 'bottom' })).toEqual(['jeans']);
+    expect(ids({ color: 'blue' })).toEqual(['shirt', 'jeans']);
+    expect(ids({ category: 'top', color: 'camel' })).toEqual([]);
+  });
+
+  it('should filter by favorites or by a collection', () => {
+    expect(ids({ collection: 'favorites' })).toEqual(['shirt']);
+    expect(ids({ collection: 'weekend' })).toEqual(['jeans', 'coat']);
+    expect(ids({ collection: 'weekend', search: 'wool' })).toEqual(['coat']);
+    expect(ids({ collection: 'travel' })).toEqual([]);
+  });
+
+  it('should sort by recent use, putting never-used items last and breaking ties by when they were added', () => {
+    const items = [
+      item('old', { addedAt: 1 }),
+      item('used-late', { addedAt: 2, lastUsedAt: 20 }),
+      item('new', { addedAt: 5 }),
+      item('used-early', { addedAt: 4, lastUsedAt: 10 }),
+      item('used-early-newer', { addedAt: 6, lastUsedAt: 10 }),
+    ];
+    expect(ids({ sort: 'recently-used' }, items)).toEqual(['used-late', 'used-early-newer', 'used-early', 'new', 'old']);
+  });
+
+  it('should sort by when items were added, newest first, keeping the wardrobe order for ties and undated items', () => {
+    const items = [item('undated'), item('a', { addedAt: 1 }), item('b', { addedAt: 2 }), item('c', { addedAt: 2 })];
+    expect(ids({ sort: 'recently-added' }, items)).toEqual(['b', 'c', 'a', 'undated']);
+  });
+
+  it('should sort by name ignoring case and accents, keeping the wardrobe order for equal names', () => {
+    const items = [item('2', { name: 'scarf' }), item('1', { name: 'Écharpe' }), item('3', { name: 'Scarf' }), item('4', { name: 'belt' })];
+    expect(ids({ sort: 'name' }, items)).toEqual(['4', '1', '2', '3']);
+  });
+});
+
+describe('getWardrobeColors', () => {
+  it('should list colors by how many items have them, then alphabetically, up to the limit', () => {
+    expect(getWardrobeColors(wardrobe)).toEqual(['blue', 'camel', 'white']);
+    expect(getWardrobeColors([...wardrobe, item('tee', { colors: ['white'] })], 2)).toEqual(['blue', 'white']);
+    expect(getWardrobeColors([item('untagged')])).toEqual([]);
+  });
+});
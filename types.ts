@@ -3,19 +3,145 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-export interface WardrobeItem {
+export type GarmentCategory = 'top' | 'bottom' | 'dress' | 'outerwear' | 'shoes' | 'accessory';
+
+// Where a garment sits in an outfit (see services/outfitSlots.ts). Each slot holds one garment, except accessories.
+export type OutfitSlot = 'top' | 'bottom' | 'outer' | 'footwear' | 'accessories';
+
+// How a garment is worn; passed to the try-on prompt.
+export type StylingHint = 'tucked' | 'open' | 'sleeves-rolled';
+
+// Attributes read from the garment image by the tagging call (see services/garmentTagging.ts).
+export interface GarmentTags {
+  name: string; // Human-readable, e.g. "Navy Striped Linen Shirt"
+  category: GarmentCategory;
+  colors: string[]; // Dominant colors, most prominent first
+  pattern: string; // e.g. "solid", "striped", "floral"
+  material: string; // Best guess, e.g. "denim", "cotton jersey"
+}
+
+// A non-destructive crop: the image is rotated about its center, then the rectangle (in percent
+// of the rotated image's bounding box) is cut out. See drawCroppedImage in lib/utils.ts.
+export interface ImageCrop {
+  rotation: number; // Degrees, clockwise
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Body measurements in centimetres, all optional (see garmentFit.ts).
+export type BodyMeasurement = 'height' | 'chest' | 'waist' | 'hips' | 'inseam';
+export type BodyMeasurements = Partial<Record<BodyMeasurement, number>>;
+
+// One row of a garment's size chart: the body measurements the size is made for.
+export interface SizeChartEntry {
+  size: string; // e.g. "M" or "40"
+  measurements: BodyMeasurements;
+}
+
+export type GirthFit = 'tight' | 'snug' | 'regular' | 'relaxed' | 'oversized';
+export type LengthFit = 'cropped' | 'regular' | 'long';
+
+// How a garment in its selected size fits the user, from comparing the size chart with their measurements.
+export interface GarmentFit {
+  size: string;
+  girths: { measurement: BodyMeasurement; fit: GirthFit }[]; // Only measurements both the chart and the user have
+  length?: LengthFit;
+}
+
+// Extra photos of a garment, for poses that show what the try-on photo cannot (see garmentViews.ts).
+export type GarmentView = 'back' | 'detail';
+
+export interface WardrobeItem extends Partial<Omit<GarmentTags, 'name'>> {
   id: string;
   name: string;
-  url: string;
+  url: string; // The image used for try-on: either the original upload or its isolated cutout
+  originalUrl?: string; // The photo as uploaded, when a cutout was made from it
+  isolatedUrl?: string; // The garment-on-white cutout, when one was made
+  backUrl?: string; // The garment seen from behind, for rear and side poses
+  detailUrl?: string; // A close-up of a print, zipper or other detail
+  tagsVersion?: string; // Prompt template that produced the tags, e.g. "tag@1"; unset until tagged
+  crop?: ImageCrop; // Applied to `url` whenever the garment is sent for generation
+  favorite?: boolean;
+  collectionIds?: string[]; // The user's collections this item belongs to
+  addedAt?: number; // When the item entered the wardrobe (ms since epoch)
+  lastUsedAt?: number; // When the item was last tried on (ms since epoch)
+  catalogProductId?: string; // Set when the item came from the product catalog
+  productUrl?: string; // The retailer's product page, for catalog items
+  variantOf?: string; // For generated color or fabric variants: the id of the garment they were made from
+  variantLabel?: string; // What sets a variant apart, e.g. "Navy" or "Swatch"
+  imageHash?: string; // Perceptual hash of the uploaded photo, for spotting re-uploads (see perceptualHash.ts)
+  sizeChart?: SizeChartEntry[]; // Entered by hand or imported with a catalog product
+  selectedSize?: string; // The size from `sizeChart` the user is trying on
+}
+
+export interface CatalogPrice {
+  amount: number;
+  currency: string; // ISO 4217 code, e.g. "EUR"
+}
+
+// A version of a catalog product that looks different when worn, e.g. a colorway.
+export interface CatalogVariant {
+  id: string;
+  name: string; // e.g. "Navy"
+  imageUrl?: string; // Falls back to the product image
+  price?: CatalogPrice; // Falls back to the product price
+}
+
+// A product from a retailer feed (see services/catalog.ts for the feed format).
+export interface CatalogProduct {
+  id: string;
+  name: string;
+  imageUrl: string;
+  category?: GarmentCategory;
+  variants: CatalogVariant[]; // Empty when the product comes in one version
+  price?: CatalogPrice;
+  productUrl?: string;
+  sizeChart?: SizeChartEntry[];
+}
+
+// A file in the garment upload queue. Files are processed one at a time and only added to the wardrobe.
+export interface GarmentUpload {
+  id: string;
+  fileName: string;
+  // 'duplicate' waits for the user to merge it with the garment it matches, or to add it anyway.
+  status: 'queued' | 'processing' | 'duplicate' | 'done' | 'failed';
+  message?: string; // Why the file was rejected or failed, or a caveat for a done upload
+  itemId?: string; // The wardrobe item created from the file, or the one it was merged into
+  duplicateOfId?: string; // The wardrobe item the photo looks like, for 'duplicate' uploads
+  allowDuplicate?: boolean; // Set when the user chose to add the photo despite the match
+}
+
+// A user-defined group of wardrobe items, e.g. "Work" or "Summer trip".
+export interface WardrobeCollection {
+  id: string;
+  name: string;
+  createdAt: number;
 }
 
 export interface OutfitLayer {
   garment: WardrobeItem | null; // null represents the base model layer
   poseImages: Record<string, string>; // Maps pose instruction to image URL
+  candidates?: Record<string, string[]>; // Every candidate generated per pose instruction, including rejected ones
+  styling?: StylingHint[]; // How the layer's garment is worn, e.g. tucked in
+  combined?: boolean; // Applied in one generation with the layer(s) above; has no images of its own
+  fit?: GarmentFit; // The fit the layer's garment was generated with, when it has a selected size
+}
+
+// Progress of re-applying garments after one in the middle of the stack was removed or replaced.
+export interface OutfitRecomposition {
+  garments: WardrobeItem[]; // The garments being regenerated, in the order they are applied
+  completed: number; // How many of them are done
+  inProgress: number; // How many after those are being generated right now (several when combined into one outfit generation)
 }
 
 export interface CreationItem {
   id: string;
   url: string;
   type: 'image' | 'video';
+  // The prompt template that produced this creation, e.g. "try-on@1".
+  promptVersion?: string;
+  // Perceptual hash of the image, so near-identical creations can be shown together.
+  imageHash?: string;
 }
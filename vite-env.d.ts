@@ -0,0 +1,27 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Origin of the generation proxy (server/). Empty means same origin, e.g. via the dev server's /api proxy.
+  readonly VITE_API_BASE_URL?: string;
+  // Which ImageGenerationProvider to use when none was picked at runtime: 'proxy' (default) or 'fake'.
+  readonly VITE_IMAGE_PROVIDER?: string;
+  // Artificial delay for the fake provider, so loading states can be exercised offline.
+  readonly VITE_FAKE_PROVIDER_LATENCY_MS?: string;
+  // Longest side, in pixels, that uploaded photos are downscaled to before generation (default 2048).
+  readonly VITE_INPUT_MAX_DIMENSION?: string;
+  // Output post-processing (see services/postProcessing.ts). VITE_WATERMARK=off disables the watermark.
+  readonly VITE_WATERMARK?: string;
+  readonly VITE_WATERMARK_LOGO_URL?: string;
+  readonly VITE_WATERMARK_TEXT?: string;
+  readonly VITE_WATERMARK_POSITION?: string;
+  readonly VITE_WATERMARK_OPACITY?: string;
+  readonly VITE_WATERMARK_SIZE?: string;
+  readonly VITE_OUTPUT_FORMAT?: string;
+  readonly VITE_OUTPUT_QUALITY?: string;
+  readonly VITE_OUTPUT_MAX_DIMENSION?: string;
+  readonly VITE_OUTPUT_METADATA?: string;
+  // Size cap of the opt-in IndexedDB generation cache, in bytes (default 100 MB).
+  readonly VITE_GENERATION_CACHE_MAX_BYTES?: string;
+  // A product feed loaded into the catalog on first visit (see services/catalog.ts).
+  readonly VITE_CATALOG_URL?: string;
+}
@@ -7,6 +7,7 @@ import { VitePWA } from 'vite-plugin-pwa';
 export default defineConfig(({ mode }) => {
   // Load env file based on `mode` in the current working directory.
   const env = loadEnv(mode, process.cwd(), '');
+  const apiProxyTarget = env.API_PROXY_TARGET || 'http://localhost:8787';
 
   return {
     plugins: [
@@ -111,10 +112,12 @@ export default defineConfig(({ mode }) => {
       outDir: 'dist',
       sourcemap: false,
     },
-    define: {
-      // Polyfill process.env for browser compatibility
-      // This allows 'process.env.API_KEY' to work in client-side code
-      'process.env': JSON.stringify(env),
+    // Generation requests go to the proxy in server/, which keeps the API key off the client.
+    server: {
+      proxy: { '/api': apiProxyTarget },
+    },
+    preview: {
+      proxy: { '/api': apiProxyTarget },
     },
   };
 });
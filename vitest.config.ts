@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config';
+
+// Kept apart from vite.config.ts so tests do not load the PWA plugin.
+export default defineConfig({
+  resolve: {
+    // tests/manifest.test.ts imports its globals the Jest way; Vitest provides the same API.
+    alias: { '@jest/globals': 'vitest' },
+  },
+  test: {
+    include: ['tests/**/*.test.ts'],
+    environment: 'node',
+  },
+});